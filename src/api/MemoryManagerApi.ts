@@ -0,0 +1,103 @@
+/**
+ * Public API of the Memory Manager extension for other extensions
+ *
+ * This file has no dependencies so dependent extensions can copy it into their sources.
+ * Get the API with:
+ *
+ * ```ts
+ * const extension = vscode.extensions.getExtension<MemoryManagerApi>('memory-manager.vscode-memory-manager');
+ * const api = await extension?.activate();
+ * if (api?.version === 1) { ... }
+ * ```
+ */
+
+/**
+ * Something that can be disposed, e.g. an event subscription
+ */
+export interface MemoryManagerDisposable {
+    dispose(): void;
+}
+
+/**
+ * A typed event, compatible with `vscode.Event`
+ */
+export type MemoryManagerEvent<T> = (
+    listener: (event: T) => unknown,
+    thisArgs?: unknown,
+    disposables?: MemoryManagerDisposable[]
+) => MemoryManagerDisposable;
+
+/**
+ * A memory file of the index
+ */
+export interface MemoryEntry {
+    /** Absolute path of the memory file */
+    filePath: string;
+    title: string;
+    tags: string[];
+    /** All frontmatter fields, including custom ones */
+    frontmatter: Readonly<Record<string, unknown>>;
+    /** Markdown body without the frontmatter */
+    content: string;
+    /** When the file was last indexed */
+    lastModified: Date;
+    /** Name of the workspace folder the memory belongs to (undefined outside a workspace) */
+    workspaceFolder?: string;
+    /** True for memories from the user-global library */
+    isGlobal?: boolean;
+}
+
+/**
+ * The content of a memory file with its Markdown links resolved
+ */
+export interface MemoryContent {
+    filePath: string;
+    title: string;
+    content: string;
+}
+
+/**
+ * Options for querying memories
+ */
+export interface MemoryQueryOptions {
+    /** Only return memories of this workspace folder */
+    workspaceFolder?: string;
+}
+
+/**
+ * Version 1 of the Memory Manager API
+ */
+export interface MemoryManagerApi {
+    readonly version: 1;
+
+    /**
+     * Finds the memory files matching a tag query
+     * @param expression Tag patterns combined with `&`, `|`, `-` and parentheses (e.g. `backend.* -backend.legacy`)
+     * @returns Absolute file paths, highest priority first
+     * @throws If the expression is malformed (the error's name is `TagQuerySyntaxError`)
+     */
+    query(expression: string, options?: MemoryQueryOptions): string[];
+
+    /**
+     * Gets the indexed memory for a file
+     * @param filePath Absolute path of the memory file
+     * @returns The entry, or undefined if the file is not indexed
+     */
+    getEntry(filePath: string): MemoryEntry | undefined;
+
+    /**
+     * Lists all tags including the parents of hierarchical tags, sorted alphabetically
+     */
+    getTags(): string[];
+
+    /**
+     * Reads memory files and resolves their Markdown links
+     * Files that can't be read or parsed are left out
+     */
+    getMemoryContents(filePaths: string[]): Promise<MemoryContent[]>;
+
+    /**
+     * Fired after memory files were added, changed or removed
+     */
+    readonly onDidChangeIndex: MemoryManagerEvent<void>;
+}
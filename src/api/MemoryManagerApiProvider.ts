@@ -0,0 +1,65 @@
+import { ContentInjectionEngine } from '../chat/ContentInjectionEngine';
+import { MemoryIndex, MemoryIndexEntry } from '../core/MemoryIndex';
+import { TagSystem } from '../core/TagSystem';
+import { TagQueryParser } from '../core/TagQuery';
+import { MemoryEntry, MemoryManagerApi, MemoryManagerEvent } from './MemoryManagerApi';
+
+/**
+ * Creates the public API object returned from `activate`
+ */
+export class MemoryManagerApiProvider {
+    public static readonly VERSION = 1;
+
+    /**
+     * @param memoryIndex The memory index
+     * @param tagSystem The tag system
+     * @param contentInjector Used to resolve memory contents
+     * @param onDidChangeIndex Event fired when the memory index changed
+     */
+    public static create(
+        memoryIndex: MemoryIndex,
+        tagSystem: TagSystem,
+        contentInjector: ContentInjectionEngine,
+        onDidChangeIndex: MemoryManagerEvent<void>
+    ): MemoryManagerApi {
+        return Object.freeze<MemoryManagerApi>({
+            version: MemoryManagerApiProvider.VERSION,
+
+            query(expression, options) {
+                const query = TagQueryParser.parse(expression);
+                return query ? contentInjector.getMatchSummaryForQuery(query, options?.workspaceFolder).filePaths : [];
+            },
+
+            getEntry(filePath) {
+                const entry = memoryIndex.get(filePath);
+                return entry ? MemoryManagerApiProvider.toMemoryEntry(entry) : undefined;
+            },
+
+            getTags() {
+                return tagSystem.getAllTags().sort();
+            },
+
+            getMemoryContents(filePaths) {
+                return contentInjector.getMemoryContents(filePaths);
+            },
+
+            onDidChangeIndex
+        });
+    }
+
+    /**
+     * Copies an index entry so callers can't modify the index
+     */
+    private static toMemoryEntry(entry: MemoryIndexEntry): MemoryEntry {
+        return {
+            filePath: entry.filePath,
+            title: entry.frontmatter.title,
+            tags: [...entry.frontmatter.tags],
+            frontmatter: structuredClone(entry.frontmatter),
+            content: entry.content,
+            lastModified: new Date(entry.lastModified),
+            workspaceFolder: entry.workspaceFolder,
+            isGlobal: entry.isGlobal
+        };
+    }
+}
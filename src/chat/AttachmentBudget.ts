@@ -0,0 +1,132 @@
+import * as path from 'path';
+
+/**
+ * A file that may be attached to the chat, in ranked order
+ */
+export interface AttachmentCandidate {
+    /** Absolute path of the file */
+    filePath: string;
+    /** Estimated size of the file in tokens */
+    estimatedTokens: number;
+    /** File whose link pulled this file in (undefined for matched memories) */
+    linkedFrom?: string;
+}
+
+/**
+ * A file left out because it did not fit into the budget
+ */
+export interface DroppedAttachment {
+    /** Absolute path of the file */
+    filePath: string;
+    /** Estimated size of the file in tokens */
+    estimatedTokens: number;
+    /** Human-readable reason shown in the chat response */
+    reason: string;
+}
+
+/**
+ * Result of selecting attachments within a token budget
+ */
+export interface AttachmentSelection {
+    /** Files that fit into the budget, in ranked order */
+    filePaths: string[];
+    /** Files that were left out */
+    droppedFiles: DroppedAttachment[];
+    /** Estimated tokens used by the selected files */
+    estimatedTokens: number;
+}
+
+/**
+ * Size estimation and budget-aware selection of chat attachments
+ * Keeps broad queries from exceeding the model's context window
+ */
+export class AttachmentBudget {
+    /**
+     * Rough number of characters per token used for size estimates
+     */
+    public static readonly CHARS_PER_TOKEN = 4;
+
+    /**
+     * Estimates the number of tokens of a text
+     * @param characterCount Number of characters (or bytes) of the text
+     */
+    public static estimateTokens(characterCount: number): number {
+        return Math.ceil(characterCount / AttachmentBudget.CHARS_PER_TOKEN);
+    }
+
+    /**
+     * Parses a budget value such as `8000`, `8k`, `1.5k` or `1m`
+     * `0`, `none` and `off` disable the budget
+     * @param value The budget value
+     * @returns The budget in tokens (0 = unlimited), or undefined if the value is invalid
+     */
+    public static parseBudget(value: string): number | undefined {
+        const normalized = value.trim().toLowerCase();
+
+        if (normalized === 'none' || normalized === 'off') {
+            return 0;
+        }
+
+        const match = /^(\d+(?:\.\d+)?)([km])?$/.exec(normalized);
+        if (!match) {
+            return undefined;
+        }
+
+        const multiplier = match[2] === 'k' ? 1000 : match[2] === 'm' ? 1000000 : 1;
+        return Math.round(parseFloat(match[1]) * multiplier);
+    }
+
+    /**
+     * Formats a token count for display, e.g. `8k` or `1.5k`
+     */
+    public static formatTokens(tokens: number): string {
+        if (tokens < 1000) {
+            return String(tokens);
+        }
+
+        return `${parseFloat((tokens / 1000).toFixed(1))}k`;
+    }
+
+    /**
+     * Selects the candidates that fit into the budget
+     * Candidates are taken greedily in the given order, so a large file that does not fit
+     * does not keep smaller, lower-ranked files out. Linked files are dropped with the file that links to them.
+     * @param candidates The candidates in ranked order
+     * @param budget The budget in tokens (0 or less = unlimited)
+     */
+    public static select(candidates: AttachmentCandidate[], budget: number): AttachmentSelection {
+        const filePaths: string[] = [];
+        const droppedFiles: DroppedAttachment[] = [];
+        const dropped = new Set<string>();
+        let estimatedTokens = 0;
+
+        for (const candidate of candidates) {
+            if (candidate.linkedFrom && dropped.has(candidate.linkedFrom)) {
+                dropped.add(candidate.filePath);
+                droppedFiles.push({
+                    filePath: candidate.filePath,
+                    estimatedTokens: candidate.estimatedTokens,
+                    reason: `linked from ${path.basename(candidate.linkedFrom)}, which was dropped`
+                });
+                continue;
+            }
+
+            const remaining = budget - estimatedTokens;
+            if (budget > 0 && candidate.estimatedTokens > remaining) {
+                dropped.add(candidate.filePath);
+                droppedFiles.push({
+                    filePath: candidate.filePath,
+                    estimatedTokens: candidate.estimatedTokens,
+                    reason: `needs ~${AttachmentBudget.formatTokens(candidate.estimatedTokens)} tokens, ` +
+                        `only ~${AttachmentBudget.formatTokens(Math.max(0, remaining))} left of the ${AttachmentBudget.formatTokens(budget)} budget`
+                });
+                continue;
+            }
+
+            filePaths.push(candidate.filePath);
+            estimatedTokens += candidate.estimatedTokens;
+        }
+
+        return { filePaths, droppedFiles, estimatedTokens };
+    }
+}
@@ -1,3 +1,7 @@
+import { TagQueryParser } from '../core/TagQuery';
+import { AttachmentBudget } from './AttachmentBudget';
+import { ChatMode, MemoryConfiguration } from '../core/MemoryConfiguration';
+
 /**
  * Parses and extracts tag patterns from chat commands
  */
@@ -5,15 +9,26 @@ export class CommandRouter {
     /**
      * Extracts the tag patterns and remaining prompt from a memory-tag command
      * Parse ONLY the first line for tag extraction, everything else is the user prompt
+     * The first line may start with a workspace folder scope, e.g. `api:backend.*`,
+     * and may contain a token budget option, e.g. `backend.* budget=8k`, and a chat mode option, e.g. `mode=answer`
      * @param prompt The full prompt text
-     * @returns Object containing tag patterns array and the remaining prompt
+     * @param scopes Names of the workspace folders that can be used as a query scope
+     * @returns Object containing tag patterns array, the raw tag query expression, the optional scope,
+     *          the optional budget (or the invalid budget value), the optional mode (or the invalid mode value)
+     *          and the remaining prompt
      */
-    public static parseMemoryTagCommand(prompt: string): { tags: string[], remainingPrompt: string } {
+    public static parseMemoryTagCommand(
+        prompt: string,
+        scopes: string[] = []
+    ): {
+        tags: string[], expression: string, remainingPrompt: string, scope?: string,
+        budget?: number, invalidBudget?: string, mode?: ChatMode, invalidMode?: string
+    } {
         // Trim leading/trailing whitespace
         const trimmedPrompt = prompt.trim();
 
         if (!trimmedPrompt) {
-            return { tags: [], remainingPrompt: '' };
+            return { tags: [], expression: '', remainingPrompt: '' };
         }
 
         // Split into lines
@@ -22,8 +37,10 @@ export class CommandRouter {
         // Parse ONLY the first line for tags
         const firstLine = lines[0].trim();
 
-        // Remove #memory-tag prefix if present
-        const tagLine = firstLine.replace(/^#memory-tag\s*/i, '').trim();
+        // Remove #memory-tag prefix if present, then the budget and mode options
+        const { budget, invalidBudget, line: lineWithoutBudget } = this.extractBudget(firstLine.replace(/^#memory-tag\s*/i, '').trim());
+        const { mode, invalidMode, line } = this.extractMode(lineWithoutBudget);
+        const { scope, tagLine } = this.extractScope(line, scopes);
 
         // Parse tags from the first line
         const tags = this.parseTags(tagLine);
@@ -31,11 +48,87 @@ export class CommandRouter {
         // Everything except the first line is the actual user prompt
         const remainingPrompt = lines.slice(1).join('\n').trim();
 
-        return { tags, remainingPrompt };
+        return { tags, expression: tagLine, remainingPrompt, scope, budget, invalidBudget, mode, invalidMode };
     }
 
     /**
-     * Parses a comma or colon-separated list of tags
+     * Extracts a `budget=<tokens>` option (e.g. `budget=8k`) from the tag line
+     * @param line The tag line without the command prefix
+     */
+    private static extractBudget(line: string): { budget?: number, invalidBudget?: string, line: string } {
+        const option = this.extractOption(line, 'budget');
+        if (!option) {
+            return { line };
+        }
+
+        const budget = AttachmentBudget.parseBudget(option.value);
+
+        return budget === undefined
+            ? { invalidBudget: option.value, line: option.line }
+            : { budget, line: option.line };
+    }
+
+    /**
+     * Extracts a `mode=<attach|answer>` option from the tag line
+     * @param line The tag line without the command prefix
+     */
+    private static extractMode(line: string): { mode?: ChatMode, invalidMode?: string, line: string } {
+        const option = this.extractOption(line, 'mode');
+        if (!option) {
+            return { line };
+        }
+
+        const mode = MemoryConfiguration.CHAT_MODES.find(candidate => candidate === option.value.toLowerCase());
+
+        return mode === undefined
+            ? { invalidMode: option.value, line: option.line }
+            : { mode, line: option.line };
+    }
+
+    /**
+     * Extracts a `<name>=<value>` option from the tag line
+     * @returns The option value and the line without the option, or undefined if the option is not present
+     */
+    private static extractOption(line: string, name: string): { value: string, line: string } | undefined {
+        const match = new RegExp(`(^|\\s)${name}\\s*=\\s*(\\S*)(?=\\s|$)`, 'i').exec(line);
+        if (!match) {
+            return undefined;
+        }
+
+        const remaining = (line.substring(0, match.index) + match[1] + line.substring(match.index + match[0].length))
+            .replace(/\s+/g, ' ')
+            .trim();
+
+        return { value: match[2], line: remaining };
+    }
+
+    /**
+     * Extracts a leading `<workspace folder>:` scope from the tag line
+     * The prefix is only treated as a scope when it names a known workspace folder,
+     * otherwise the colon keeps its meaning of tag separator
+     * @param tagLine The tag line without the command prefix
+     * @param scopes Names of the known workspace folders
+     */
+    private static extractScope(tagLine: string, scopes: string[]): { scope?: string, tagLine: string } {
+        const separatorIndex = tagLine.indexOf(':');
+        if (separatorIndex <= 0 || scopes.length === 0) {
+            return { tagLine };
+        }
+
+        const candidate = tagLine.substring(0, separatorIndex).trim().toLowerCase();
+        const scope = scopes.find(name => name.toLowerCase() === candidate);
+
+        if (!scope) {
+            return { tagLine };
+        }
+
+        return { scope, tagLine: tagLine.substring(separatorIndex + 1).trim() };
+    }
+
+    /**
+     * Extracts the tag patterns referenced by a tag query expression
+     * Malformed expressions fall back to a comma or colon-separated list of tags,
+     * the syntax error itself is reported when the expression is evaluated
      * @param tagsString The string containing tags
      * @returns Array of tag patterns
      */
@@ -44,6 +137,12 @@ export class CommandRouter {
             return [];
         }
 
+        try {
+            return TagQueryParser.collectPatterns(TagQueryParser.parse(tagsString));
+        } catch {
+            // Fall through to the legacy separator-based split
+        }
+
         // Split by comma or colon, then trim and filter empty strings
         return tagsString
             .split(/[,:]+/)
@@ -5,19 +5,79 @@ import { MemoryFileParser } from '../core/MemoryFileParser';
 import { MarkdownLinkParser } from '../core/MarkdownLinkParser';
 import { LinkResolutionService } from '../core/LinkResolutionService';
 import { Logger } from '../core/Logger';
+import { TagQueryNode, TagQueryEvaluator, TagQueryParser } from '../core/TagQuery';
+import { TagPattern } from '../core/TagPattern';
+import { MemoryConfiguration } from '../core/MemoryConfiguration';
+import { MemoryPriority } from '../core/MemoryPriority';
+import { AttachmentBudget, AttachmentCandidate, DroppedAttachment } from './AttachmentBudget';
 import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * A file pulled in by following Markdown links from a matched memory
+ */
+export interface LinkedFile {
+    /** Absolute path of the linked file */
+    filePath: string;
+    /** Number of links followed from the memory file (1 = linked directly) */
+    depth: number;
+    /** File paths from the memory file to the linked file, both included */
+    chain: string[];
+}
+
+/**
+ * Files to attach for a query, with the linked files and the files dropped to stay within the budget
+ */
+export interface AttachmentSummary {
+    count: number;
+    filePaths: string[];
+    linkedFiles: LinkedFile[];
+    droppedFiles: DroppedAttachment[];
+    /** Estimated tokens of the attached files (only computed when a budget applies) */
+    estimatedTokens?: number;
+}
+
+/**
+ * A linked file together with the link that pulled it in and its content
+ */
+interface ResolvedLinkedFile extends LinkedFile {
+    /** The link path as written in the file that links to it */
+    linkPath: string;
+    /** The raw content of the linked file */
+    content: string;
+}
 
 /**
  * Retrieves and injects memory content into Copilot Chat context
  */
 export class ContentInjectionEngine {
     private linkResolver: LinkResolutionService;
+    private queryEvaluator: TagQueryEvaluator;
+    private maxLinkDepth = MemoryConfiguration.DEFAULT_MAX_LINK_DEPTH;
 
     constructor(
         private memoryIndex: MemoryIndex,
         private tagSystem: TagSystem
     ) {
         this.linkResolver = new LinkResolutionService();
+        this.queryEvaluator = new TagQueryEvaluator(tagSystem);
+    }
+
+    /**
+     * Sets how many levels of Markdown links are followed from a memory file
+     * @param maxLinkDepth Maximum link depth (0 disables following links)
+     */
+    public setMaxLinkDepth(maxLinkDepth: number): void {
+        this.maxLinkDepth = Math.max(0, Math.floor(maxLinkDepth));
+    }
+
+    /**
+     * Formats the files that led to a linked file, e.g. "main.md → index.md"
+     * @param chain The link chain of a linked file (see LinkedFile.chain)
+     * @returns The file names of the chain without the linked file itself
+     */
+    public static formatLinkChain(chain: string[]): string {
+        return chain.slice(0, -1).map(filePath => path.basename(filePath)).join(' → ');
     }
 
     /**
@@ -27,10 +87,8 @@ export class ContentInjectionEngine {
      * @returns Array of attached file paths for logging/debugging
      */
     public async attachFilesByTag(tagPattern: string): Promise<string[]> {
-        // Query files using the tag system (supports wildcards like backend.* or *.postgres)
-        const filePaths = tagPattern.includes('*')
-            ? this.tagSystem.queryByWildcard(tagPattern)
-            : this.tagSystem.queryByTag(tagPattern);
+        // Query files using the tag system (supports patterns like backend.*, *.postgres or backend.{auth,database})
+        const filePaths = this.sortByPriority(this.tagSystem.query(tagPattern));
 
         if (filePaths.length === 0) {
             return [];
@@ -63,9 +121,7 @@ export class ContentInjectionEngine {
         const allFilePaths = new Set<string>();
 
         for (const tagPattern of tagPatterns) {
-            const filePaths = tagPattern.includes('*')
-                ? this.tagSystem.queryByWildcard(tagPattern)
-                : this.tagSystem.queryByTag(tagPattern);
+            const filePaths = this.tagSystem.query(tagPattern);
 
             for (const filePath of filePaths) {
                 allFilePaths.add(filePath);
@@ -77,7 +133,7 @@ export class ContentInjectionEngine {
         }
 
         // Get all referenced files from the memory files
-        const allFilePathsWithReferences = await this.getAllFilesWithReferences(Array.from(allFilePaths));
+        const allFilePathsWithReferences = await this.getAllFilesWithReferences(this.sortByPriority(Array.from(allFilePaths)));
 
         // Convert file paths to URIs
         const fileUris: vscode.Uri[] = allFilePathsWithReferences.map(filePath => vscode.Uri.file(filePath));
@@ -94,9 +150,7 @@ export class ContentInjectionEngine {
      * @returns Summary information about matched memories
      */
     public getMatchSummary(tagPattern: string): { count: number; filePaths: string[] } {
-        const filePaths = tagPattern.includes('*')
-            ? this.tagSystem.queryByWildcard(tagPattern)
-            : this.tagSystem.queryByTag(tagPattern);
+        const filePaths = this.sortByPriority(this.tagSystem.query(tagPattern));
 
         return {
             count: filePaths.length,
@@ -113,9 +167,7 @@ export class ContentInjectionEngine {
         const allFilePaths = new Set<string>();
 
         for (const tagPattern of tagPatterns) {
-            const filePaths = tagPattern.includes('*')
-                ? this.tagSystem.queryByWildcard(tagPattern)
-                : this.tagSystem.queryByTag(tagPattern);
+            const filePaths = this.tagSystem.query(tagPattern);
 
             for (const filePath of filePaths) {
                 allFilePaths.add(filePath);
@@ -124,7 +176,7 @@ export class ContentInjectionEngine {
 
         return {
             count: allFilePaths.size,
-            filePaths: Array.from(allFilePaths),
+            filePaths: this.sortByPriority(Array.from(allFilePaths)),
             tagPatterns
         };
     }
@@ -132,15 +184,17 @@ export class ContentInjectionEngine {
     /**
      * Gets a summary of matched memories including referenced files for multiple tag patterns
      * @param tagPatterns Array of tag patterns to search for
+     * @param tokenBudget Optional token budget; files that don't fit are dropped (0 = unlimited)
      * @returns Summary information about matched memories including all referenced files
      */
-    public async getMatchSummaryForTagsWithReferences(tagPatterns: string[]): Promise<{ count: number; filePaths: string[]; tagPatterns: string[] }> {
+    public async getMatchSummaryForTagsWithReferences(
+        tagPatterns: string[],
+        tokenBudget: number = 0
+    ): Promise<AttachmentSummary & { tagPatterns: string[] }> {
         const allFilePaths = new Set<string>();
 
         for (const tagPattern of tagPatterns) {
-            const filePaths = tagPattern.includes('*')
-                ? this.tagSystem.queryByWildcard(tagPattern)
-                : this.tagSystem.queryByTag(tagPattern);
+            const filePaths = this.tagSystem.query(tagPattern);
 
             for (const filePath of filePaths) {
                 allFilePaths.add(filePath);
@@ -151,20 +205,183 @@ export class ContentInjectionEngine {
             return {
                 count: 0,
                 filePaths: [],
-                tagPatterns
+                tagPatterns,
+                linkedFiles: [],
+                droppedFiles: []
             };
         }
 
-        // Get all referenced files from the memory files
-        const allFilePathsWithReferences = await this.getAllFilesWithReferences(Array.from(allFilePaths));
+        // Get all referenced files from the memory files, keeping within the budget
+        const summary = await this.collectAttachments(Array.from(allFilePaths), tagPatterns, tokenBudget);
+
+        return { ...summary, tagPatterns };
+    }
+
+    /**
+     * Gets a summary of matched memories for a boolean tag query
+     * @param query The parsed tag query (see TagQueryParser)
+     * @param workspaceFolder Optional workspace folder name restricting the matches
+     * @returns Summary information about matched memories
+     */
+    public getMatchSummaryForQuery(query: TagQueryNode, workspaceFolder?: string): { count: number; filePaths: string[] } {
+        const filePaths = this.sortByPriority(this.filterByWorkspaceFolder(this.queryEvaluator.evaluate(query), workspaceFolder));
 
         return {
-            count: allFilePathsWithReferences.length,
-            filePaths: allFilePathsWithReferences,
-            tagPatterns
+            count: filePaths.length,
+            filePaths
         };
     }
 
+    /**
+     * Gets a summary of matched memories including referenced files for a boolean tag query
+     * @param query The parsed tag query (see TagQueryParser)
+     * @param workspaceFolder Optional workspace folder name restricting the matched memories
+     * @param tokenBudget Optional token budget; files that don't fit are dropped (0 = unlimited)
+     * @returns Summary information about matched memories including all referenced files
+     *          and the link chain that pulled in each referenced file
+     */
+    public async getMatchSummaryForQueryWithReferences(
+        query: TagQueryNode,
+        workspaceFolder?: string,
+        tokenBudget: number = 0
+    ): Promise<AttachmentSummary> {
+        const filePaths = this.filterByWorkspaceFolder(this.queryEvaluator.evaluate(query), workspaceFolder);
+
+        if (filePaths.length === 0) {
+            return {
+                count: 0,
+                filePaths: [],
+                linkedFiles: [],
+                droppedFiles: []
+            };
+        }
+
+        // Get all referenced files from the memory files, keeping within the budget
+        return this.collectAttachments(filePaths, TagQueryParser.collectPatterns(query), tokenBudget);
+    }
+
+    /**
+     * Collects the matched memories and their linked files
+     * With a budget, memories are ranked (priority, exact before wildcard match, most recent first)
+     * and only the files that fit are kept; linked files come after all memories
+     * @param memoryFilePaths The matched memory file paths
+     * @param tagPatterns The tag patterns of the query, used to tell exact from wildcard matches
+     * @param tokenBudget The token budget (0 = unlimited)
+     */
+    private async collectAttachments(
+        memoryFilePaths: string[],
+        tagPatterns: string[],
+        tokenBudget: number
+    ): Promise<AttachmentSummary> {
+        if (tokenBudget <= 0) {
+            const sortedFilePaths = this.sortByPriority(memoryFilePaths);
+            const linkedFiles = await this.getLinkedFiles(sortedFilePaths);
+            const filePaths = [...sortedFilePaths, ...linkedFiles.map(linkedFile => linkedFile.filePath)];
+
+            return { count: filePaths.length, filePaths, linkedFiles, droppedFiles: [] };
+        }
+
+        const rankedFilePaths = this.rankMemories(memoryFilePaths, tagPatterns);
+        const resolvedLinkedFiles = await this.followLinks(rankedFilePaths.map(filePath => ({ filePath, content: null })));
+
+        const candidates: AttachmentCandidate[] = [];
+        for (const filePath of rankedFilePaths) {
+            candidates.push({ filePath, estimatedTokens: AttachmentBudget.estimateTokens(await this.getFileSize(filePath)) });
+        }
+        for (const linkedFile of resolvedLinkedFiles) {
+            candidates.push({
+                filePath: linkedFile.filePath,
+                estimatedTokens: AttachmentBudget.estimateTokens(linkedFile.content.length),
+                linkedFrom: linkedFile.chain[linkedFile.chain.length - 2]
+            });
+        }
+
+        const selection = AttachmentBudget.select(candidates, tokenBudget);
+        const selected = new Set(selection.filePaths);
+
+        return {
+            count: selection.filePaths.length,
+            filePaths: selection.filePaths,
+            linkedFiles: resolvedLinkedFiles
+                .filter(linkedFile => selected.has(linkedFile.filePath))
+                .map(({ filePath, depth, chain }) => ({ filePath, depth, chain })),
+            droppedFiles: selection.droppedFiles,
+            estimatedTokens: selection.estimatedTokens
+        };
+    }
+
+    /**
+     * Orders memories by priority, then exact tag matches before wildcard-only matches, then most recent first
+     * Memories that compare equal keep their original order
+     */
+    private rankMemories(filePaths: string[], tagPatterns: string[]): string[] {
+        const exactMatches = new Set(
+            tagPatterns
+                .filter(pattern => !TagPattern.isPattern(pattern))
+                .flatMap(pattern => this.tagSystem.queryByTag(pattern))
+        );
+
+        return filePaths
+            .map((filePath, index) => {
+                const entry = this.memoryIndex.get(filePath);
+                return {
+                    filePath,
+                    index,
+                    priority: MemoryPriority.of(entry?.frontmatter),
+                    exact: exactMatches.has(filePath) ? 1 : 0,
+                    modified: entry?.fileInfo?.mtime ?? entry?.lastModified.getTime() ?? 0
+                };
+            })
+            .sort((a, b) =>
+                b.priority - a.priority ||
+                b.exact - a.exact ||
+                b.modified - a.modified ||
+                a.index - b.index
+            )
+            .map(ranked => ranked.filePath);
+    }
+
+    /**
+     * Gets the size of a memory file in characters, from the index when possible
+     * @returns The size, or 0 if it can't be determined
+     */
+    private async getFileSize(filePath: string): Promise<number> {
+        const entry = this.memoryIndex.get(filePath);
+        if (entry) {
+            return entry.fileInfo?.size ?? entry.content.length;
+        }
+
+        try {
+            return (await fs.promises.stat(filePath)).size;
+        } catch {
+            return 0;
+        }
+    }
+
+    /**
+     * Orders memory files by their priority frontmatter, highest first (see MemoryPriority)
+     */
+    private sortByPriority(filePaths: string[]): string[] {
+        return MemoryPriority.sort(filePaths, filePath => this.memoryIndex.get(filePath)?.frontmatter);
+    }
+
+    /**
+     * Keeps only the memory files indexed from the given workspace folder
+     * Global memories are shared by every workspace folder and are always kept
+     * @param filePaths The matched memory file paths
+     * @param workspaceFolder Workspace folder name, or undefined to keep every file
+     */
+    private filterByWorkspaceFolder(filePaths: string[], workspaceFolder?: string): string[] {
+        if (!workspaceFolder) {
+            return filePaths;
+        }
+
+        return filePaths.filter(filePath => {
+            const entry = this.memoryIndex.get(filePath);
+            return entry?.isGlobal || entry?.workspaceFolder === workspaceFolder;
+        });
+    }
+
     /**
      * Reads memory files and extracts their content without YAML headers
      * Also resolves and processes Markdown links in the content
@@ -197,67 +414,137 @@ export class ContentInjectionEngine {
     }
 
     /**
-     * Extracts all referenced file paths from a memory file
+     * Extracts all referenced files from the content of a file
      * Only includes files that are referenced directly (not recursively)
-     * @param memoryFilePath The path to the memory file
-     * @returns Array of absolute file paths that are referenced from this memory file
+     * @param filePath The path of the file containing the links
+     * @param content The content to search for links
+     * @returns Array of resolved links with the absolute path and content of each referenced file
      */
-    private async getReferencedFiles(memoryFilePath: string): Promise<string[]> {
-        try {
-            const fileContent = await fs.promises.readFile(memoryFilePath, 'utf-8');
-            const parsed = MemoryFileParser.parse(fileContent);
+    private async getReferencedFiles(
+        filePath: string,
+        content: string
+    ): Promise<Array<{ linkPath: string; resolvedPath: string; content: string }>> {
+        // Parse all markdown links from the content
+        const links = MarkdownLinkParser.parse(content);
+
+        if (links.length === 0) {
+            return [];
+        }
+
+        // Resolve all links to get their absolute paths
+        const resolvedLinks = await this.linkResolver.resolveLinks(filePath, links);
+
+        // Collect all successfully resolved files
+        const referencedFiles: Array<{ linkPath: string; resolvedPath: string; content: string }> = [];
+        for (const [linkPath, resolved] of resolvedLinks.entries()) {
+            if (resolved.resolvedPath && resolved.content !== null && !resolved.error) {
+                // Verify the file exists before adding it
+                try {
+                    await fs.promises.access(resolved.resolvedPath, fs.constants.R_OK);
+                    referencedFiles.push({ linkPath, resolvedPath: resolved.resolvedPath, content: resolved.content });
+                } catch {
+                    // Skip files that don't exist or can't be read
+                    Logger.getInstance().warn(`Referenced file not accessible: ${resolved.resolvedPath}`);
+                }
+            }
+        }
 
-            // Parse all markdown links from the content
-            const links = MarkdownLinkParser.parse(parsed.content);
+        return referencedFiles;
+    }
+
+    /**
+     * Follows Markdown links breadth-first from the given files up to the configured link depth
+     * Every file is returned at most once, at the shortest depth it was found;
+     * links back to a file already visited (including cycles) are not followed again
+     * @param roots The starting files; a content of null means the memory file is read from disk
+     * @returns The linked files in the order they were found, excluding the starting files
+     */
+    private async followLinks(roots: Array<{ filePath: string; content: string | null }>): Promise<ResolvedLinkedFile[]> {
+        const visited = new Set(roots.map(root => root.filePath));
+        const linkedFiles: ResolvedLinkedFile[] = [];
+        const queue = roots.map(root => ({ ...root, chain: [root.filePath] }));
+
+        while (queue.length > 0) {
+            const current = queue.shift()!;
+
+            // The chain includes the starting file, so its length minus one is the depth
+            if (current.chain.length > this.maxLinkDepth) {
+                continue;
+            }
+
+            // Only Markdown files are searched for further links
+            if (current.chain.length > 1 && !/\.(md|markdown)$/i.test(current.filePath)) {
+                continue;
+            }
 
-            if (links.length === 0) {
-                return [];
+            const content = current.content ?? await this.readMemoryBody(current.filePath);
+            if (content === null) {
+                continue;
             }
 
-            // Resolve all links to get their absolute paths
-            const resolvedLinks = await this.linkResolver.resolveLinks(memoryFilePath, links);
-
-            // Collect all successfully resolved file paths
-            const referencedPaths: string[] = [];
-            for (const [, resolved] of resolvedLinks.entries()) {
-                if (resolved.resolvedPath && !resolved.error) {
-                    // Verify the file exists before adding it
-                    try {
-                        await fs.promises.access(resolved.resolvedPath, fs.constants.R_OK);
-                        referencedPaths.push(resolved.resolvedPath);
-                    } catch {
-                        // Skip files that don't exist or can't be read
-                        Logger.getInstance().warn(`Referenced file not accessible: ${resolved.resolvedPath}`);
+            for (const referenced of await this.getReferencedFiles(current.filePath, content)) {
+                if (visited.has(referenced.resolvedPath)) {
+                    if (current.chain.includes(referenced.resolvedPath)) {
+                        Logger.getInstance().debug(
+                            `Link cycle detected: ${[...current.chain, referenced.resolvedPath].join(' -> ')}`
+                        );
                     }
+                    continue;
                 }
+
+                visited.add(referenced.resolvedPath);
+
+                const chain = [...current.chain, referenced.resolvedPath];
+                linkedFiles.push({
+                    filePath: referenced.resolvedPath,
+                    depth: chain.length - 1,
+                    chain,
+                    linkPath: referenced.linkPath,
+                    content: referenced.content
+                });
+                queue.push({ filePath: referenced.resolvedPath, content: referenced.content, chain });
             }
+        }
+
+        return linkedFiles;
+    }
 
-            return referencedPaths;
+    /**
+     * Reads a memory file and returns its content without the YAML header
+     * @param memoryFilePath The path to the memory file
+     * @returns The content, or null if the file can't be read or parsed
+     */
+    private async readMemoryBody(memoryFilePath: string): Promise<string | null> {
+        try {
+            const fileContent = await fs.promises.readFile(memoryFilePath, 'utf-8');
+            return MemoryFileParser.parse(fileContent).content;
         } catch (error) {
             Logger.getInstance().error(`Failed to extract referenced files from ${memoryFilePath}`, error);
-            return [];
+            return null;
         }
     }
 
     /**
-     * Gets all file paths including the original memory files and their directly referenced files
+     * Gets the files referenced from the memory files, following links up to the configured depth
+     * @param memoryFilePaths Array of memory file paths
+     * @returns The unique referenced files (excluding the memory files) with the chain that pulled in each one
+     */
+    private async getLinkedFiles(memoryFilePaths: string[]): Promise<LinkedFile[]> {
+        const linkedFiles = await this.followLinks(memoryFilePaths.map(filePath => ({ filePath, content: null })));
+
+        return linkedFiles.map(({ filePath, depth, chain }) => ({ filePath, depth, chain }));
+    }
+
+    /**
+     * Gets all file paths including the original memory files and their referenced files
      * @param memoryFilePaths Array of memory file paths
      * @returns Array of all unique file paths (memory files + their references)
      */
     private async getAllFilesWithReferences(memoryFilePaths: string[]): Promise<string[]> {
-        const allFiles = new Set<string>();
+        const allFiles = new Set<string>(memoryFilePaths);
 
-        // Add all original memory files
-        for (const filePath of memoryFilePaths) {
-            allFiles.add(filePath);
-        }
-
-        // For each memory file, get its referenced files
-        for (const memoryFilePath of memoryFilePaths) {
-            const referencedFiles = await this.getReferencedFiles(memoryFilePath);
-            for (const referencedFile of referencedFiles) {
-                allFiles.add(referencedFile);
-            }
+        for (const linkedFile of await this.getLinkedFiles(memoryFilePaths)) {
+            allFiles.add(linkedFile.filePath);
         }
 
         return Array.from(allFiles);
@@ -265,6 +552,7 @@ export class ContentInjectionEngine {
 
     /**
      * Processes Markdown links in content: replaces links with text and appends linked content
+     * Content of files linked indirectly (up to the configured depth) is appended as well
      * @param baseFilePath The path of the file containing the links
      * @param content The content to process
      * @returns Processed content with links replaced and linked content appended
@@ -277,8 +565,8 @@ export class ContentInjectionEngine {
             return content;
         }
 
-        // Resolve all links
-        const resolvedLinks = await this.linkResolver.resolveLinks(baseFilePath, links);
+        // Resolve all links, following nested links up to the configured depth
+        const linkedFiles = await this.followLinks([{ filePath: baseFilePath, content }]);
 
         // Replace links with their text (in reverse order to maintain indices)
         let processedContent = content;
@@ -293,9 +581,13 @@ export class ContentInjectionEngine {
         // Append content from resolved links
         const linkedContents: string[] = [];
 
-        for (const [linkPath, resolved] of resolvedLinks.entries()) {
-            if (resolved.content) {
-                linkedContents.push(`\n\n---\n\n**Linked Content from: ${linkPath}**\n\n${resolved.content}`);
+        for (const linkedFile of linkedFiles) {
+            if (linkedFile.content) {
+                // The chain starts with this memory file, so only show it for indirect links
+                const via = linkedFile.depth > 1
+                    ? ` (via ${ContentInjectionEngine.formatLinkChain(linkedFile.chain.slice(1))})`
+                    : '';
+                linkedContents.push(`\n\n---\n\n**Linked Content from: ${linkedFile.linkPath}**${via}\n\n${linkedFile.content}`);
             }
         }
 
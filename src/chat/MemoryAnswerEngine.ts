@@ -0,0 +1,80 @@
+import * as vscode from 'vscode';
+import { ContentInjectionEngine } from './ContentInjectionEngine';
+import { Logger } from '../core/Logger';
+
+/**
+ * Answers a question directly in the chat participant, using the Language Model API
+ * The matched memories are put into the prompt instead of being attached to a new chat turn
+ */
+export class MemoryAnswerEngine {
+    private static readonly INSTRUCTIONS = [
+        'You are a helpful coding assistant with access to the project\'s memory files.',
+        'The memory files contain project knowledge, conventions and decisions.',
+        'Answer the question using the memories below. Prefer them over general knowledge when they conflict,',
+        'and say so when the memories don\'t cover the question.'
+    ].join(' ');
+
+    constructor(private readonly contentInjector: ContentInjectionEngine) {}
+
+    /**
+     * Builds the prompt for a question
+     * @param memoryContent The assembled memory contents
+     * @param question The user's question
+     */
+    public static buildMessages(memoryContent: string, question: string): vscode.LanguageModelChatMessage[] {
+        return [
+            vscode.LanguageModelChatMessage.User(MemoryAnswerEngine.INSTRUCTIONS),
+            vscode.LanguageModelChatMessage.User(`Memories:\n\n${memoryContent}`),
+            vscode.LanguageModelChatMessage.User(question)
+        ];
+    }
+
+    /**
+     * Streams an answer to a question based on memory files
+     * @param model The language model selected for the chat request
+     * @param question The user's question
+     * @param memoryFilePaths The matched memory files; their Markdown links are resolved into the prompt
+     * @param referencedFilePaths All files the answer is based on (including linked files), cited as references
+     * @param stream The chat response stream
+     * @param token Cancels the request and stops streaming
+     */
+    public async answer(
+        model: vscode.LanguageModelChat,
+        question: string,
+        memoryFilePaths: string[],
+        referencedFilePaths: string[],
+        stream: vscode.ChatResponseStream,
+        token: vscode.CancellationToken
+    ): Promise<void> {
+        for (const filePath of referencedFilePaths) {
+            stream.reference(vscode.Uri.file(filePath));
+        }
+
+        const memoryContents = await this.contentInjector.getMemoryContents(memoryFilePaths);
+        if (token.isCancellationRequested) {
+            return;
+        }
+
+        const messages = MemoryAnswerEngine.buildMessages(this.contentInjector.assembleCleanContent(memoryContents), question);
+
+        try {
+            const response = await model.sendRequest(messages, {}, token);
+            for await (const fragment of response.text) {
+                if (token.isCancellationRequested) {
+                    break;
+                }
+                stream.markdown(fragment);
+            }
+        } catch (error) {
+            if (token.isCancellationRequested) {
+                return;
+            }
+            if (error instanceof vscode.LanguageModelError) {
+                Logger.getInstance().warn(`Language model request failed (${error.code}): ${error.message}`);
+                stream.markdown(`The language model request failed: ${error.message}`);
+                return;
+            }
+            throw error;
+        }
+    }
+}
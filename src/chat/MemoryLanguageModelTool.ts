@@ -0,0 +1,136 @@
+import * as vscode from 'vscode';
+import { ContentInjectionEngine } from './ContentInjectionEngine';
+import { AttachmentBudget } from './AttachmentBudget';
+import { MemoryIndex } from '../core/MemoryIndex';
+import { TagSystem } from '../core/TagSystem';
+import { MemoryConfiguration } from '../core/MemoryConfiguration';
+
+/**
+ * Input of the memory tool, described by the `inputSchema` in package.json
+ */
+export interface MemoryToolInput {
+    /** Tag patterns, e.g. `backend.database` or `backend.*` */
+    tags: string[];
+    /** Optional free text used to pick the most relevant of the matched memories */
+    query?: string;
+}
+
+/**
+ * Language Model Tool that lets agent mode fetch memories by tag without `@memory`
+ * The result contains the memory contents, preceded by the list of files used
+ */
+export class MemoryLanguageModelTool implements vscode.LanguageModelTool<MemoryToolInput> {
+    /** Tool name, must match `languageModelTools` in package.json */
+    public static readonly NAME = 'memoryManager_getMemories';
+
+    /** Maximum number of tags listed when nothing matched */
+    private static readonly MAX_SUGGESTED_TAGS = 50;
+
+    constructor(
+        private readonly contentInjector: ContentInjectionEngine,
+        private readonly memoryIndex: MemoryIndex,
+        private readonly tagSystem: TagSystem
+    ) {}
+
+    /**
+     * Registers the tool with the Language Model API
+     */
+    public register(context: vscode.ExtensionContext): void {
+        context.subscriptions.push(vscode.lm.registerTool(MemoryLanguageModelTool.NAME, this));
+    }
+
+    public prepareInvocation(
+        options: vscode.LanguageModelToolInvocationPrepareOptions<MemoryToolInput>
+    ): vscode.PreparedToolInvocation {
+        const tags = MemoryLanguageModelTool.getTagPatterns(options.input);
+        return { invocationMessage: `Reading memories tagged ${tags.join(', ') || '(no tags)'}` };
+    }
+
+    /**
+     * Finds the memories matching the tag patterns and returns their contents
+     * @throws If no tag pattern is given (the message is shown to the model)
+     */
+    public async invoke(
+        options: vscode.LanguageModelToolInvocationOptions<MemoryToolInput>,
+        token: vscode.CancellationToken
+    ): Promise<vscode.LanguageModelToolResult> {
+        const tags = MemoryLanguageModelTool.getTagPatterns(options.input);
+        if (tags.length === 0) {
+            throw new Error('Provide at least one tag pattern in "tags", e.g. ["backend.*"].');
+        }
+
+        const matched = this.contentInjector.getMatchSummaryForTags(tags).filePaths;
+        if (matched.length === 0) {
+            const availableTags = this.tagSystem.getAllTags().sort().slice(0, MemoryLanguageModelTool.MAX_SUGGESTED_TAGS);
+            return MemoryLanguageModelTool.textResult(
+                `No memory files found matching: ${tags.join(', ')}.` +
+                (availableTags.length > 0 ? `\nAvailable tags: ${availableTags.join(', ')}` : '\nThere are no memory files yet.')
+            );
+        }
+
+        const ranked = options.input.query ? this.rankByQuery(matched, options.input.query) : matched;
+        const selection = AttachmentBudget.select(
+            ranked.map(filePath => ({
+                filePath,
+                estimatedTokens: AttachmentBudget.estimateTokens(this.memoryIndex.get(filePath)?.content.length ?? 0)
+            })),
+            MemoryConfiguration.getTokenBudget()
+        );
+
+        const contents = await this.contentInjector.getMemoryContents(selection.filePaths);
+        if (token.isCancellationRequested) {
+            throw new vscode.CancellationError();
+        }
+
+        const lines = [
+            `Used ${contents.length} memory file(s) matching ${tags.join(', ')}:`,
+            ...contents.map(memory => `- ${memory.title} (${memory.filePath})`)
+        ];
+        if (selection.droppedFiles.length > 0) {
+            lines.push(`Left out ${selection.droppedFiles.length} file(s) to stay within the token budget:`);
+            lines.push(...selection.droppedFiles.map(droppedFile => `- ${droppedFile.filePath}`));
+        }
+        for (const memory of contents) {
+            lines.push('', `## ${memory.title}`, `Source: ${memory.filePath}`, '', memory.content);
+        }
+
+        return MemoryLanguageModelTool.textResult(lines.join('\n'));
+    }
+
+    /**
+     * Orders memories by the number of query words found in their title, tags and content
+     * Memories without any query word are dropped, unless none of the memories contains one
+     */
+    private rankByQuery(filePaths: string[], query: string): string[] {
+        const words = Array.from(new Set(query.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(word => word.length > 1)));
+        if (words.length === 0) {
+            return filePaths;
+        }
+
+        const scored = filePaths.map((filePath, index) => {
+            const entry = this.memoryIndex.get(filePath);
+            const text = entry ? `${entry.frontmatter.title}\n${entry.frontmatter.tags.join(' ')}\n${entry.content}`.toLowerCase() : '';
+            return { filePath, index, score: words.filter(word => text.includes(word)).length };
+        });
+
+        if (scored.every(item => item.score === 0)) {
+            return filePaths;
+        }
+
+        return scored
+            .filter(item => item.score > 0)
+            .sort((a, b) => b.score - a.score || a.index - b.index)
+            .map(item => item.filePath);
+    }
+
+    private static getTagPatterns(input: MemoryToolInput | undefined): string[] {
+        return (Array.isArray(input?.tags) ? input.tags : [])
+            .filter((tag): tag is string => typeof tag === 'string')
+            .map(tag => tag.trim())
+            .filter(tag => tag !== '');
+    }
+
+    private static textResult(text: string): vscode.LanguageModelToolResult {
+        return new vscode.LanguageModelToolResult([new vscode.LanguageModelTextPart(text)]);
+    }
+}
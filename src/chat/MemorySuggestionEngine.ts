@@ -0,0 +1,103 @@
+import { FullTextIndex } from '../core/FullTextIndex';
+import { MemoryIndex } from '../core/MemoryIndex';
+
+/**
+ * A memory proposed for a question
+ */
+export interface MemorySuggestion {
+    filePath: string;
+    title: string;
+    tags: string[];
+    /** How well the memory covers the question, from 0 to 1 */
+    confidence: number;
+    /** The words of the question found in the memory's tags, title or content */
+    matchedTerms: string[];
+}
+
+/**
+ * Proposes memories for a question by scoring their tags, titles and content against its words
+ *
+ * Each word of the question counts by how rare it is among the memories and by where it was found:
+ * in a tag (strongest), in the title or only in the content. The confidence is the share of the
+ * question's weight the memory covers.
+ */
+export class MemorySuggestionEngine {
+    public static readonly DEFAULT_MAX_RESULTS = 5;
+
+    /** Suggestions below this confidence are left out */
+    public static readonly MIN_CONFIDENCE = 0.2;
+
+    private static readonly FIELD_WEIGHTS = { tag: 1, title: 0.8, content: 0.5 };
+
+    constructor(
+        private readonly memoryIndex: MemoryIndex,
+        private readonly fullTextIndex: FullTextIndex
+    ) {}
+
+    /**
+     * Scores all memories (except overridden global memories) against a question
+     * @param prompt The user's question
+     * @param maxResults Maximum number of suggestions
+     * @returns The best suggestions, highest confidence first
+     */
+    public suggest(prompt: string, maxResults = MemorySuggestionEngine.DEFAULT_MAX_RESULTS): MemorySuggestion[] {
+        const termWords = FullTextIndex.getTermWords(prompt);
+        const terms = Array.from(termWords.keys());
+        const memoryCount = this.memoryIndex.size();
+        if (terms.length === 0 || memoryCount === 0) {
+            return [];
+        }
+
+        const termWeights = new Map(terms.map(term => [
+            term,
+            Math.log(1 + memoryCount / (1 + this.fullTextIndex.getOccurrences(term).size))
+        ]));
+        const totalWeight = Array.from(termWeights.values()).reduce((sum, weight) => sum + weight, 0);
+
+        const suggestions: MemorySuggestion[] = [];
+        for (const entry of this.memoryIndex.getAll()) {
+            // A global memory hidden by a workspace memory is never proposed next to it
+            if (entry.isOverridden) {
+                continue;
+            }
+
+            const tagTerms = new Set(FullTextIndex.tokenize(entry.frontmatter.tags.join(' ')));
+            const titleTerms = new Set(FullTextIndex.tokenize(entry.frontmatter.title ?? ''));
+
+            let score = 0;
+            const matchedTerms: string[] = [];
+            for (const [term, weight] of termWeights) {
+                const fieldWeight = tagTerms.has(term) ? MemorySuggestionEngine.FIELD_WEIGHTS.tag
+                    : titleTerms.has(term) ? MemorySuggestionEngine.FIELD_WEIGHTS.title
+                        : this.fullTextIndex.getOccurrences(term).has(entry.filePath) ? MemorySuggestionEngine.FIELD_WEIGHTS.content
+                            : 0;
+                if (fieldWeight > 0) {
+                    score += fieldWeight * weight;
+                    matchedTerms.push(termWords.get(term) ?? term);
+                }
+            }
+
+            const confidence = totalWeight > 0 ? score / totalWeight : 0;
+            if (confidence >= MemorySuggestionEngine.MIN_CONFIDENCE) {
+                suggestions.push({
+                    filePath: entry.filePath,
+                    title: entry.frontmatter.title,
+                    tags: entry.frontmatter.tags,
+                    confidence,
+                    matchedTerms
+                });
+            }
+        }
+
+        return suggestions
+            .sort((a, b) => b.confidence - a.confidence || a.filePath.localeCompare(b.filePath))
+            .slice(0, Math.max(0, maxResults));
+    }
+
+    /**
+     * Formats a confidence as a percentage, e.g. `82%`
+     */
+    public static formatConfidence(confidence: number): string {
+        return `${Math.round(confidence * 100)}%`;
+    }
+}
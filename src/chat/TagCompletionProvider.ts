@@ -1,6 +1,11 @@
 import * as vscode from 'vscode';
 import { TagSystem } from '../core/TagSystem';
 import { MemoryIndex } from '../core/MemoryIndex';
+import { TagNormalizer } from '../core/TagNormalizer';
+import { TagPattern } from '../core/TagPattern';
+import { TagQueryParser } from '../core/TagQuery';
+import { StringUtils } from '../core/StringUtils';
+import { TagVocabulary } from '../core/TagVocabulary';
 
 /**
  * Provides IntelliSense completion for memory tags in the chat input
@@ -8,10 +13,15 @@ import { MemoryIndex } from '../core/MemoryIndex';
 export class TagCompletionProvider implements vscode.CompletionItemProvider {
     private recentTags: string[] = [];
     private readonly maxRecentTags = 10;
+    private readonly maxPreviewTags = 20;
 
+    /**
+     * @param getVocabulary Gets the current tag vocabulary, whose descriptions are shown in the documentation
+     */
     constructor(
         private readonly tagSystem: TagSystem,
-        private readonly memoryIndex: MemoryIndex
+        private readonly memoryIndex: MemoryIndex,
+        private readonly getVocabulary: () => TagVocabulary = () => TagVocabulary.EMPTY
     ) {}
 
     /**
@@ -38,22 +48,37 @@ export class TagCompletionProvider implements vscode.CompletionItemProvider {
         // Get all available tags
         const allTags = this.tagSystem.getAllTags();
 
+        // Only the term being typed is completed, e.g. "backend." in "security & backend."
+        const currentPattern = TagQueryParser.getTrailingPattern(tagInput) ?? '';
+        const termRange = new vscode.Range(position.line, position.character - currentPattern.length, position.line, position.character);
+        const cursorRange = new vscode.Range(position.line, position.character, position.line, position.character);
+
         // Check if we're completing a hierarchical tag (ends with a dot)
-        const endsWithDot = tagInput.endsWith('.');
+        const endsWithDot = currentPattern.endsWith('.');
 
         if (endsWithDot) {
-            // Hierarchical navigation - show next level subtags
-            const prefix = tagInput; // e.g., "backend."
+            // Hierarchical navigation - show next level subtags, inserted after the dot
+            const prefix = currentPattern; // e.g., "backend."
             const hierarchicalItems = this.getHierarchicalCompletions(prefix, allTags);
-            completionItems.push(...hierarchicalItems);
 
             // Add wildcard preview
             const wildcardItem = this.createWildcardCompletionItem(prefix);
-            completionItems.push(wildcardItem);
+            for (const item of [...hierarchicalItems, wildcardItem]) {
+                item.range = cursorRange;
+                completionItems.push(item);
+            }
+        } else if (TagPattern.isPattern(currentPattern)) {
+            // Pattern preview - show what the pattern being typed matches, as the chat file list will
+            const previewItem = this.createPatternPreviewItem(currentPattern);
+            previewItem.range = termRange;
+            completionItems.push(previewItem);
         } else {
-            // Regular completion with fuzzy matching
-            const fuzzyItems = this.getFuzzyMatchedCompletions(tagInput, allTags);
-            completionItems.push(...fuzzyItems);
+            // Regular completion with fuzzy matching, replacing the term
+            const fuzzyItems = this.getFuzzyMatchedCompletions(currentPattern, allTags);
+            for (const item of fuzzyItems) {
+                item.range = termRange;
+                completionItems.push(item);
+            }
         }
 
         return completionItems;
@@ -65,22 +90,26 @@ export class TagCompletionProvider implements vscode.CompletionItemProvider {
     private getHierarchicalCompletions(prefix: string, allTags: string[]): vscode.CompletionItem[] {
         const completions: vscode.CompletionItem[] = [];
         const seenSubtags = new Set<string>();
+        // Indexed tags are normalized, so `Backend.` completes the subtags of `backend`
+        const parentTag = prefix.substring(0, prefix.length - 1);
+        const normalizedPrefix = `${TagNormalizer.normalize(parentTag) ?? parentTag}.`;
 
         for (const tag of allTags) {
-            if (tag.startsWith(prefix)) {
-                const remainingPart = tag.substring(prefix.length);
+            if (tag.startsWith(normalizedPrefix)) {
+                const remainingPart = tag.substring(normalizedPrefix.length);
                 const nextPart = remainingPart.split('.')[0];
 
                 if (nextPart && !seenSubtags.has(nextPart)) {
                     seenSubtags.add(nextPart);
-                    const fullTag = prefix + nextPart;
+                    const fullTag = normalizedPrefix + nextPart;
+                    const displayPart = this.tagSystem.getDisplayName(fullTag).split('.').pop() ?? nextPart;
                     const fileCount = this.getFileCountForTag(fullTag);
 
-                    const item = new vscode.CompletionItem(nextPart, vscode.CompletionItemKind.Value);
-                    item.insertText = nextPart;
-                    item.filterText = fullTag;
+                    const item = new vscode.CompletionItem(displayPart, vscode.CompletionItemKind.Value);
+                    item.insertText = displayPart;
+                    item.filterText = prefix + displayPart;
                     item.detail = `(${fileCount} ${fileCount === 1 ? 'memory' : 'memories'})`;
-                    item.documentation = new vscode.MarkdownString(`Tag: \`${fullTag}\``);
+                    item.documentation = this.getDocumentation(fullTag);
 
                     // Prioritize recent tags
                     item.sortText = this.getSortText(fullTag, nextPart);
@@ -102,11 +131,11 @@ export class TagCompletionProvider implements vscode.CompletionItemProvider {
             return allTags.map(tag => this.createCompletionItem(tag));
         }
 
-        // Fuzzy match tags
+        // Fuzzy match tags and their aliases
         const matchedTags = allTags
             .map(tag => ({
                 tag,
-                score: this.fuzzyMatch(input.toLowerCase(), tag.toLowerCase())
+                score: Math.max(...[tag, ...this.getAliasNames(tag)].map(name => StringUtils.fuzzyMatch(input.toLowerCase(), name.toLowerCase())))
             }))
             .filter(result => result.score > 0)
             .sort((a, b) => b.score - a.score)
@@ -115,41 +144,17 @@ export class TagCompletionProvider implements vscode.CompletionItemProvider {
         return matchedTags.map(tag => this.createCompletionItem(tag));
     }
 
-    /**
-     * Simple fuzzy matching algorithm
-     * Returns a score > 0 if the input matches the tag, 0 otherwise
-     */
-    private fuzzyMatch(input: string, target: string): number {
-        let inputIndex = 0;
-        let targetIndex = 0;
-        let score = 0;
-        let consecutiveMatches = 0;
-
-        while (inputIndex < input.length && targetIndex < target.length) {
-            if (input[inputIndex] === target[targetIndex]) {
-                score += 1 + consecutiveMatches;
-                consecutiveMatches++;
-                inputIndex++;
-            } else {
-                consecutiveMatches = 0;
-            }
-            targetIndex++;
-        }
-
-        // Return score only if all characters were matched
-        return inputIndex === input.length ? score : 0;
-    }
-
     /**
      * Creates a completion item for a tag
      */
     private createCompletionItem(tag: string): vscode.CompletionItem {
         const fileCount = this.getFileCountForTag(tag);
+        const displayName = this.tagSystem.getDisplayName(tag);
 
-        const item = new vscode.CompletionItem(tag, vscode.CompletionItemKind.Value);
-        item.insertText = tag;
+        const item = new vscode.CompletionItem(displayName, vscode.CompletionItemKind.Value);
+        item.insertText = displayName;
         item.detail = `(${fileCount} ${fileCount === 1 ? 'memory' : 'memories'})`;
-        item.documentation = new vscode.MarkdownString(`Tag: \`${tag}\``);
+        item.documentation = this.getDocumentation(tag);
 
         // Prioritize recent tags
         item.sortText = this.getSortText(tag, tag);
@@ -157,6 +162,28 @@ export class TagCompletionProvider implements vscode.CompletionItemProvider {
         return item;
     }
 
+    /**
+     * Creates the documentation of a tag item: its description from the tag vocabulary and its aliases
+     */
+    private getDocumentation(tag: string): vscode.MarkdownString {
+        const description = this.getVocabulary().getDescription(tag);
+        const aliases = this.getAliasNames(tag);
+        const sections = [
+            `Tag: \`${this.tagSystem.getDisplayName(tag)}\``,
+            ...(description ? [description] : []),
+            ...(aliases.length > 0 ? [`Aliases: ${aliases.map(alias => `\`${alias}\``).join(', ')}`] : [])
+        ];
+
+        return new vscode.MarkdownString(sections.join('\n\n'));
+    }
+
+    /**
+     * Gets the aliases declared for a tag (see TagAliases)
+     */
+    private getAliasNames(tag: string): string[] {
+        return this.tagSystem.getAliases().getAliases(tag).map(alias => alias.alias);
+    }
+
     /**
      * Creates a wildcard completion item
      */
@@ -176,6 +203,37 @@ export class TagCompletionProvider implements vscode.CompletionItemProvider {
         return item;
     }
 
+    /**
+     * Creates a completion item previewing the tags and memories matched by a pattern (see TagPattern)
+     */
+    private createPatternPreviewItem(pattern: string): vscode.CompletionItem {
+        const problem = TagPattern.getProblem(pattern);
+        const matchingTags = this.tagSystem.getMatchingTags(pattern).sort();
+        const fileCount = this.tagSystem.queryByWildcard(pattern).length;
+
+        const item = new vscode.CompletionItem(pattern, vscode.CompletionItemKind.Value);
+        item.insertText = pattern;
+
+        if (problem) {
+            item.detail = 'Invalid pattern';
+            item.documentation = new vscode.MarkdownString(problem);
+        } else {
+            const tagList = matchingTags.slice(0, this.maxPreviewTags).map(tag => `- \`${this.tagSystem.getDisplayName(tag)}\``);
+            if (matchingTags.length > this.maxPreviewTags) {
+                tagList.push(`- … and ${matchingTags.length - this.maxPreviewTags} more`);
+            }
+
+            item.detail = `Pattern - ${matchingTags.length} ${matchingTags.length === 1 ? 'tag' : 'tags'} (${fileCount} ${fileCount === 1 ? 'memory' : 'memories'})`;
+            item.documentation = new vscode.MarkdownString(tagList.length > 0
+                ? `Matches:\n\n${tagList.join('\n')}`
+                : 'No tags match this pattern');
+        }
+
+        item.sortText = '!'; // Put at the top
+
+        return item;
+    }
+
     /**
      * Gets the file count for a specific tag
      */
@@ -0,0 +1,146 @@
+import { MemoryIndex, MemoryIndexEntry } from './MemoryIndex';
+import { MemoryFileFrontmatter } from './MemoryFileParser';
+import { GlobPattern } from './GlobPattern';
+import { Disposable } from './Emitter';
+
+/**
+ * A file to find the applicable memories for
+ */
+export interface ContextFile {
+    /** Path relative to the file's workspace folder (or absolute outside a workspace) */
+    relativePath: string;
+    /** Name of the file's workspace folder */
+    workspaceFolder?: string;
+}
+
+/**
+ * A memory whose `appliesTo` globs match some of the context files
+ */
+export interface AppliesToMatch {
+    filePath: string;
+    /** The globs that matched */
+    patterns: string[];
+    /** The matched context files (relative paths) */
+    matchedFiles: string[];
+}
+
+interface AppliesToEntry {
+    patterns: string[];
+    workspaceFolder?: string;
+    isGlobal?: boolean;
+}
+
+/**
+ * Index of the `appliesTo` globs declared in memory frontmatter
+ *
+ * Globs are relative to the workspace folder; globs without a slash (e.g. `*.sql`) match the file name.
+ * Memories of a workspace folder only apply to files of that folder, global memories apply everywhere.
+ */
+export class AppliesToIndex {
+    private entries = new Map<string, AppliesToEntry>();
+
+    /**
+     * Indexes (or re-indexes) the globs of a memory
+     * Memories without globs are removed from the index
+     */
+    public add(filePath: string, frontmatter: MemoryFileFrontmatter, origin: Pick<MemoryIndexEntry, 'workspaceFolder' | 'isGlobal'> = {}): void {
+        const patterns = AppliesToIndex.getPatterns(frontmatter);
+        if (patterns.length === 0) {
+            this.entries.delete(filePath);
+            return;
+        }
+
+        this.entries.set(filePath, { patterns, workspaceFolder: origin.workspaceFolder, isGlobal: origin.isGlobal });
+    }
+
+    public remove(filePath: string): boolean {
+        return this.entries.delete(filePath);
+    }
+
+    public clear(): void {
+        this.entries.clear();
+    }
+
+    /**
+     * Gets the number of memories with globs
+     */
+    public size(): number {
+        return this.entries.size;
+    }
+
+    /**
+     * Keeps the index in sync with a memory index
+     * Indexes the current entries, then follows the add, update, remove and clear events.
+     * Overridden global memories are left out.
+     * @returns Stops following the memory index
+     */
+    public watch(memoryIndex: MemoryIndex): Disposable {
+        const addEntries = (entries: MemoryIndexEntry[]) => {
+            for (const entry of entries) {
+                if (entry.isOverridden) {
+                    this.remove(entry.filePath);
+                } else {
+                    this.add(entry.filePath, entry.frontmatter, entry);
+                }
+            }
+        };
+
+        addEntries(memoryIndex.getAll());
+
+        const subscriptions = [
+            memoryIndex.onDidAdd(addEntries),
+            memoryIndex.onDidUpdate(addEntries),
+            memoryIndex.onDidRemove(entries => entries.forEach(entry => this.remove(entry.filePath))),
+            memoryIndex.onDidClear(() => this.clear())
+        ];
+
+        return { dispose: () => subscriptions.forEach(subscription => subscription.dispose()) };
+    }
+
+    /**
+     * Finds the memories that apply to any of the given files
+     * @param files The context files, e.g. the active editor and the files referenced in a chat request
+     * @returns The matching memories, those matching the most files first
+     */
+    public findMatches(files: ContextFile[]): AppliesToMatch[] {
+        const matches: AppliesToMatch[] = [];
+
+        for (const [filePath, entry] of this.entries) {
+            const patterns = new Set<string>();
+            const matchedFiles = new Set<string>();
+
+            for (const file of files) {
+                if (!entry.isGlobal && entry.workspaceFolder && file.workspaceFolder && entry.workspaceFolder !== file.workspaceFolder) {
+                    continue;
+                }
+
+                for (const pattern of entry.patterns) {
+                    if (GlobPattern.matches(pattern, file.relativePath)) {
+                        patterns.add(pattern);
+                        matchedFiles.add(file.relativePath);
+                    }
+                }
+            }
+
+            if (matchedFiles.size > 0) {
+                matches.push({ filePath, patterns: Array.from(patterns), matchedFiles: Array.from(matchedFiles) });
+            }
+        }
+
+        return matches.sort((a, b) => b.matchedFiles.length - a.matchedFiles.length || a.filePath.localeCompare(b.filePath));
+    }
+
+    /**
+     * Reads the `appliesTo` globs of a memory (a single glob or a list)
+     * @returns The non-empty globs, invalid values are ignored (see MemoryFileParser.getWarnings)
+     */
+    public static getPatterns(frontmatter: MemoryFileFrontmatter): string[] {
+        const value: unknown = frontmatter.appliesTo;
+        const values = Array.isArray(value) ? value : [value];
+
+        return values
+            .filter((pattern): pattern is string => typeof pattern === 'string')
+            .map(pattern => pattern.trim())
+            .filter(pattern => pattern !== '');
+    }
+}
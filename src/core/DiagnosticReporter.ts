@@ -1,11 +1,24 @@
 import * as vscode from 'vscode';
 
+/**
+ * A problem reported for a single line of a memory file
+ */
+export interface MemoryFileProblem {
+    message: string;
+    /** Line number (0-based) */
+    line: number;
+    severity: 'error' | 'warning';
+}
+
 /**
  * Manages VS Code diagnostics for memory files
  * Reports YAML validation errors in the Problems Panel
  * Per Feature 8, Story 2: Show errors directly on files in the editor
  */
 export class DiagnosticReporter {
+    /** Source shown with every diagnostic, also used to recognize them in code actions */
+    public static readonly SOURCE = 'Memory Manager';
+
     private static instance: DiagnosticReporter;
     private diagnosticCollection: vscode.DiagnosticCollection;
 
@@ -30,30 +43,54 @@ export class DiagnosticReporter {
      * @param filePath Path to the file with the error
      * @param message Error message
      * @param line Line number where the error occurred (0-based), defaults to 0
+     * @param column Column where the error starts (0-based), defaults to 0; the range extends to the end of the line
      */
-    public reportValidationError(filePath: string, message: string, line: number = 0): void {
+    public reportValidationError(filePath: string, message: string, line: number = 0, column: number = 0): void {
         const uri = vscode.Uri.file(filePath);
 
         // Create a diagnostic for the error
         const diagnostic = new vscode.Diagnostic(
-            new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER),
+            new vscode.Range(line, column, line, Number.MAX_SAFE_INTEGER),
             message,
             vscode.DiagnosticSeverity.Error
         );
 
-        diagnostic.source = 'Memory Manager';
+        diagnostic.source = DiagnosticReporter.SOURCE;
 
         // Set the diagnostic for this file
         this.diagnosticCollection.set(uri, [diagnostic]);
     }
 
+    /**
+     * Reports problems of a memory file that is still indexed (schema violations, invalid optional fields)
+     * Replaces the file's previous diagnostics
+     *
+     * @param filePath Path to the file
+     * @param problems The problems with their line (0-based) and severity
+     */
+    public reportProblems(filePath: string, problems: MemoryFileProblem[]): void {
+        const uri = vscode.Uri.file(filePath);
+
+        const diagnostics = problems.map(problem => {
+            const diagnostic = new vscode.Diagnostic(
+                new vscode.Range(problem.line, 0, problem.line, Number.MAX_SAFE_INTEGER),
+                problem.message,
+                problem.severity === 'warning' ? vscode.DiagnosticSeverity.Warning : vscode.DiagnosticSeverity.Error
+            );
+            diagnostic.source = DiagnosticReporter.SOURCE;
+            return diagnostic;
+        });
+
+        this.diagnosticCollection.set(uri, diagnostics);
+    }
+
     /**
      * Reports a YAML frontmatter parsing error
      * Specifically for YAML parsing issues
      */
-    public reportYAMLError(filePath: string, error: Error, line: number = 0): void {
+    public reportYAMLError(filePath: string, error: Error, line: number = 0, column: number = 0): void {
         const message = `YAML Frontmatter Error: ${error.message}`;
-        this.reportValidationError(filePath, message, line);
+        this.reportValidationError(filePath, message, line, column);
     }
 
     /**
@@ -0,0 +1,52 @@
+/**
+ * Something that can be disposed, e.g. an event subscription
+ */
+export interface Disposable {
+    dispose(): void;
+}
+
+/**
+ * A typed event, compatible with `vscode.Event`
+ * Call it with a listener to subscribe; dispose the returned object to unsubscribe
+ */
+export type Event<T> = (listener: (event: T) => unknown, thisArgs?: unknown, disposables?: Disposable[]) => Disposable;
+
+/**
+ * Minimal event emitter for core classes that don't depend on the VS Code API
+ * A listener that throws does not keep the other listeners from being called
+ */
+export class Emitter<T> {
+    private listeners = new Set<(event: T) => unknown>();
+
+    /**
+     * The event listeners can subscribe to
+     */
+    public readonly event: Event<T> = (listener, thisArgs, disposables) => {
+        const bound = thisArgs ? listener.bind(thisArgs) : listener;
+        this.listeners.add(bound);
+
+        const subscription = { dispose: () => { this.listeners.delete(bound); } };
+        disposables?.push(subscription);
+        return subscription;
+    };
+
+    /**
+     * Notifies all listeners
+     */
+    public fire(event: T): void {
+        for (const listener of Array.from(this.listeners)) {
+            try {
+                listener(event);
+            } catch (error) {
+                console.error('Event listener failed:', error);
+            }
+        }
+    }
+
+    /**
+     * Removes all listeners
+     */
+    public dispose(): void {
+        this.listeners.clear();
+    }
+}
@@ -6,7 +6,7 @@ import { Logger } from './Logger';
  * File watcher system for monitoring changes in the Memory folder
  */
 export class FileWatcherSystem implements IFileWatcher {
-    private fileWatcher: vscode.FileSystemWatcher | undefined;
+    private fileWatchers: vscode.FileSystemWatcher[] = [];
     private createHandlers: Array<(uri: vscode.Uri) => void> = [];
     private changeHandlers: Array<(uri: vscode.Uri) => void> = [];
     private deleteHandlers: Array<(uri: vscode.Uri) => void> = [];
@@ -14,15 +14,27 @@ export class FileWatcherSystem implements IFileWatcher {
 
     /**
      * Starts watching the Memory folder for file changes
-     * @param memoryFolderPattern Glob pattern for memory files
+     * @param memoryFolderPattern Glob pattern (or relative pattern) for memory files,
+     * or one pattern per watched location (e.g., one per workspace folder)
      */
-    public startWatching(memoryFolderPattern: string): void {
+    public startWatching(memoryFolderPattern: vscode.GlobPattern | vscode.GlobPattern[]): void {
         // Stop any existing watcher
         this.stopWatching();
 
+        const patterns = Array.isArray(memoryFolderPattern) ? memoryFolderPattern : [memoryFolderPattern];
+
+        for (const pattern of patterns) {
+            this.watchPattern(pattern);
+        }
+    }
+
+    /**
+     * Creates a file system watcher for a single pattern
+     */
+    private watchPattern(pattern: vscode.GlobPattern): void {
         // Create a new file system watcher
-        this.fileWatcher = vscode.workspace.createFileSystemWatcher(
-            memoryFolderPattern,
+        const fileWatcher = vscode.workspace.createFileSystemWatcher(
+            pattern,
             false, // Watch for create events
             false, // Watch for change events
             false  // Watch for delete events
@@ -30,35 +42,36 @@ export class FileWatcherSystem implements IFileWatcher {
 
         // Register event handlers
         this.disposables.push(
-            this.fileWatcher.onDidCreate((uri) => {
+            fileWatcher.onDidCreate((uri) => {
                 this.notifyCreateHandlers(uri);
             })
         );
 
         this.disposables.push(
-            this.fileWatcher.onDidChange((uri) => {
+            fileWatcher.onDidChange((uri) => {
                 this.notifyChangeHandlers(uri);
             })
         );
 
         this.disposables.push(
-            this.fileWatcher.onDidDelete((uri) => {
+            fileWatcher.onDidDelete((uri) => {
                 this.notifyDeleteHandlers(uri);
             })
         );
 
         // Add the watcher itself to disposables
-        this.disposables.push(this.fileWatcher);
+        this.disposables.push(fileWatcher);
+        this.fileWatchers.push(fileWatcher);
     }
 
     /**
      * Stops watching and disposes of the file watcher
      */
     public stopWatching(): void {
-        // Dispose all event listeners and the watcher
+        // Dispose all event listeners and the watchers
         this.disposables.forEach(disposable => disposable.dispose());
         this.disposables = [];
-        this.fileWatcher = undefined;
+        this.fileWatchers = [];
     }
 
     /**
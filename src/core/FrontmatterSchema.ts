@@ -0,0 +1,255 @@
+import { FrontmatterIssue } from './MemoryFileParser';
+
+/**
+ * JSON Schema (subset) describing additional frontmatter rules
+ */
+export interface JsonSchema {
+    type?: string | string[];
+    enum?: unknown[];
+    const?: unknown;
+    required?: string[];
+    properties?: Record<string, JsonSchema>;
+    additionalProperties?: boolean | JsonSchema;
+    items?: JsonSchema;
+    minItems?: number;
+    maxItems?: number;
+    uniqueItems?: boolean;
+    minLength?: number;
+    maxLength?: number;
+    pattern?: string;
+    format?: string;
+    minimum?: number;
+    maximum?: number;
+    description?: string;
+}
+
+/**
+ * Error thrown when a schema file can't be used
+ */
+export class FrontmatterSchemaError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'FrontmatterSchemaError';
+    }
+}
+
+/**
+ * Validates memory frontmatter against a workspace-defined JSON Schema
+ *
+ * Supports the keywords useful for frontmatter: `type`, `enum`, `const`, `required`, `properties`,
+ * `additionalProperties`, `items`, `minItems`, `maxItems`, `uniqueItems`, `minLength`, `maxLength`,
+ * `pattern`, `minimum`, `maximum` and `format` (`date`, `date-time`, `email`, `uri`).
+ * Other keywords are ignored. Unquoted YAML dates are treated as strings.
+ */
+export class FrontmatterSchema {
+    private static readonly FORMATS: Record<string, RegExp> = {
+        'date': /^\d{4}-\d{2}-\d{2}$/,
+        'date-time': /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?([Zz]|[+-]\d{2}:?\d{2})?$/,
+        'email': /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+        'uri': /^[a-zA-Z][a-zA-Z0-9+.-]*:\S+$/
+    };
+
+    private constructor(private readonly schema: JsonSchema) {}
+
+    /**
+     * Parses the content of a schema file
+     * @param text The JSON text
+     * @throws {FrontmatterSchemaError} If the text is not a JSON object or contains an invalid pattern
+     */
+    public static parse(text: string): FrontmatterSchema {
+        let schema: unknown;
+
+        try {
+            schema = JSON.parse(text);
+        } catch (error) {
+            throw new FrontmatterSchemaError(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+            throw new FrontmatterSchemaError('The schema must be a JSON object');
+        }
+
+        FrontmatterSchema.checkPatterns(schema as JsonSchema, '');
+        return new FrontmatterSchema(schema as JsonSchema);
+    }
+
+    /**
+     * Validates a frontmatter object
+     * @param frontmatter The parsed frontmatter
+     * @returns All violations, empty if the frontmatter is valid
+     */
+    public validate(frontmatter: Record<string, unknown>): FrontmatterIssue[] {
+        const violations: FrontmatterIssue[] = [];
+        this.validateValue(frontmatter, this.schema, '', violations);
+        return violations;
+    }
+
+    private validateValue(value: unknown, schema: JsonSchema, path: string, violations: FrontmatterIssue[]): void {
+        const field = path ? `Field "${path}"` : 'Frontmatter';
+        const report = (message: string) => violations.push({ path, message: `${field} ${message}` });
+
+        if (schema.type !== undefined) {
+            const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+            if (!types.some(type => FrontmatterSchema.hasType(value, type))) {
+                report(`must be of type ${types.join(' or ')}`);
+                return;
+            }
+        }
+
+        if (schema.const !== undefined && !FrontmatterSchema.equals(value, schema.const)) {
+            report(`must be ${JSON.stringify(schema.const)}`);
+        }
+
+        if (schema.enum && !schema.enum.some(allowed => FrontmatterSchema.equals(value, allowed))) {
+            report(`must be one of ${schema.enum.map(allowed => JSON.stringify(allowed)).join(', ')}`);
+        }
+
+        const text = FrontmatterSchema.asString(value);
+        if (text !== undefined) {
+            if (schema.minLength !== undefined && text.length < schema.minLength) {
+                report(`must be at least ${schema.minLength} character(s) long`);
+            }
+            if (schema.maxLength !== undefined && text.length > schema.maxLength) {
+                report(`must be at most ${schema.maxLength} character(s) long`);
+            }
+            if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(text)) {
+                report(`must match the pattern ${schema.pattern}`);
+            }
+            if (schema.format && !FrontmatterSchema.hasFormat(value, text, schema.format)) {
+                report(`must be a valid ${schema.format}`);
+            }
+        }
+
+        if (typeof value === 'number') {
+            if (schema.minimum !== undefined && value < schema.minimum) {
+                report(`must be at least ${schema.minimum}`);
+            }
+            if (schema.maximum !== undefined && value > schema.maximum) {
+                report(`must be at most ${schema.maximum}`);
+            }
+        }
+
+        if (Array.isArray(value)) {
+            if (schema.minItems !== undefined && value.length < schema.minItems) {
+                report(`must contain at least ${schema.minItems} item(s)`);
+            }
+            if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+                report(`must contain at most ${schema.maxItems} item(s)`);
+            }
+            if (schema.uniqueItems && value.some((item, index) => value.findIndex(other => FrontmatterSchema.equals(item, other)) !== index)) {
+                report('must not contain duplicate items');
+            }
+            if (schema.items) {
+                value.forEach((item, index) => this.validateValue(item, schema.items!, `${path}[${index}]`, violations));
+            }
+        }
+
+        if (FrontmatterSchema.isObject(value)) {
+            const object = value as Record<string, unknown>;
+
+            for (const name of schema.required ?? []) {
+                if (object[name] === undefined || object[name] === null) {
+                    violations.push({ path: FrontmatterSchema.join(path, name), message: `Missing required field: ${FrontmatterSchema.join(path, name)}` });
+                }
+            }
+
+            for (const [name, propertyValue] of Object.entries(object)) {
+                const propertySchema = schema.properties?.[name];
+                const propertyPath = FrontmatterSchema.join(path, name);
+
+                if (propertySchema) {
+                    this.validateValue(propertyValue, propertySchema, propertyPath, violations);
+                } else if (schema.additionalProperties === false) {
+                    violations.push({ path: propertyPath, message: `Field "${propertyPath}" is not allowed by the schema` });
+                } else if (typeof schema.additionalProperties === 'object') {
+                    this.validateValue(propertyValue, schema.additionalProperties, propertyPath, violations);
+                }
+            }
+        }
+    }
+
+    /**
+     * Makes sure every `pattern` in the schema is a valid regular expression
+     */
+    private static checkPatterns(schema: JsonSchema, path: string): void {
+        if (typeof schema !== 'object' || schema === null) {
+            return;
+        }
+
+        if (schema.pattern !== undefined) {
+            try {
+                new RegExp(schema.pattern);
+            } catch {
+                throw new FrontmatterSchemaError(`Invalid pattern for "${path || 'frontmatter'}": ${schema.pattern}`);
+            }
+        }
+
+        for (const [name, propertySchema] of Object.entries(schema.properties ?? {})) {
+            FrontmatterSchema.checkPatterns(propertySchema, FrontmatterSchema.join(path, name));
+        }
+        if (schema.items) {
+            FrontmatterSchema.checkPatterns(schema.items, `${path}[]`);
+        }
+        if (typeof schema.additionalProperties === 'object') {
+            FrontmatterSchema.checkPatterns(schema.additionalProperties, path);
+        }
+    }
+
+    private static hasType(value: unknown, type: string): boolean {
+        switch (type) {
+            case 'string': return typeof value === 'string' || value instanceof Date;
+            case 'number': return typeof value === 'number' && Number.isFinite(value);
+            case 'integer': return typeof value === 'number' && Number.isInteger(value);
+            case 'boolean': return typeof value === 'boolean';
+            case 'array': return Array.isArray(value);
+            case 'object': return FrontmatterSchema.isObject(value);
+            case 'null': return value === null;
+            default: return true;
+        }
+    }
+
+    private static hasFormat(value: unknown, text: string, format: string): boolean {
+        if (value instanceof Date) {
+            return (format === 'date' || format === 'date-time') && !isNaN(value.getTime());
+        }
+
+        const regex = FrontmatterSchema.FORMATS[format];
+        if (!regex) {
+            // Unknown formats are not checked
+            return true;
+        }
+
+        if (!regex.test(text)) {
+            return false;
+        }
+
+        return format === 'date' || format === 'date-time' ? !isNaN(Date.parse(text)) : true;
+    }
+
+    /**
+     * Gets the string value of strings and YAML dates (undefined for other values)
+     */
+    private static asString(value: unknown): string | undefined {
+        if (typeof value === 'string') {
+            return value;
+        }
+
+        return value instanceof Date && !isNaN(value.getTime()) ? value.toISOString() : undefined;
+    }
+
+    private static isObject(value: unknown): boolean {
+        return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+    }
+
+    private static equals(a: unknown, b: unknown): boolean {
+        if (a instanceof Date) {
+            return a.toISOString().startsWith(String(b));
+        }
+
+        return JSON.stringify(a) === JSON.stringify(b);
+    }
+
+    private static join(path: string, name: string): string {
+        return path ? `${path}.${name}` : name;
+    }
+}
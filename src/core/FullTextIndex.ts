@@ -0,0 +1,298 @@
+import { MemoryIndex, MemoryIndexEntry } from './MemoryIndex';
+import { Disposable } from './Emitter';
+
+/**
+ * A memory matching a full-text search
+ */
+export interface FullTextMatch {
+    filePath: string;
+    /** Relevance score (TF-IDF), higher is better */
+    score: number;
+    /** The normalized search terms found in the memory */
+    terms: string[];
+}
+
+/**
+ * An excerpt of a memory around the first search match
+ */
+export interface FullTextSnippet {
+    text: string;
+    /** Start and end offsets (in `text`) of the words matching the search terms */
+    ranges: [number, number][];
+}
+
+/**
+ * Inverted full-text index over the title and content of the memories
+ *
+ * Words are case-folded, stripped of diacritics and reduced to a simple stem,
+ * so `Pooling`, `pooled` and `pools` all match `pool`. Common English words are not indexed.
+ * A memory matches a search when it contains every search term.
+ */
+export class FullTextIndex {
+    private static readonly STOP_WORDS = new Set([
+        'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'do', 'does', 'for', 'from', 'how', 'in', 'is', 'it',
+        'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what', 'when', 'where', 'which', 'who', 'why', 'with'
+    ]);
+
+    private static readonly WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+    /** term -> file path -> number of occurrences */
+    private postings = new Map<string, Map<string, number>>();
+    /** file path -> terms of the file, used to remove a file */
+    private fileTerms = new Map<string, Set<string>>();
+
+    /**
+     * Indexes (or re-indexes) a memory
+     * @param filePath The memory file path
+     * @param text The text to index
+     */
+    public add(filePath: string, text: string): void {
+        this.remove(filePath);
+
+        const counts = new Map<string, number>();
+        for (const term of FullTextIndex.tokenize(text)) {
+            counts.set(term, (counts.get(term) ?? 0) + 1);
+        }
+
+        for (const [term, count] of counts) {
+            let files = this.postings.get(term);
+            if (!files) {
+                files = new Map();
+                this.postings.set(term, files);
+            }
+            files.set(filePath, count);
+        }
+        this.fileTerms.set(filePath, new Set(counts.keys()));
+    }
+
+    /**
+     * Removes a memory from the index
+     * @returns true if the memory was indexed
+     */
+    public remove(filePath: string): boolean {
+        const terms = this.fileTerms.get(filePath);
+        if (!terms) {
+            return false;
+        }
+
+        for (const term of terms) {
+            const files = this.postings.get(term);
+            files?.delete(filePath);
+            if (files?.size === 0) {
+                this.postings.delete(term);
+            }
+        }
+        this.fileTerms.delete(filePath);
+        return true;
+    }
+
+    public clear(): void {
+        this.postings.clear();
+        this.fileTerms.clear();
+    }
+
+    /**
+     * Gets the number of indexed memories
+     */
+    public size(): number {
+        return this.fileTerms.size;
+    }
+
+    /**
+     * Gets the memories containing a term
+     * @param term A normalized term (see tokenize)
+     * @returns The number of occurrences per file path, empty if no memory contains the term
+     */
+    public getOccurrences(term: string): ReadonlyMap<string, number> {
+        return this.postings.get(term) ?? new Map();
+    }
+
+    /**
+     * Keeps the index in sync with a memory index
+     * Indexes the current entries, then follows the add, update, remove and clear events.
+     * Overridden global memories are left out.
+     * @returns Stops following the memory index
+     */
+    public watch(memoryIndex: MemoryIndex): Disposable {
+        const addEntries = (entries: MemoryIndexEntry[]) => {
+            for (const entry of entries) {
+                if (entry.isOverridden) {
+                    this.remove(entry.filePath);
+                } else {
+                    this.add(entry.filePath, FullTextIndex.getIndexedText(entry));
+                }
+            }
+        };
+
+        addEntries(memoryIndex.getAll());
+
+        const subscriptions = [
+            memoryIndex.onDidAdd(addEntries),
+            memoryIndex.onDidUpdate(addEntries),
+            memoryIndex.onDidRemove(entries => entries.forEach(entry => this.remove(entry.filePath))),
+            memoryIndex.onDidClear(() => this.clear())
+        ];
+
+        return { dispose: () => subscriptions.forEach(subscription => subscription.dispose()) };
+    }
+
+    /**
+     * Finds the memories containing all terms of a search
+     * @param query The search text, e.g. `connection pooling`
+     * @returns The matches, most relevant first (empty if the query has no searchable terms)
+     */
+    public search(query: string): FullTextMatch[] {
+        const terms = Array.from(new Set(FullTextIndex.tokenize(query)));
+        if (terms.length === 0) {
+            return [];
+        }
+
+        const postings = terms.map(term => this.postings.get(term));
+        if (postings.some(files => !files)) {
+            return [];
+        }
+
+        const fileCount = this.fileTerms.size;
+        const [first, ...rest] = postings as Map<string, number>[];
+        const matches: FullTextMatch[] = [];
+
+        for (const filePath of first.keys()) {
+            if (!rest.every(files => files.has(filePath))) {
+                continue;
+            }
+
+            let score = 0;
+            for (const files of postings as Map<string, number>[]) {
+                const inverseDocumentFrequency = Math.log(1 + fileCount / files.size);
+                score += (1 + Math.log(files.get(filePath)!)) * inverseDocumentFrequency;
+            }
+            matches.push({ filePath, score, terms });
+        }
+
+        return matches.sort((a, b) => b.score - a.score || a.filePath.localeCompare(b.filePath));
+    }
+
+    /**
+     * Splits a text into normalized, stemmed terms, leaving out stop words
+     */
+    public static tokenize(text: string): string[] {
+        const terms: string[] = [];
+        for (const [word] of text.matchAll(FullTextIndex.WORD_PATTERN)) {
+            const term = FullTextIndex.normalize(word);
+            if (term) {
+                terms.push(term);
+            }
+        }
+        return terms;
+    }
+
+    /**
+     * Maps the terms of a text to the word they were first derived from
+     * @returns Term -> lowercase word, e.g. `pool` -> `pooling`
+     */
+    public static getTermWords(text: string): Map<string, string> {
+        const words = new Map<string, string>();
+        for (const [word] of text.matchAll(FullTextIndex.WORD_PATTERN)) {
+            const term = FullTextIndex.normalize(word);
+            if (term && !words.has(term)) {
+                words.set(term, word.toLowerCase());
+            }
+        }
+        return words;
+    }
+
+    /**
+     * Reduces a word to a simple stem: `pooling`, `pooled`, `pools` -> `pool`, `libraries` -> `library`
+     * @param word A lowercase word
+     */
+    public static stem(word: string): string {
+        if (word.length <= 3) {
+            return word;
+        }
+
+        let stem = word;
+        if (stem.endsWith('ies') && stem.length > 4) {
+            stem = `${stem.slice(0, -3)}y`;
+        } else if (stem.endsWith('sses')) {
+            stem = stem.slice(0, -2);
+        } else if (stem.endsWith('s') && !/(ss|us|is)$/.test(stem)) {
+            stem = stem.slice(0, -1);
+        }
+
+        const suffix = /(ing|ed)$/.exec(stem);
+        if (suffix && stem.length - suffix[0].length >= 3 && /[aeiouy]/.test(stem.slice(0, -suffix[0].length))) {
+            stem = stem.slice(0, -suffix[0].length);
+            // running -> run, but keep fill, miss, buzz
+            if (/([^aeiouylsz])\1$/.test(stem)) {
+                stem = stem.slice(0, -1);
+            }
+        }
+
+        // configure, configured -> configur
+        if (stem.endsWith('e') && stem.length > 3) {
+            stem = stem.slice(0, -1);
+        }
+
+        return stem;
+    }
+
+    /**
+     * Extracts an excerpt around the first word matching one of the terms
+     * @param text The memory content
+     * @param terms Normalized search terms (see FullTextMatch.terms)
+     * @param maxLength Maximum length of the excerpt, without the ellipses
+     */
+    public static getSnippet(text: string, terms: string[], maxLength = 160): FullTextSnippet {
+        const termSet = new Set(terms);
+        const words = Array.from(text.matchAll(FullTextIndex.WORD_PATTERN))
+            .filter(match => termSet.has(FullTextIndex.normalize(match[0]) ?? ''));
+
+        const firstMatch = words[0]?.index ?? 0;
+        let start = Math.max(0, firstMatch - Math.floor(maxLength / 3));
+        // Start at a word boundary
+        if (start > 0) {
+            const boundary = text.slice(start, firstMatch).search(/\s/);
+            start = boundary === -1 ? firstMatch : start + boundary + 1;
+        }
+        const end = Math.min(text.length, start + maxLength);
+
+        const prefix = start > 0 ? '…' : '';
+        const excerpt = text.slice(start, end);
+        const collapsed = FullTextIndex.collapseWhitespace(excerpt).trimEnd();
+        const ranges: [number, number][] = [];
+
+        for (const word of words) {
+            const wordStart = word.index!;
+            const wordEnd = wordStart + word[0].length;
+            if (wordStart >= start && wordEnd <= end) {
+                const offset = prefix.length + FullTextIndex.collapseWhitespace(text.slice(start, wordStart)).length;
+                ranges.push([offset, offset + word[0].length]);
+            }
+        }
+
+        return { text: `${prefix}${collapsed}${end < text.length ? '…' : ''}`, ranges };
+    }
+
+    /**
+     * Gets the text indexed for a memory: its title and content
+     */
+    private static getIndexedText(entry: MemoryIndexEntry): string {
+        return `${entry.frontmatter.title ?? ''}\n${entry.content}`;
+    }
+
+    /**
+     * Case-folds, strips diacritics and stems a word
+     * @returns The term, or undefined for stop words and single characters
+     */
+    private static normalize(word: string): string | undefined {
+        const folded = word.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+        if (folded.length < 2 || FullTextIndex.STOP_WORDS.has(folded)) {
+            return undefined;
+        }
+        return FullTextIndex.stem(folded);
+    }
+
+    private static collapseWhitespace(text: string): string {
+        return text.replace(/\s+/g, ' ');
+    }
+}
@@ -0,0 +1,115 @@
+/**
+ * Minimal glob matcher used to filter memory files
+ *
+ * Supports `*`, `**`, `?`, brace alternation (`{a,b}`) and character classes (`[abc]`, `[!abc]`).
+ * Paths are always compared using forward slashes.
+ */
+export class GlobPattern {
+    private static cache = new Map<string, RegExp>();
+
+    /**
+     * Checks whether a path matches a glob pattern
+     * Patterns without a slash (e.g., `*.sql`) are matched against the file name only
+     * @param glob The glob pattern
+     * @param filePath The path to test (relative, any separator)
+     * @returns true if the path matches the pattern
+     */
+    public static matches(glob: string, filePath: string): boolean {
+        const normalizedPath = GlobPattern.normalizePath(filePath);
+        const normalizedGlob = GlobPattern.normalizePath(glob);
+
+        if (!normalizedGlob.includes('/')) {
+            const fileName = normalizedPath.split('/').pop() || normalizedPath;
+            return GlobPattern.toRegExp(normalizedGlob).test(fileName);
+        }
+
+        return GlobPattern.toRegExp(normalizedGlob).test(normalizedPath);
+    }
+
+    /**
+     * Checks whether a path matches any of the given glob patterns
+     */
+    public static matchesAny(globs: string[], filePath: string): boolean {
+        return globs.some(glob => GlobPattern.matches(glob, filePath));
+    }
+
+    /**
+     * Converts a glob pattern into an anchored regular expression
+     * @param glob The glob pattern
+     * @returns The equivalent regular expression
+     */
+    public static toRegExp(glob: string): RegExp {
+        const cached = GlobPattern.cache.get(glob);
+        if (cached) {
+            return cached;
+        }
+
+        let source = '';
+        let braceDepth = 0;
+        let index = 0;
+
+        while (index < glob.length) {
+            const char = glob[index];
+
+            if (char === '*') {
+                if (glob[index + 1] === '*') {
+                    if (glob[index + 2] === '/') {
+                        // "**/" matches zero or more directories
+                        source += '(?:.*/)?';
+                        index += 3;
+                    } else {
+                        source += '.*';
+                        index += 2;
+                    }
+                } else {
+                    source += '[^/]*';
+                    index++;
+                }
+                continue;
+            }
+
+            if (char === '?') {
+                source += '[^/]';
+            } else if (char === '{') {
+                braceDepth++;
+                source += '(?:';
+            } else if (char === '}' && braceDepth > 0) {
+                braceDepth--;
+                source += ')';
+            } else if (char === ',' && braceDepth > 0) {
+                source += '|';
+            } else if (char === '[') {
+                const closing = glob.indexOf(']', index + 1);
+                if (closing === -1) {
+                    source += '\\[';
+                } else {
+                    let content = glob.substring(index + 1, closing);
+                    const negated = content.startsWith('!') || content.startsWith('^');
+                    if (negated) {
+                        content = content.substring(1);
+                    }
+                    source += `[${negated ? '^' : ''}${content.replace(/\\/g, '\\\\')}]`;
+                    index = closing;
+                }
+            } else {
+                source += char.replace(/[.+^${}()|\\]/g, '\\$&');
+            }
+
+            index++;
+        }
+
+        // Close unbalanced braces so the expression stays valid
+        source += ')'.repeat(braceDepth);
+
+        const regex = new RegExp(`^${source}$`);
+        GlobPattern.cache.set(glob, regex);
+        return regex;
+    }
+
+    /**
+     * Normalizes a path to forward slashes without a leading "./"
+     */
+    public static normalizePath(filePath: string): string {
+        return filePath.replace(/\\/g, '/').replace(/^\.\//, '');
+    }
+}
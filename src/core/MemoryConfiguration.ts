@@ -0,0 +1,363 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as os from 'os';
+import { GlobPattern } from './GlobPattern';
+import { Logger } from './Logger';
+
+/**
+ * Settings describing where memory files are located
+ */
+export interface MemoryLocationSettings {
+    /** Folders (relative to the workspace folder) that contain memory files */
+    folders: string[];
+    /** Glob pattern (relative to each memory folder) selecting memory files */
+    include: string;
+    /** Glob patterns (relative to the workspace folder) of files to ignore */
+    exclude: string[];
+}
+
+/**
+ * How `/memory-tag` uses the matched memories:
+ * `attach` opens a new chat turn with the files attached, `answer` answers directly with the memories in the prompt
+ */
+export type ChatMode = 'attach' | 'answer';
+
+/**
+ * Central access point for the Memory Manager settings
+ * All code that needs to know where memory files live reads it from here
+ */
+export class MemoryConfiguration {
+    public static readonly SECTION = 'memoryManager';
+
+    public static readonly DEFAULT_SETTINGS: MemoryLocationSettings = {
+        folders: ['Memory'],
+        include: '**/*.md',
+        exclude: []
+    };
+
+    public static readonly DEFAULT_MAX_LINK_DEPTH = 1;
+
+    public static readonly CHAT_MODES: readonly ChatMode[] = ['attach', 'answer'];
+
+    public static readonly DEFAULT_SUGGESTION_COUNT = 5;
+
+    public static readonly SCHEMA_FILE_NAME = '.memory-schema.json';
+
+    public static readonly TAG_ALIASES_FILE_NAME = '.tag-aliases.yaml';
+
+    public static readonly TAG_VOCABULARY_FILE_NAME = '.tags.yaml';
+
+    /** Folder (inside a memory folder) holding templates for new memories, never indexed */
+    public static readonly TEMPLATES_FOLDER = '.templates';
+
+    private static readonly MAX_LINK_DEPTH_LIMIT = 10;
+
+    private static readonly MAX_SUGGESTION_COUNT = 20;
+
+    /** Limits of the global folder walk, so a folder like the home directory doesn't block activation */
+    private static readonly MAX_GLOBAL_FOLDER_DEPTH = 10;
+
+    private static readonly MAX_GLOBAL_FOLDER_COUNT = 1000;
+
+    /**
+     * Reads the memory location settings, falling back to defaults for invalid values
+     */
+    public static getLocationSettings(): MemoryLocationSettings {
+        const config = vscode.workspace.getConfiguration(MemoryConfiguration.SECTION);
+        const defaults = MemoryConfiguration.DEFAULT_SETTINGS;
+
+        const folders = MemoryConfiguration.toStringArray(config.get<unknown>('folders'))
+            .map(folder => MemoryConfiguration.normalizeFolder(folder));
+        const include = config.get<unknown>('include');
+        const exclude = MemoryConfiguration.toStringArray(config.get<unknown>('exclude'));
+
+        return {
+            folders: folders.length > 0 ? Array.from(new Set(folders)) : [...defaults.folders],
+            include: typeof include === 'string' && include.trim() ? GlobPattern.normalizePath(include.trim()) : defaults.include,
+            exclude
+        };
+    }
+
+    /**
+     * Builds the glob pattern (relative to the workspace folder) that matches all memory files
+     * @param settings The memory location settings
+     */
+    public static getIncludePattern(settings: MemoryLocationSettings): string {
+        // A folder of "" means the workspace root, which already contains every other folder
+        if (settings.folders.includes('')) {
+            return settings.include;
+        }
+
+        const folders = settings.folders.length === 1
+            ? settings.folders[0]
+            : `{${settings.folders.join(',')}}`;
+
+        return `${folders}/${settings.include}`;
+    }
+
+    /**
+     * Checks whether a file belongs to the memory files described by the settings
+     * @param workspaceFolderPath Absolute path of the workspace folder
+     * @param filePath Absolute path of the file
+     * @param settings The memory location settings
+     */
+    public static isMemoryFile(workspaceFolderPath: string, filePath: string, settings: MemoryLocationSettings): boolean {
+        const relativePath = GlobPattern.normalizePath(path.relative(workspaceFolderPath, filePath));
+
+        if (!relativePath || relativePath.startsWith('../') || path.isAbsolute(relativePath)) {
+            return false;
+        }
+
+        if (!GlobPattern.matches(MemoryConfiguration.getIncludePattern(settings), relativePath)) {
+            return false;
+        }
+
+        return !MemoryConfiguration.isTemplate(relativePath) && !GlobPattern.matchesAny(settings.exclude, relativePath);
+    }
+
+    /**
+     * Finds all memory files of a workspace folder using the current settings
+     * @param workspaceFolder The workspace folder to search
+     * @param settings The memory location settings (read from configuration if omitted)
+     */
+    public static async findMemoryFiles(
+        workspaceFolder: vscode.WorkspaceFolder,
+        settings: MemoryLocationSettings = MemoryConfiguration.getLocationSettings()
+    ): Promise<vscode.Uri[]> {
+        const pattern = new vscode.RelativePattern(workspaceFolder, MemoryConfiguration.getIncludePattern(settings));
+        const files = await vscode.workspace.findFiles(pattern);
+
+        return files.filter(uri => MemoryConfiguration.isMemoryFile(workspaceFolder.uri.fsPath, uri.fsPath, settings));
+    }
+
+    /**
+     * Resolves the folder of the user-global memory library
+     * Uses the `memoryManager.globalFolder` setting (supports `~`), or a `memories` folder
+     * inside the extension's global storage when the setting is empty
+     * @param globalStorageUri The extension's global storage location
+     */
+    public static getGlobalFolder(globalStorageUri: vscode.Uri): vscode.Uri {
+        const config = vscode.workspace.getConfiguration(MemoryConfiguration.SECTION);
+        const configured = config.get<unknown>('globalFolder');
+
+        if (typeof configured === 'string' && configured.trim()) {
+            const folder = configured.trim().replace(/^~(?=$|[\\/])/, os.homedir());
+            return vscode.Uri.file(path.resolve(folder));
+        }
+
+        return vscode.Uri.joinPath(globalStorageUri, 'memories');
+    }
+
+    /**
+     * Checks whether a file belongs to the global memory library
+     * The include and exclude settings are applied relative to the global folder
+     * @param globalFolderPath Absolute path of the global folder
+     * @param filePath Absolute path of the file
+     * @param settings The memory location settings
+     */
+    public static isGlobalMemoryFile(globalFolderPath: string, filePath: string, settings: MemoryLocationSettings): boolean {
+        const relativePath = GlobPattern.normalizePath(path.relative(globalFolderPath, filePath));
+
+        if (!relativePath || relativePath.startsWith('../') || path.isAbsolute(relativePath)) {
+            return false;
+        }
+
+        return GlobPattern.matches(settings.include, relativePath) &&
+            !MemoryConfiguration.isTemplate(relativePath) &&
+            !GlobPattern.matchesAny(settings.exclude, relativePath);
+    }
+
+    /**
+     * Finds all memory files of the global library
+     * The folder usually lives outside the workspace, so it is walked directly instead of using findFiles.
+     * Symlinked folders are skipped (they may form cycles) and the walk stops at a depth and folder count limit.
+     * @param globalFolder The global folder
+     * @param settings The memory location settings (read from configuration if omitted)
+     */
+    public static async findGlobalMemoryFiles(
+        globalFolder: vscode.Uri,
+        settings: MemoryLocationSettings = MemoryConfiguration.getLocationSettings()
+    ): Promise<vscode.Uri[]> {
+        const files: vscode.Uri[] = [];
+        const pending: { folder: vscode.Uri; depth: number }[] = [{ folder: globalFolder, depth: 0 }];
+        let folderCount = 0;
+
+        while (pending.length > 0) {
+            const { folder, depth } = pending.shift()!;
+            if (++folderCount > MemoryConfiguration.MAX_GLOBAL_FOLDER_COUNT) {
+                Logger.getInstance().warn(
+                    `Global memory folder has more than ${MemoryConfiguration.MAX_GLOBAL_FOLDER_COUNT} folders, the rest is not indexed: ${globalFolder.fsPath}`
+                );
+                break;
+            }
+
+            let entries: [string, vscode.FileType][];
+
+            try {
+                entries = await vscode.workspace.fs.readDirectory(folder);
+            } catch {
+                // Missing or unreadable folder - nothing to index
+                continue;
+            }
+
+            for (const [name, type] of entries) {
+                const uri = vscode.Uri.joinPath(folder, name);
+                if (type & vscode.FileType.Directory) {
+                    if (!(type & vscode.FileType.SymbolicLink) && depth < MemoryConfiguration.MAX_GLOBAL_FOLDER_DEPTH) {
+                        pending.push({ folder: uri, depth: depth + 1 });
+                    }
+                } else if (MemoryConfiguration.isGlobalMemoryFile(globalFolder.fsPath, uri.fsPath, settings)) {
+                    files.push(uri);
+                }
+            }
+        }
+
+        return files;
+    }
+
+    /**
+     * Reads how many levels of Markdown links are followed from a memory file
+     * @returns The maximum link depth, clamped to 0-10 (defaults to 1)
+     */
+    public static getMaxLinkDepth(): number {
+        const config = vscode.workspace.getConfiguration(MemoryConfiguration.SECTION);
+        const value = config.get<unknown>('maxLinkDepth');
+
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+            return MemoryConfiguration.DEFAULT_MAX_LINK_DEPTH;
+        }
+
+        return Math.min(MemoryConfiguration.MAX_LINK_DEPTH_LIMIT, Math.max(0, Math.floor(value)));
+    }
+
+    /**
+     * Reads the token budget for attached files
+     * @returns The budget in tokens, 0 when unlimited
+     */
+    public static getTokenBudget(): number {
+        const config = vscode.workspace.getConfiguration(MemoryConfiguration.SECTION);
+        const value = config.get<unknown>('tokenBudget');
+
+        return typeof value === 'number' && Number.isFinite(value) && value > 0 ? Math.floor(value) : 0;
+    }
+
+    /**
+     * Reads how many memories `/memory-auto` proposes
+     * @returns The number of suggestions, clamped to 1-20 (defaults to 5)
+     */
+    public static getSuggestionCount(): number {
+        const config = vscode.workspace.getConfiguration(MemoryConfiguration.SECTION);
+        const value = config.get<unknown>('suggestionCount');
+
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+            return MemoryConfiguration.DEFAULT_SUGGESTION_COUNT;
+        }
+
+        return Math.min(MemoryConfiguration.MAX_SUGGESTION_COUNT, Math.max(1, Math.floor(value)));
+    }
+
+    /**
+     * Reads whether `@memory` without a command proposes memories like `/memory-auto`
+     */
+    public static getSuggestWithoutCommand(): boolean {
+        const config = vscode.workspace.getConfiguration(MemoryConfiguration.SECTION);
+        return config.get<unknown>('suggestWithoutCommand') === true;
+    }
+
+    /**
+     * Reads how `/memory-tag` uses the matched memories
+     * @returns The chat mode (defaults to `attach`)
+     */
+    public static getChatMode(): ChatMode {
+        const config = vscode.workspace.getConfiguration(MemoryConfiguration.SECTION);
+        const value = config.get<unknown>('chatMode');
+
+        return MemoryConfiguration.CHAT_MODES.find(mode => mode === value) ?? 'attach';
+    }
+
+    /**
+     * Gets the location of the frontmatter schema file, relative to the workspace folder
+     * Defaults to `.memory-schema.json` in the first memory folder
+     * @param settings The memory location settings
+     */
+    public static getSchemaPath(settings: MemoryLocationSettings): string {
+        const config = vscode.workspace.getConfiguration(MemoryConfiguration.SECTION);
+        const schemaFile = config.get<unknown>('schemaFile');
+
+        if (typeof schemaFile === 'string' && schemaFile.trim()) {
+            return GlobPattern.normalizePath(schemaFile.trim());
+        }
+
+        return path.posix.join(settings.folders[0] || '.', MemoryConfiguration.SCHEMA_FILE_NAME);
+    }
+
+    /**
+     * Gets the location of the tag aliases file, relative to the workspace folder
+     * The file is `.tag-aliases.yaml` in the first memory folder
+     * @param settings The memory location settings
+     */
+    public static getTagAliasesPath(settings: MemoryLocationSettings): string {
+        return path.posix.join(settings.folders[0] || '.', MemoryConfiguration.TAG_ALIASES_FILE_NAME);
+    }
+
+    /**
+     * Gets the location of the tag vocabulary file, relative to the workspace folder
+     * The file is `.tags.yaml` in the first memory folder
+     * @param settings The memory location settings
+     */
+    public static getTagVocabularyPath(settings: MemoryLocationSettings): string {
+        return path.posix.join(settings.folders[0] || '.', MemoryConfiguration.TAG_VOCABULARY_FILE_NAME);
+    }
+
+    /**
+     * Registers a listener called when any memory location setting changes
+     * @param listener Function to call after the change
+     * @returns Disposable that unregisters the listener
+     */
+    public static onDidChangeLocationSettings(listener: () => void): vscode.Disposable {
+        return vscode.workspace.onDidChangeConfiguration(event => {
+            if (
+                event.affectsConfiguration(`${MemoryConfiguration.SECTION}.folders`) ||
+                event.affectsConfiguration(`${MemoryConfiguration.SECTION}.include`) ||
+                event.affectsConfiguration(`${MemoryConfiguration.SECTION}.exclude`) ||
+                event.affectsConfiguration(`${MemoryConfiguration.SECTION}.globalFolder`) ||
+                event.affectsConfiguration(`${MemoryConfiguration.SECTION}.schemaFile`)
+            ) {
+                listener();
+            }
+        });
+    }
+
+    /**
+     * Checks whether a (normalized, relative) path lies inside a templates folder
+     */
+    private static isTemplate(relativePath: string): boolean {
+        return relativePath.split('/').includes(MemoryConfiguration.TEMPLATES_FOLDER);
+    }
+
+    /**
+     * Normalizes a folder setting: forward slashes, no leading "./" and no trailing slash
+     */
+    private static normalizeFolder(folder: string): string {
+        const normalized = GlobPattern.normalizePath(folder.trim()).replace(/\/+$/, '');
+        return normalized === '.' ? '' : normalized;
+    }
+
+    /**
+     * Converts a setting value into an array of non-empty strings
+     */
+    private static toStringArray(value: unknown): string[] {
+        if (typeof value === 'string') {
+            return value.trim() ? [value.trim()] : [];
+        }
+
+        if (!Array.isArray(value)) {
+            return [];
+        }
+
+        return value
+            .filter((item): item is string => typeof item === 'string')
+            .map(item => item.trim())
+            .filter(item => item.length > 0);
+    }
+}
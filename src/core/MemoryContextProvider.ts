@@ -0,0 +1,105 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { AppliesToIndex, AppliesToMatch, ContextFile } from './AppliesToIndex';
+import { MemoryIndex } from './MemoryIndex';
+
+/**
+ * Finds the memories that apply to the files being worked on (see AppliesToIndex)
+ * Shows a status bar hint when memories apply to the active editor
+ */
+export class MemoryContextProvider {
+    private statusBarItem?: vscode.StatusBarItem;
+
+    constructor(
+        private readonly appliesToIndex: AppliesToIndex,
+        private readonly memoryIndex: MemoryIndex
+    ) {}
+
+    /**
+     * Creates the status bar hint and keeps it current
+     * @param onDidChangeIndex Event fired when the memory index changed
+     */
+    public register(context: vscode.ExtensionContext, onDidChangeIndex: vscode.Event<void>): void {
+        this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 99);
+        this.statusBarItem.command = {
+            command: 'workbench.action.chat.open',
+            title: 'Ask with Context Memories',
+            arguments: [{ query: '@memory /memory-context ', isPartialQuery: true }]
+        };
+
+        context.subscriptions.push(
+            this.statusBarItem,
+            vscode.window.onDidChangeActiveTextEditor(() => this.updateStatusBar()),
+            onDidChangeIndex(() => this.updateStatusBar())
+        );
+        this.updateStatusBar();
+    }
+
+    /**
+     * Finds the memories whose `appliesTo` globs match any of the files
+     * @param uris The files, e.g. from getContextUris
+     */
+    public findMatches(uris: vscode.Uri[]): AppliesToMatch[] {
+        return this.appliesToIndex.findMatches(uris.map(uri => MemoryContextProvider.toContextFile(uri)));
+    }
+
+    /**
+     * Gets the files a chat request is about: the active editor and the files referenced in the request
+     * @param references The references of the chat request (e.g. `#file`)
+     */
+    public static getContextUris(references: readonly vscode.ChatPromptReference[] = []): vscode.Uri[] {
+        const uris: vscode.Uri[] = [];
+        const activeUri = vscode.window.activeTextEditor?.document.uri;
+        if (activeUri) {
+            uris.push(activeUri);
+        }
+
+        for (const reference of references) {
+            if (reference.value instanceof vscode.Uri) {
+                uris.push(reference.value);
+            } else if (reference.value instanceof vscode.Location) {
+                uris.push(reference.value.uri);
+            }
+        }
+
+        const seen = new Set<string>();
+        return uris.filter(uri => uri.scheme === 'file' && !seen.has(uri.fsPath) && seen.add(uri.fsPath));
+    }
+
+    /**
+     * Converts a file into the path its workspace folder's globs are matched against
+     */
+    public static toContextFile(uri: vscode.Uri): ContextFile {
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+        if (!workspaceFolder) {
+            return { relativePath: uri.fsPath };
+        }
+
+        return {
+            relativePath: path.relative(workspaceFolder.uri.fsPath, uri.fsPath).replace(/\\/g, '/'),
+            workspaceFolder: workspaceFolder.name
+        };
+    }
+
+    /**
+     * Shows how many memories apply to the active editor, hides the hint when there are none
+     */
+    public updateStatusBar(): void {
+        if (!this.statusBarItem) {
+            return;
+        }
+
+        const activeUri = vscode.window.activeTextEditor?.document.uri;
+        const matches = activeUri && activeUri.scheme === 'file' ? this.findMatches([activeUri]) : [];
+
+        if (matches.length === 0) {
+            this.statusBarItem.hide();
+            return;
+        }
+
+        const titles = matches.map(match => `- ${this.memoryIndex.get(match.filePath)?.frontmatter.title ?? path.basename(match.filePath)}`);
+        this.statusBarItem.text = `$(lightbulb) ${matches.length} ${matches.length === 1 ? 'memory applies' : 'memories apply'}`;
+        this.statusBarItem.tooltip = `Memories for this file:\n${titles.join('\n')}\n\nClick to ask @memory /memory-context`;
+        this.statusBarItem.show();
+    }
+}
@@ -0,0 +1,285 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { TagSystem } from './TagSystem';
+import { MemoryConfiguration } from './MemoryConfiguration';
+import { Logger } from './Logger';
+
+/**
+ * A memory template from the `.templates` folder
+ */
+export interface MemoryTemplate {
+    /** Template name (file name without extension) */
+    name: string;
+    /** Additional frontmatter fields defined by the template */
+    frontmatter: Record<string, unknown>;
+    /** Markdown body, may contain `{{title}}` and `{{date}}` placeholders */
+    body: string;
+}
+
+/**
+ * Command for creating new memory files
+ * Asks for a title, tags and an optional template, then writes and opens the file
+ */
+export class MemoryCreationCommands {
+    /** Fields of the new memory that a template can't override */
+    private static readonly RESERVED_FIELDS = ['title', 'tags', 'created', 'updated'];
+
+    private static readonly MAX_FILE_NAME_LENGTH = 60;
+
+    constructor(private tagSystem: TagSystem) {}
+
+    /**
+     * Registers the create memory command
+     */
+    public registerCommands(context: vscode.ExtensionContext): void {
+        const createMemoryCommand = vscode.commands.registerCommand(
+            'memory-manager.createMemory',
+            () => this.createMemory()
+        );
+        context.subscriptions.push(createMemoryCommand);
+    }
+
+    /**
+     * Creates a new memory file in the first memory folder of a workspace folder
+     * @returns The created file, or undefined if the user cancelled
+     */
+    public async createMemory(): Promise<vscode.Uri | undefined> {
+        const workspaceFolder = await this.pickWorkspaceFolder();
+        if (!workspaceFolder) {
+            return undefined;
+        }
+
+        const settings = MemoryConfiguration.getLocationSettings();
+        const memoryFolder = vscode.Uri.joinPath(workspaceFolder.uri, settings.folders[0] || '.');
+
+        const title = await vscode.window.showInputBox({
+            title: 'New Memory',
+            prompt: 'Title of the new memory',
+            validateInput: value => value.trim() ? undefined : 'The title must not be empty'
+        });
+        if (title === undefined) {
+            return undefined;
+        }
+
+        const tags = await this.pickTags();
+        if (!tags) {
+            return undefined;
+        }
+        if (tags.length === 0) {
+            vscode.window.showWarningMessage('A memory needs at least one tag.');
+            return undefined;
+        }
+
+        const templates = await MemoryCreationCommands.loadTemplates(memoryFolder);
+        let template: MemoryTemplate | undefined;
+        if (templates.length > 0) {
+            const blank = { label: 'Blank memory', template: undefined };
+            const picked = await vscode.window.showQuickPick(
+                [blank, ...templates.map(item => ({ label: item.name, template: item as MemoryTemplate | undefined }))],
+                { title: 'New Memory', placeHolder: 'Choose a template' }
+            );
+            if (!picked) {
+                return undefined;
+            }
+            template = picked.template;
+        }
+
+        const uri = await MemoryCreationCommands.getAvailableUri(memoryFolder, MemoryCreationCommands.toFileName(title));
+        const content = MemoryCreationCommands.buildContent(title.trim(), tags, new Date(), template);
+
+        try {
+            await vscode.workspace.fs.createDirectory(memoryFolder);
+            await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf8'));
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            Logger.getInstance().error(`Failed to create memory ${uri.fsPath}: ${message}`);
+            vscode.window.showErrorMessage(`Could not create the memory: ${message}`);
+            return undefined;
+        }
+
+        const document = await vscode.workspace.openTextDocument(uri);
+        await vscode.window.showTextDocument(document);
+
+        return uri;
+    }
+
+    /**
+     * Picks the workspace folder for the new memory (asks only in multi-root workspaces)
+     */
+    private async pickWorkspaceFolder(): Promise<vscode.WorkspaceFolder | undefined> {
+        const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+
+        if (workspaceFolders.length === 0) {
+            vscode.window.showErrorMessage('No workspace folder found.');
+            return undefined;
+        }
+
+        if (workspaceFolders.length === 1) {
+            return workspaceFolders[0];
+        }
+
+        return vscode.window.showWorkspaceFolderPick({ placeHolder: 'Workspace folder for the new memory' });
+    }
+
+    /**
+     * Lets the user select existing tags and enter new ones
+     * @returns The tags, or undefined if the user cancelled
+     */
+    private async pickTags(): Promise<string[] | undefined> {
+        const existingTags = this.tagSystem.getAllTags().sort();
+        let selected: string[] = [];
+
+        if (existingTags.length > 0) {
+            const picked = await vscode.window.showQuickPick(
+                existingTags.map(tag => {
+                    const fileCount = this.tagSystem.queryByTag(tag).length;
+                    return { label: tag, description: `${fileCount} file${fileCount !== 1 ? 's' : ''}` };
+                }),
+                { title: 'New Memory', placeHolder: 'Select existing tags', canPickMany: true }
+            );
+            if (!picked) {
+                return undefined;
+            }
+            selected = picked.map(item => item.label);
+        }
+
+        const entered = await vscode.window.showInputBox({
+            title: 'New Memory',
+            prompt: 'New tags (comma-separated, e.g. backend.api, testing)',
+            placeHolder: selected.length > 0 ? 'Leave empty to use only the selected tags' : undefined
+        });
+        if (entered === undefined) {
+            return undefined;
+        }
+
+        const newTags = entered.split(',').map(tag => tag.trim()).filter(tag => tag !== '');
+        return Array.from(new Set([...selected, ...newTags]));
+    }
+
+    /**
+     * Loads the templates from the `.templates` folder of a memory folder
+     * @param memoryFolder The memory folder
+     * @returns The templates sorted by name, empty if there are none
+     */
+    public static async loadTemplates(memoryFolder: vscode.Uri): Promise<MemoryTemplate[]> {
+        const templatesFolder = vscode.Uri.joinPath(memoryFolder, MemoryConfiguration.TEMPLATES_FOLDER);
+        let entries: [string, vscode.FileType][];
+
+        try {
+            entries = await vscode.workspace.fs.readDirectory(templatesFolder);
+        } catch {
+            return [];
+        }
+
+        const templates: MemoryTemplate[] = [];
+        for (const [name, type] of entries) {
+            if (!(type & vscode.FileType.File) || path.extname(name).toLowerCase() !== '.md') {
+                continue;
+            }
+
+            try {
+                const text = Buffer.from(await vscode.workspace.fs.readFile(vscode.Uri.joinPath(templatesFolder, name))).toString('utf8');
+                templates.push({ name: path.basename(name, path.extname(name)), ...MemoryCreationCommands.parseTemplate(text) });
+            } catch (error) {
+                Logger.getInstance().warn(`Skipping memory template ${name}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+
+        return templates.sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    /**
+     * Splits a template into its optional frontmatter and body
+     * @throws If the template's frontmatter is not a valid YAML object
+     */
+    public static parseTemplate(text: string): Pick<MemoryTemplate, 'frontmatter' | 'body'> {
+        const lines = text.split('\n');
+        const closing = lines[0]?.trim() === '---'
+            ? lines.findIndex((line, index) => index > 0 && line.trim() === '---')
+            : -1;
+
+        if (closing === -1) {
+            return { frontmatter: {}, body: text };
+        }
+
+        const frontmatter = yaml.load(lines.slice(1, closing).join('\n')) ?? {};
+        if (typeof frontmatter !== 'object' || Array.isArray(frontmatter)) {
+            throw new Error('Template frontmatter must be an object');
+        }
+
+        return {
+            frontmatter: frontmatter as Record<string, unknown>,
+            body: lines.slice(closing + 1).join('\n').replace(/^\n+/, '')
+        };
+    }
+
+    /**
+     * Builds the content of a new memory file
+     * @param title The memory title
+     * @param tags The memory tags
+     * @param date Used for `created`, `updated` and the `{{date}}` placeholder
+     * @param template Optional template providing extra frontmatter fields and the body
+     */
+    public static buildContent(title: string, tags: string[], date: Date, template?: MemoryTemplate): string {
+        const day = MemoryCreationCommands.formatDate(date);
+        const extraFields = Object.fromEntries(
+            Object.entries(template?.frontmatter ?? {}).filter(([key]) => !MemoryCreationCommands.RESERVED_FIELDS.includes(key))
+        );
+
+        const body = template
+            ? template.body.replace(/\{\{\s*title\s*\}\}/g, title).replace(/\{\{\s*date\s*\}\}/g, day)
+            : `# ${title}\n`;
+
+        return [
+            '---',
+            yaml.dump({ title, tags }).trimEnd(),
+            `created: ${day}`,
+            `updated: ${day}`,
+            ...(Object.keys(extraFields).length > 0 ? [yaml.dump(extraFields).trimEnd()] : []),
+            '---',
+            '',
+            body
+        ].join('\n');
+    }
+
+    /**
+     * Derives a safe file name from a title, e.g. `API Conventions (v2)` becomes `api-conventions-v2.md`
+     */
+    public static toFileName(title: string): string {
+        const slug = title
+            .normalize('NFKD')
+            .replace(/[\u0300-\u036f]/g, '')
+            .toLowerCase()
+            .replace(/[^a-z0-9]+/g, '-')
+            .slice(0, MemoryCreationCommands.MAX_FILE_NAME_LENGTH)
+            .replace(/^-+|-+$/g, '');
+
+        return `${slug || 'memory'}.md`;
+    }
+
+    /**
+     * Finds a file name in the folder that is not taken yet by appending -2, -3, ...
+     */
+    private static async getAvailableUri(folder: vscode.Uri, fileName: string): Promise<vscode.Uri> {
+        const extension = path.extname(fileName);
+        const baseName = path.basename(fileName, extension);
+
+        for (let counter = 1; ; counter++) {
+            const uri = vscode.Uri.joinPath(folder, counter === 1 ? fileName : `${baseName}-${counter}${extension}`);
+            try {
+                await vscode.workspace.fs.stat(uri);
+            } catch {
+                return uri;
+            }
+        }
+    }
+
+    /**
+     * Formats a date as YYYY-MM-DD in local time
+     */
+    private static formatDate(date: Date): string {
+        const pad = (value: number) => String(value).padStart(2, '0');
+        return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+    }
+}
@@ -0,0 +1,145 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { MemoryIndex } from './MemoryIndex';
+import { TagSystem } from './TagSystem';
+
+/**
+ * A node of the Memory Explorer: a tag or a memory file listed under a tag
+ */
+export type MemoryExplorerNode =
+    | { kind: 'tag'; tag: string }
+    | { kind: 'file'; tag: string; filePath: string };
+
+/**
+ * Tree data provider of the Memory Explorer view
+ * Renders the tag hierarchy with file counts; each tag lists the memories tagged with exactly that tag
+ */
+export class MemoryExplorerProvider implements vscode.TreeDataProvider<MemoryExplorerNode> {
+    public static readonly VIEW_ID = 'memoryManager.explorer';
+
+    private changeEmitter = new vscode.EventEmitter<MemoryExplorerNode | undefined>();
+    public readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    constructor(
+        private readonly tagSystem: TagSystem,
+        private readonly memoryIndex: MemoryIndex
+    ) {}
+
+    /**
+     * Registers the view and its commands
+     * @param onDidChangeIndex Event fired when the memory index changed, used to refresh the view
+     */
+    public register(context: vscode.ExtensionContext, onDidChangeIndex: vscode.Event<void>): void {
+        context.subscriptions.push(
+            vscode.window.createTreeView(MemoryExplorerProvider.VIEW_ID, { treeDataProvider: this, showCollapseAll: true }),
+            onDidChangeIndex(() => this.refresh()),
+            vscode.commands.registerCommand('memory-manager.explorer.refresh', () => this.refresh()),
+            vscode.commands.registerCommand('memory-manager.explorer.copyQuery', (node: MemoryExplorerNode) => this.copyQuery(node)),
+            vscode.commands.registerCommand('memory-manager.explorer.attachToChat', (node: MemoryExplorerNode) => this.attachToChat(node)),
+            vscode.commands.registerCommand('memory-manager.explorer.revealInExplorer', (node: MemoryExplorerNode) => this.revealInExplorer(node)),
+            this.changeEmitter
+        );
+    }
+
+    /**
+     * Re-renders the whole tree
+     */
+    public refresh(): void {
+        this.changeEmitter.fire(undefined);
+    }
+
+    public getTreeItem(node: MemoryExplorerNode): vscode.TreeItem {
+        if (node.kind === 'tag') {
+            const fileCount = this.tagSystem.queryByTag(node.tag).length;
+            const displayName = this.tagSystem.getDisplayName(node.tag);
+            const item = new vscode.TreeItem(displayName.split('.').pop() ?? displayName, vscode.TreeItemCollapsibleState.Collapsed);
+            item.description = `${fileCount} file${fileCount !== 1 ? 's' : ''}`;
+            item.tooltip = displayName;
+            item.contextValue = 'memoryTag';
+            item.iconPath = new vscode.ThemeIcon('tag');
+            return item;
+        }
+
+        const uri = vscode.Uri.file(node.filePath);
+        const title = this.memoryIndex.get(node.filePath)?.frontmatter.title;
+        const item = new vscode.TreeItem(title ?? path.basename(node.filePath), vscode.TreeItemCollapsibleState.None);
+        item.description = path.basename(node.filePath);
+        item.tooltip = node.filePath;
+        item.resourceUri = uri;
+        item.contextValue = 'memoryFile';
+        item.command = { command: 'vscode.open', title: 'Open Memory', arguments: [uri] };
+        return item;
+    }
+
+    public getChildren(node?: MemoryExplorerNode): MemoryExplorerNode[] {
+        if (!node) {
+            return this.getChildTagNodes('');
+        }
+
+        if (node.kind === 'file') {
+            return [];
+        }
+
+        const files: MemoryExplorerNode[] = this.tagSystem.queryByTag(node.tag)
+            .filter(filePath => this.memoryIndex.get(filePath)?.frontmatter.tags.some(tag => this.tagSystem.resolveTag(tag) === node.tag))
+            .sort((a, b) => this.getTitle(a).localeCompare(this.getTitle(b)))
+            .map(filePath => ({ kind: 'file', tag: node.tag, filePath }));
+
+        return [...this.getChildTagNodes(node.tag), ...files];
+    }
+
+    public getParent(node: MemoryExplorerNode): MemoryExplorerNode | undefined {
+        if (node.kind === 'file') {
+            return { kind: 'tag', tag: node.tag };
+        }
+
+        const separator = node.tag.lastIndexOf('.');
+        return separator === -1 ? undefined : { kind: 'tag', tag: node.tag.slice(0, separator) };
+    }
+
+    /**
+     * Builds the chat query for a tag (or, for a file, the tag it is listed under)
+     */
+    public static getQuery(node: MemoryExplorerNode): string {
+        return `@memory /memory-tag ${node.tag}`;
+    }
+
+    private getChildTagNodes(tag: string): MemoryExplorerNode[] {
+        return this.tagSystem.getChildTags(tag)
+            .sort()
+            .map(childTag => ({ kind: 'tag', tag: childTag }));
+    }
+
+    private getTitle(filePath: string): string {
+        return this.memoryIndex.get(filePath)?.frontmatter.title ?? path.basename(filePath);
+    }
+
+    private async copyQuery(node: MemoryExplorerNode): Promise<void> {
+        const query = MemoryExplorerProvider.getQuery(node);
+        await vscode.env.clipboard.writeText(query);
+        vscode.window.showInformationMessage(`Copied "${query}" to the clipboard.`);
+    }
+
+    /**
+     * Opens the chat with a query for a tag, or with a memory file attached
+     */
+    private async attachToChat(node: MemoryExplorerNode): Promise<void> {
+        if (node.kind === 'tag') {
+            await vscode.commands.executeCommand('workbench.action.chat.open', {
+                query: `${MemoryExplorerProvider.getQuery(node)}\n`,
+                isPartialQuery: true
+            });
+            return;
+        }
+
+        await vscode.commands.executeCommand('workbench.action.chat.open', {
+            attachFiles: [vscode.Uri.file(node.filePath)]
+        });
+    }
+
+    private async revealInExplorer(node: MemoryExplorerNode): Promise<void> {
+        if (node.kind === 'file') {
+            await vscode.commands.executeCommand('revealInExplorer', vscode.Uri.file(node.filePath));
+        }
+    }
+}
@@ -1,4 +1,7 @@
 import * as yaml from 'js-yaml';
+import { MemoryPriority } from './MemoryPriority';
+import { TagNormalizer } from './TagNormalizer';
+import { TagPattern } from './TagPattern';
 
 /**
  * Represents the frontmatter metadata of a memory file
@@ -6,9 +9,12 @@ import * as yaml from 'js-yaml';
 export interface MemoryFileFrontmatter {
     title: string;
     tags: string[];
+    /** high, medium, low or a number from 1 to 10 (see MemoryPriority) */
     priority?: string | number;
     created?: string | Date;
     updated?: string | Date;
+    /** Glob patterns of the files the memory applies to, e.g. `src/db/**` (see AppliesToIndex) */
+    appliesTo?: string | string[];
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     [key: string]: any; // Allow custom fields
 }
@@ -21,11 +27,22 @@ export interface ParsedMemoryFile {
     content: string;
 }
 
+/**
+ * A problem with a single frontmatter field that doesn't prevent the memory from being indexed
+ */
+export interface FrontmatterIssue {
+    /** Path of the offending field, e.g. `status` or `tags[1]` (empty for the frontmatter itself) */
+    path: string;
+    /** Human-readable description */
+    message: string;
+}
+
 /**
  * Error thrown when frontmatter validation fails
+ * Carries the position (0-based, relative to the whole file) of the offending field
  */
 export class FrontmatterValidationError extends Error {
-    constructor(message: string) {
+    constructor(message: string, public readonly line: number = 0, public readonly column: number = 0) {
         super(message);
         this.name = 'FrontmatterValidationError';
     }
@@ -33,9 +50,10 @@ export class FrontmatterValidationError extends Error {
 
 /**
  * Error thrown when frontmatter parsing fails
+ * Carries the position (0-based, relative to the whole file) where parsing failed
  */
 export class FrontmatterParseError extends Error {
-    constructor(message: string) {
+    constructor(message: string, public readonly line: number = 0, public readonly column: number = 0) {
         super(message);
         this.name = 'FrontmatterParseError';
     }
@@ -58,7 +76,7 @@ export class MemoryFileParser {
         const { yamlContent, markdownContent } = this.extractFrontmatter(content);
 
         const frontmatter = this.parseFrontmatter(yamlContent);
-        this.validateFrontmatter(frontmatter);
+        this.validateFrontmatter(frontmatter, content);
 
         return {
             frontmatter,
@@ -66,6 +84,115 @@ export class MemoryFileParser {
         };
     }
 
+    /**
+     * Checks the frontmatter for problems that don't prevent a memory from being indexed (e.g. malformed tags)
+     * @param frontmatter The validated frontmatter
+     * @returns The problems found, empty if there are none
+     */
+    public static getWarnings(frontmatter: MemoryFileFrontmatter): FrontmatterIssue[] {
+        const warnings: FrontmatterIssue[] = [];
+
+        const priorityWarning = MemoryPriority.validate(frontmatter.priority);
+        if (priorityWarning) {
+            warnings.push({ path: 'priority', message: priorityWarning });
+        }
+
+        frontmatter.tags.forEach((tag, index) => {
+            const problem = TagNormalizer.getProblem(tag) ?? (TagPattern.hasSyntax(tag)
+                ? `Tag "${tag}" contains spaces, wildcards, brackets or query operators (, : & | ! /) or starts with -, so tag queries can't match it`
+                : undefined);
+            if (problem) {
+                warnings.push({ path: `tags[${index}]`, message: problem });
+            }
+        });
+
+        const appliesTo: unknown = frontmatter.appliesTo;
+        if (Array.isArray(appliesTo)) {
+            appliesTo.forEach((pattern, index) => {
+                if (typeof pattern !== 'string') {
+                    warnings.push({ path: `appliesTo[${index}]`, message: 'All "appliesTo" entries must be glob patterns (strings)' });
+                }
+            });
+        } else if (appliesTo !== undefined && appliesTo !== null && typeof appliesTo !== 'string') {
+            warnings.push({ path: 'appliesTo', message: 'Field "appliesTo" must be a glob pattern or a list of glob patterns' });
+        }
+
+        return warnings;
+    }
+
+    /**
+     * Finds the line of a frontmatter field in the raw file content
+     * Supports nested fields (`meta.owner`) and block list items (`tags[1]`);
+     * falls back to the closest enclosing field that was found
+     * @param content The full content of the memory file
+     * @param fieldPath Path of the field, e.g. `status` or `tags[1]`
+     * @returns The 0-based line in the file, or 0 if the field can't be found
+     */
+    public static findFieldLine(content: string, fieldPath: string): number {
+        const lines = content.split('\n');
+        if (lines[0]?.trim() !== this.FRONTMATTER_DELIMITER) {
+            return 0;
+        }
+
+        let end = lines.findIndex((line, index) => index > 0 && line.trim() === this.FRONTMATTER_DELIMITER);
+        if (end === -1) {
+            end = lines.length;
+        }
+
+        const indentOf = (line: string) => line.length - line.trimStart().length;
+        const isContent = (line: string) => line.trim() !== '' && !line.trimStart().startsWith('#');
+        const isListItem = (line: string) => /^\s*-(\s|$)/.test(line);
+        // List items may be indented at the same level as their key (`tags:` followed by `- a`)
+        const isChild = (line: string, indent: number) =>
+            indentOf(line) > indent || (indent >= 0 && indentOf(line) === indent && isListItem(line));
+
+        // The lines [start, end) that belong to the current field and its indentation
+        let start = 1;
+        let parentIndent = -1;
+        let foundLine = 0;
+
+        for (const segment of fieldPath.match(/[^.[\]]+|\[\d+\]/g) ?? []) {
+            const children: number[] = [];
+            for (let index = start; index < end; index++) {
+                if (isContent(lines[index])) {
+                    children.push(index);
+                }
+            }
+            if (children.length === 0) {
+                break;
+            }
+
+            const childIndent = Math.min(...children.map(index => indentOf(lines[index])));
+            const direct = children.filter(index => indentOf(lines[index]) === childIndent);
+            let match: number | undefined;
+
+            if (segment.startsWith('[')) {
+                match = direct.filter(index => isListItem(lines[index]))[parseInt(segment.slice(1, -1), 10)];
+            } else {
+                const escaped = segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+                const keyPattern = new RegExp(`^\\s*(-\\s+)?["']?${escaped}["']?\\s*:`);
+                match = direct.find(index => keyPattern.test(lines[index]));
+            }
+
+            if (match === undefined) {
+                break;
+            }
+
+            // Nested fields of a list item are indented past its dash
+            foundLine = match;
+            parentIndent = isListItem(lines[match]) ? indentOf(lines[match]) + 1 : indentOf(lines[match]);
+            start = match + 1;
+
+            let next = start;
+            while (next < end && (!isContent(lines[next]) || isChild(lines[next], parentIndent))) {
+                next++;
+            }
+            end = next;
+        }
+
+        return foundLine;
+    }
+
     /**
      * Extracts the YAML frontmatter and markdown content from the file
      */
@@ -87,7 +214,9 @@ export class MemoryFileParser {
         }
 
         if (closingDelimiterIndex === -1) {
-            throw new FrontmatterParseError('Could not find closing frontmatter delimiter (---)');
+            // The delimiter is missing at the end of the frontmatter, i.e. the end of the file
+            const lastLine = lines.length - 1;
+            throw new FrontmatterParseError('Could not find closing frontmatter delimiter (---)', lastLine, lines[lastLine].length);
         }
 
         // Extract YAML content (between delimiters)
@@ -120,42 +249,59 @@ export class MemoryFileParser {
             if (error instanceof FrontmatterParseError) {
                 throw error;
             }
+
+            if (error instanceof yaml.YAMLException && error.mark) {
+                // The YAML starts on the line after the opening delimiter
+                const line = error.mark.line + 1;
+                const column = error.mark.column;
+                throw new FrontmatterParseError(
+                    `Failed to parse YAML: ${error.reason} (line ${line + 1}, column ${column + 1})`,
+                    line,
+                    column
+                );
+            }
+
             throw new FrontmatterParseError(`Failed to parse YAML: ${(error as Error).message}`);
         }
     }
 
     /**
      * Validates that the frontmatter contains required fields
+     * Missing fields are reported on the opening delimiter, invalid fields on their own line
      */
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    private static validateFrontmatter(frontmatter: any): asserts frontmatter is MemoryFileFrontmatter {
+    private static validateFrontmatter(frontmatter: any, content: string): asserts frontmatter is MemoryFileFrontmatter {
+        const fail = (message: string, fieldPath?: string) => {
+            throw new FrontmatterValidationError(message, fieldPath ? this.findFieldLine(content, fieldPath) : 0);
+        };
+
         // Check for title
         if (!frontmatter.title) {
-            throw new FrontmatterValidationError('Missing required field: title');
+            fail('Missing required field: title');
         }
 
         if (typeof frontmatter.title !== 'string') {
-            throw new FrontmatterValidationError('Field "title" must be a string');
+            fail('Field "title" must be a string', 'title');
         }
 
         // Check for tags
         if (!frontmatter.tags) {
-            throw new FrontmatterValidationError('Missing required field: tags');
+            fail('Missing required field: tags');
         }
 
         if (!Array.isArray(frontmatter.tags)) {
-            throw new FrontmatterValidationError('Field "tags" must be an array');
+            fail('Field "tags" must be an array', 'tags');
         }
 
         if (frontmatter.tags.length === 0) {
-            throw new FrontmatterValidationError('Field "tags" must contain at least one tag');
+            fail('Field "tags" must contain at least one tag', 'tags');
         }
 
         // Validate that all tags are strings
-        for (const tag of frontmatter.tags) {
+        frontmatter.tags.forEach((tag: unknown, index: number) => {
             if (typeof tag !== 'string') {
-                throw new FrontmatterValidationError('All tags must be strings');
+                fail('All tags must be strings', `tags[${index}]`);
             }
-        }
+        });
     }
 }
@@ -1,13 +1,39 @@
 import { MemoryFileFrontmatter } from './MemoryFileParser';
+import { Emitter, Event } from './Emitter';
+
+/**
+ * Describes where a memory file comes from
+ */
+export interface MemoryOrigin {
+    /** Name of the workspace folder the memory belongs to (undefined outside a workspace) */
+    workspaceFolder?: string;
+    /** True for memories from the user-global library shared across all workspaces */
+    isGlobal?: boolean;
+}
+
+/**
+ * File information used to detect whether a memory file changed since it was indexed
+ */
+export interface MemoryFileInfo {
+    /** Modification time of the file (milliseconds since epoch) */
+    mtime: number;
+    /** Size of the file in bytes */
+    size: number;
+    /** Hash of the file content */
+    hash: string;
+}
 
 /**
  * Represents a memory entry in the index
  */
-export interface MemoryIndexEntry {
+export interface MemoryIndexEntry extends MemoryOrigin {
     filePath: string;
     frontmatter: MemoryFileFrontmatter;
     content: string;
     lastModified: Date;
+    fileInfo?: MemoryFileInfo;
+    /** True for global memories hidden by a workspace memory with the same id or title */
+    isOverridden?: boolean;
 }
 
 /**
@@ -17,10 +43,33 @@ export interface MemoryIndexEntry {
  * - Uses Map for O(1) lookup performance with large collections
  * - Stores only primary file content (no linked content for lazy loading)
  * - Proper cleanup via clear() method to prevent memory leaks
+ *
+ * Changes are announced through events. Between beginBatch() and endBatch() they are collected
+ * and fired once at the end, so a synchronization of many files causes one event per kind.
  */
 export class MemoryIndex {
     private index: Map<string, MemoryIndexEntry>;
 
+    private addEmitter = new Emitter<MemoryIndexEntry[]>();
+    private updateEmitter = new Emitter<MemoryIndexEntry[]>();
+    private removeEmitter = new Emitter<MemoryIndexEntry[]>();
+    private clearEmitter = new Emitter<void>();
+
+    /** Fired with the entries added to the index */
+    public readonly onDidAdd: Event<MemoryIndexEntry[]> = this.addEmitter.event;
+    /** Fired with the entries whose file was indexed again */
+    public readonly onDidUpdate: Event<MemoryIndexEntry[]> = this.updateEmitter.event;
+    /** Fired with the entries removed from the index */
+    public readonly onDidRemove: Event<MemoryIndexEntry[]> = this.removeEmitter.event;
+    /** Fired when the whole index was cleared (no onDidRemove is fired for the cleared entries) */
+    public readonly onDidClear: Event<void> = this.clearEmitter.event;
+
+    private batchDepth = 0;
+    private pendingClear = false;
+    private pendingAdded = new Map<string, MemoryIndexEntry>();
+    private pendingUpdated = new Map<string, MemoryIndexEntry>();
+    private pendingRemoved = new Map<string, MemoryIndexEntry>();
+
     constructor() {
         this.index = new Map();
     }
@@ -30,16 +79,36 @@ export class MemoryIndex {
      * @param filePath The file path (used as the key)
      * @param frontmatter The parsed frontmatter
      * @param content The markdown content
+     * @param origin Where the file comes from (workspace folder or global library)
+     * @param fileInfo Optional file information used by the persistent index cache
      */
-    public add(filePath: string, frontmatter: MemoryFileFrontmatter, content: string): void {
+    public add(
+        filePath: string,
+        frontmatter: MemoryFileFrontmatter,
+        content: string,
+        origin: MemoryOrigin = {},
+        fileInfo?: MemoryFileInfo
+    ): void {
         const entry: MemoryIndexEntry = {
             filePath,
             frontmatter,
             content,
-            lastModified: new Date()
+            lastModified: new Date(),
+            ...origin,
+            fileInfo
         };
 
+        const existed = this.index.has(filePath);
         this.index.set(filePath, entry);
+
+        if (this.pendingAdded.has(filePath) || (!existed && !this.pendingRemoved.has(filePath))) {
+            this.pendingAdded.set(filePath, entry);
+        } else {
+            // Removed and added again within the batch counts as an update
+            this.pendingRemoved.delete(filePath);
+            this.pendingUpdated.set(filePath, entry);
+        }
+        this.flush();
     }
 
     /**
@@ -47,14 +116,15 @@ export class MemoryIndex {
      * @param filePath The file path
      * @param frontmatter The updated frontmatter
      * @param content The updated content
+     * @param origin Where the file comes from (workspace folder or global library)
      * @returns true if the entry was updated, false if it didn't exist
      */
-    public update(filePath: string, frontmatter: MemoryFileFrontmatter, content: string): boolean {
+    public update(filePath: string, frontmatter: MemoryFileFrontmatter, content: string, origin: MemoryOrigin = {}): boolean {
         if (!this.index.has(filePath)) {
             return false;
         }
 
-        this.add(filePath, frontmatter, content);
+        this.add(filePath, frontmatter, content, origin);
         return true;
     }
 
@@ -64,7 +134,41 @@ export class MemoryIndex {
      * @returns true if the entry was removed, false if it didn't exist
      */
     public remove(filePath: string): boolean {
-        return this.index.delete(filePath);
+        const entry = this.index.get(filePath);
+        if (!entry) {
+            return false;
+        }
+
+        this.index.delete(filePath);
+
+        // An entry added within the batch simply disappears again
+        if (!this.pendingAdded.delete(filePath)) {
+            this.pendingUpdated.delete(filePath);
+            this.pendingRemoved.set(filePath, entry);
+        }
+        this.flush();
+        return true;
+    }
+
+    /**
+     * Marks a global memory as hidden by a workspace memory with the same id or title, or as visible again
+     * Fires onDidUpdate, so indexes built from the entries can leave out hidden memories
+     * @param filePath The file path
+     * @param overridden Whether the memory is hidden
+     * @returns true if the entry changed, false if it didn't exist or was already marked
+     */
+    public setOverridden(filePath: string, overridden: boolean): boolean {
+        const entry = this.index.get(filePath);
+        if (!entry || (entry.isOverridden === true) === overridden) {
+            return false;
+        }
+
+        entry.isOverridden = overridden;
+        if (!this.pendingAdded.has(filePath)) {
+            this.pendingUpdated.set(filePath, entry);
+        }
+        this.flush();
+        return true;
     }
 
     /**
@@ -98,6 +202,61 @@ export class MemoryIndex {
      */
     public clear(): void {
         this.index.clear();
+
+        this.pendingClear = true;
+        this.pendingAdded.clear();
+        this.pendingUpdated.clear();
+        this.pendingRemoved.clear();
+        this.flush();
+    }
+
+    /**
+     * Starts collecting change events until the matching endBatch() call
+     * Batches can be nested; events are fired when the outermost batch ends
+     */
+    public beginBatch(): void {
+        this.batchDepth++;
+    }
+
+    /**
+     * Ends a batch started with beginBatch() and fires the collected events
+     */
+    public endBatch(): void {
+        this.batchDepth = Math.max(0, this.batchDepth - 1);
+        this.flush();
+    }
+
+    /**
+     * Fires the collected events unless a batch is in progress
+     * Order: clear, remove, add, update
+     */
+    private flush(): void {
+        if (this.batchDepth > 0) {
+            return;
+        }
+
+        const cleared = this.pendingClear;
+        const removed = Array.from(this.pendingRemoved.values());
+        const added = Array.from(this.pendingAdded.values());
+        const updated = Array.from(this.pendingUpdated.values());
+
+        this.pendingClear = false;
+        this.pendingRemoved.clear();
+        this.pendingAdded.clear();
+        this.pendingUpdated.clear();
+
+        if (cleared) {
+            this.clearEmitter.fire();
+        }
+        if (removed.length > 0) {
+            this.removeEmitter.fire(removed);
+        }
+        if (added.length > 0) {
+            this.addEmitter.fire(added);
+        }
+        if (updated.length > 0) {
+            this.updateEmitter.fire(updated);
+        }
     }
 
     /**
@@ -107,6 +266,15 @@ export class MemoryIndex {
         return this.index.size;
     }
 
+    /**
+     * Retrieves all memory entries that belong to a workspace folder
+     * @param workspaceFolder Name of the workspace folder
+     * @returns Array of memory entries from that folder
+     */
+    public getByWorkspaceFolder(workspaceFolder: string): MemoryIndexEntry[] {
+        return this.getAll().filter(entry => entry.workspaceFolder === workspaceFolder);
+    }
+
     /**
      * Gets all file paths in the index
      */
@@ -0,0 +1,125 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { MemoryFileFrontmatter } from './MemoryFileParser';
+import { MemoryIndexEntry, MemoryFileInfo } from './MemoryIndex';
+import { Logger } from './Logger';
+
+/**
+ * A memory entry as stored in the on-disk cache
+ * The tag system is rebuilt from the cached frontmatter tags, so it does not need its own section
+ */
+export interface CachedMemoryEntry extends MemoryFileInfo {
+    filePath: string;
+    frontmatter: MemoryFileFrontmatter;
+    content: string;
+}
+
+/**
+ * Shape of the cache file
+ */
+interface MemoryIndexCacheData {
+    version: number;
+    entries: CachedMemoryEntry[];
+}
+
+/**
+ * Persistent on-disk cache of the memory index
+ * Feature 10, Story 1: Avoids re-reading and re-parsing unchanged files on activation
+ *
+ * Entries are matched against the files on disk by modification time and size first,
+ * then by content hash, so only changed files go through the YAML parser again.
+ */
+export class MemoryIndexCache {
+    /**
+     * Version of the cache format; bump it whenever the stored shape or parsing rules change
+     * so that stale caches are ignored and the index is fully rebuilt
+     */
+    public static readonly FORMAT_VERSION = 1;
+
+    public static readonly FILE_NAME = 'memory-index-cache.json';
+
+    private readonly cacheFile: vscode.Uri;
+
+    /**
+     * @param storageFolder Folder holding the cache file (usually the extension's workspace storage)
+     */
+    constructor(private readonly storageFolder: vscode.Uri) {
+        this.cacheFile = vscode.Uri.joinPath(storageFolder, MemoryIndexCache.FILE_NAME);
+    }
+
+    /**
+     * Loads the cached entries
+     * @returns Map of file paths to cached entries; empty if the cache is missing, corrupt or outdated
+     */
+    public async load(): Promise<Map<string, CachedMemoryEntry>> {
+        const entries = new Map<string, CachedMemoryEntry>();
+
+        try {
+            const raw = await vscode.workspace.fs.readFile(this.cacheFile);
+            const data = JSON.parse(Buffer.from(raw).toString('utf8')) as MemoryIndexCacheData;
+
+            if (!data || data.version !== MemoryIndexCache.FORMAT_VERSION || !Array.isArray(data.entries)) {
+                Logger.getInstance().info('Memory index cache format changed, performing a full rebuild');
+                return entries;
+            }
+
+            for (const entry of data.entries) {
+                if (MemoryIndexCache.isValidEntry(entry)) {
+                    entries.set(entry.filePath, entry);
+                }
+            }
+        } catch {
+            // Missing or unreadable cache - fall back to a full rebuild
+        }
+
+        return entries;
+    }
+
+    /**
+     * Saves the index entries that carry file information
+     * @param indexEntries The current memory index entries
+     */
+    public async save(indexEntries: MemoryIndexEntry[]): Promise<void> {
+        const data: MemoryIndexCacheData = {
+            version: MemoryIndexCache.FORMAT_VERSION,
+            entries: indexEntries
+                .filter(entry => entry.fileInfo)
+                .map(entry => ({
+                    filePath: entry.filePath,
+                    frontmatter: entry.frontmatter,
+                    content: entry.content,
+                    ...entry.fileInfo!
+                }))
+        };
+
+        try {
+            await vscode.workspace.fs.createDirectory(this.storageFolder);
+            await vscode.workspace.fs.writeFile(this.cacheFile, Buffer.from(JSON.stringify(data), 'utf8'));
+        } catch (error) {
+            Logger.getInstance().warn('Failed to save memory index cache', error instanceof Error ? error.message : String(error));
+        }
+    }
+
+    /**
+     * Computes the content hash used to detect changed files
+     * @param content The file content
+     */
+    public static computeHash(content: string): string {
+        return crypto.createHash('sha1').update(content).digest('hex');
+    }
+
+    /**
+     * Checks that a cached entry has the expected shape
+     */
+    private static isValidEntry(entry: CachedMemoryEntry): boolean {
+        return !!entry &&
+            typeof entry.filePath === 'string' &&
+            typeof entry.content === 'string' &&
+            typeof entry.hash === 'string' &&
+            typeof entry.mtime === 'number' &&
+            typeof entry.size === 'number' &&
+            !!entry.frontmatter &&
+            typeof entry.frontmatter.title === 'string' &&
+            Array.isArray(entry.frontmatter.tags);
+    }
+}
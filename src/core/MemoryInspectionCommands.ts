@@ -136,31 +136,24 @@ export class MemoryInspectionCommands {
     }
 
     /**
-     * Manually triggers a full re-scan and re-indexing of the Memory folder
+     * Manually triggers a full re-scan and re-indexing of the configured memory folders
      */
     private async rebuildMemoryIndex(): Promise<void> {
         try {
             vscode.window.showInformationMessage('Rebuilding memory index...');
 
-            // Clear current index and tag system
-            this.memoryIndex.clear();
-            this.tagSystem.clear();
-
-            // Find all memory files
-            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-            if (!workspaceFolder) {
+            // Resolve the workspace folders
+            const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+            if (workspaceFolders.length === 0) {
                 vscode.window.showErrorMessage('No workspace folder found.');
                 return;
             }
 
-            const memoryPattern = new vscode.RelativePattern(workspaceFolder, 'Memory/**/*.md');
-            const memoryFiles = await vscode.workspace.findFiles(memoryPattern);
-
-            // Re-index all files
-            await this.memoryManagerService.initialSync(memoryFiles);
+            // Clear the current index and re-parse all files from the configured locations (bypassing the cache)
+            const fileCount = await this.memoryManagerService.watchWorkspaceFolders(workspaceFolders, false);
 
             vscode.window.showInformationMessage(
-                `Memory index rebuilt successfully. ${memoryFiles.length} file(s) processed.`
+                `Memory index rebuilt successfully. ${fileCount} file(s) processed.`
             );
         } catch (error) {
             vscode.window.showErrorMessage(
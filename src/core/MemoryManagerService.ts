@@ -3,8 +3,15 @@ import { FileWatcherSystem } from './FileWatcherSystem';
 import { MemorySynchronizationService } from './MemorySynchronizationService';
 import { MemoryIndex } from './MemoryIndex';
 import { TagSystem } from './TagSystem';
+import { FullTextIndex } from './FullTextIndex';
+import { AppliesToIndex } from './AppliesToIndex';
+import { TagVocabulary } from './TagVocabulary';
+import { Disposable } from './Emitter';
 import { StatusBarManager } from './StatusBarManager';
 import { AsyncQueue } from './AsyncQueue';
+import { MemoryConfiguration, MemoryLocationSettings } from './MemoryConfiguration';
+import { MemoryIndexCache } from './MemoryIndexCache';
+import { Logger } from './Logger';
 
 /**
  * Main service that integrates file watching with memory synchronization
@@ -16,12 +23,38 @@ export class MemoryManagerService {
     private syncService: MemorySynchronizationService;
     private memoryIndex: MemoryIndex;
     private tagSystem: TagSystem;
+    private fullTextIndex: FullTextIndex;
+    private fullTextIndexWatch: Disposable;
+    private appliesToIndex: AppliesToIndex;
+    private appliesToIndexWatch: Disposable;
     private statusBarManager: StatusBarManager;
     private eventQueue: AsyncQueue;
+    /** Settles the promise of the rebuild waiting on the event queue like the rebuild superseding it */
+    private supersedeQueuedRebuild?: (rebuild: Promise<void>) => void;
+    private fileFilter?: (uri: vscode.Uri) => boolean;
+    private handlersRegistered = false;
+    private globalFolder?: vscode.Uri;
+    private indexCache?: MemoryIndexCache;
+    private cacheSaveTimer?: ReturnType<typeof setTimeout>;
+    private schemaLocations: { folder: vscode.Uri; schemaPath: string; vocabularyPath: string }[] = [];
+    private schemaWatchers: vscode.FileSystemWatcher[] = [];
+    private tagAliasLocations: { folder: vscode.Uri; aliasesPath: string }[] = [];
+    private tagAliasWatchers: vscode.FileSystemWatcher[] = [];
+    private indexChangeEmitter = new vscode.EventEmitter<void>();
+
+    /**
+     * Fired after file events, rebuilds or workspace folder changes updated the index
+     */
+    public readonly onDidChangeIndex = this.indexChangeEmitter.event;
+    private static readonly CACHE_SAVE_DELAY_MS = 2000;
 
     constructor() {
         this.memoryIndex = new MemoryIndex();
         this.tagSystem = new TagSystem();
+        this.fullTextIndex = new FullTextIndex();
+        this.fullTextIndexWatch = this.fullTextIndex.watch(this.memoryIndex);
+        this.appliesToIndex = new AppliesToIndex();
+        this.appliesToIndexWatch = this.appliesToIndex.watch(this.memoryIndex);
         this.syncService = new MemorySynchronizationService(this.memoryIndex, this.tagSystem);
         this.fileWatcher = new FileWatcherSystem();
         this.statusBarManager = StatusBarManager.getInstance();
@@ -30,39 +63,275 @@ export class MemoryManagerService {
 
     /**
      * Starts the memory manager service
-     * @param memoryFolderPattern Glob pattern for memory files
+     * Calling it again re-watches with the new pattern without registering duplicate handlers
+     * @param memoryFolderPattern Glob pattern for memory files, or one pattern per watched location
+     * @param fileFilter Optional filter; events for files it rejects (e.g., excluded files) are ignored
      *
      * Feature 10, Story 3: File events are queued for sequential processing
      * to prevent race conditions when multiple files change simultaneously
      */
-    public start(memoryFolderPattern: string): void {
-        // Register handlers for file events
-        // Each event is enqueued for sequential processing
+    public start(memoryFolderPattern: vscode.GlobPattern | vscode.GlobPattern[], fileFilter?: (uri: vscode.Uri) => boolean): void {
+        this.fileFilter = fileFilter;
+
+        if (!this.handlersRegistered) {
+            this.registerFileHandlers();
+            this.handlersRegistered = true;
+        }
+
+        // Start watching
+        this.fileWatcher.startWatching(memoryFolderPattern);
+    }
+
+    /**
+     * Registers handlers for file events
+     * Each event is enqueued for sequential processing
+     */
+    private registerFileHandlers(): void {
         this.fileWatcher.onFileCreated((uri) => {
-            this.eventQueue.enqueue(async () => {
-                await this.syncService.handleFileCreateOrChange(uri);
-                this.statusBarManager.updateStatusBar();
-            });
+            if (!this.acceptsFile(uri)) {
+                return;
+            }
+            this.enqueueSync(() => this.syncService.handleFileCreateOrChange(uri));
         });
 
         // When a file changes, use refreshFile for silent recovery
         // This automatically handles files that transition from invalid to valid
         this.fileWatcher.onFileChanged((uri) => {
-            this.eventQueue.enqueue(async () => {
-                await this.syncService.refreshFile(uri.fsPath);
-                this.statusBarManager.updateStatusBar();
-            });
+            if (!this.acceptsFile(uri)) {
+                return;
+            }
+            this.enqueueSync(() => this.syncService.refreshFile(uri.fsPath));
         });
 
+        // Deletions are never filtered so that files excluded later still leave the index
         this.fileWatcher.onFileDeleted((uri) => {
-            this.eventQueue.enqueue(async () => {
-                this.syncService.handleFileDelete(uri);
-                this.statusBarManager.updateStatusBar();
+            this.enqueueSync(async () => this.syncService.handleFileDelete(uri));
+        });
+    }
+
+    /**
+     * Queues a synchronization task
+     * The index and tag events it causes are fired as one batch when the task is done
+     */
+    private enqueueSync(task: () => Promise<void>): void {
+        this.eventQueue.enqueue(async () => {
+            this.syncService.beginBatch();
+            try {
+                await task();
+            } finally {
+                this.syncService.endBatch();
+            }
+            this.onIndexChanged();
+        });
+    }
+
+    /**
+     * Checks whether a file event should be processed
+     */
+    private acceptsFile(uri: vscode.Uri): boolean {
+        return !this.fileFilter || this.fileFilter(uri);
+    }
+
+    /**
+     * Watches and indexes the memory files of every workspace folder (and the global library) using the configured locations
+     * Re-watches and rebuilds the index from scratch, so it can be called again when the settings change
+     * @param workspaceFolders The workspace folders that contain the memory folders
+     * @param useCache Whether unchanged files may be restored from the persistent index cache
+     * @returns The number of memory files found
+     */
+    public async watchWorkspaceFolders(
+        workspaceFolders: readonly vscode.WorkspaceFolder[],
+        useCache: boolean = true
+    ): Promise<number> {
+        const settings = MemoryConfiguration.getLocationSettings();
+        this.watchFolders(workspaceFolders, settings);
+
+        const memoryFiles: vscode.Uri[] = [];
+        for (const workspaceFolder of workspaceFolders) {
+            memoryFiles.push(...await MemoryConfiguration.findMemoryFiles(workspaceFolder, settings));
+        }
+
+        if (this.globalFolder) {
+            memoryFiles.push(...await MemoryConfiguration.findGlobalMemoryFiles(this.globalFolder, settings));
+        }
+
+        await this.rebuild(memoryFiles, useCache);
+
+        return memoryFiles.length;
+    }
+
+    /**
+     * Updates the watched folders and the index after workspace folders are added or removed
+     * Only the memories of the added and removed folders are synchronized
+     * @param workspaceFolders All workspace folders after the change
+     * @param event The change event describing added and removed folders
+     */
+    public async handleWorkspaceFoldersChanged(
+        workspaceFolders: readonly vscode.WorkspaceFolder[],
+        event: vscode.WorkspaceFoldersChangeEvent
+    ): Promise<void> {
+        const settings = MemoryConfiguration.getLocationSettings();
+        this.watchFolders(workspaceFolders, settings);
+
+        await this.loadSchemas();
+        await this.loadTagAliases();
+
+        const removedFolders = new Set(event.removed.map(folder => folder.name));
+        const addedFiles: vscode.Uri[] = [];
+        for (const workspaceFolder of event.added) {
+            addedFiles.push(...await MemoryConfiguration.findMemoryFiles(workspaceFolder, settings));
+        }
+
+        this.enqueueSync(async () => {
+            this.syncService.applyTagAliases();
+
+            for (const entry of this.memoryIndex.getAll()) {
+                if (entry.workspaceFolder && removedFolders.has(entry.workspaceFolder)) {
+                    this.syncService.handleFileDelete(vscode.Uri.file(entry.filePath));
+                }
+            }
+
+            await this.syncService.synchronizeBatch(addedFiles);
+        });
+    }
+
+    /**
+     * Sets the folder of the user-global memory library
+     * Takes effect on the next call to watchWorkspaceFolders
+     * @param globalFolder The global folder, or undefined to disable global memories
+     */
+    public setGlobalFolder(globalFolder: vscode.Uri | undefined): void {
+        this.globalFolder = globalFolder;
+        this.syncService.setGlobalFolder(globalFolder?.fsPath);
+    }
+
+    /**
+     * Starts one watcher per workspace folder (plus the global folder), filtering events with the location settings
+     */
+    private watchFolders(workspaceFolders: readonly vscode.WorkspaceFolder[], settings: MemoryLocationSettings): void {
+        const includePattern = MemoryConfiguration.getIncludePattern(settings);
+        const patterns: vscode.GlobPattern[] = workspaceFolders.map(folder => new vscode.RelativePattern(folder, includePattern));
+        const globalFolder = this.globalFolder;
+
+        if (globalFolder) {
+            patterns.push(new vscode.RelativePattern(globalFolder, settings.include));
+        }
+
+        this.watchSchemas(workspaceFolders, settings);
+        this.watchTagAliases(workspaceFolders, settings);
+
+        this.start(patterns, uri => {
+            if (globalFolder && MemoryConfiguration.isGlobalMemoryFile(globalFolder.fsPath, uri.fsPath, settings)) {
+                return true;
+            }
+
+            const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+            return !!workspaceFolder &&
+                MemoryConfiguration.isMemoryFile(workspaceFolder.uri.fsPath, uri.fsPath, settings);
+        });
+    }
+
+    /**
+     * Watches the frontmatter schema and tag vocabulary files of every workspace folder (plus the global folder)
+     * A changed file is reloaded and all memories are validated again
+     */
+    private watchSchemas(workspaceFolders: readonly vscode.WorkspaceFolder[], settings: MemoryLocationSettings): void {
+        this.disposeSchemaWatchers();
+
+        const schemaPath = MemoryConfiguration.getSchemaPath(settings);
+        const vocabularyPath = MemoryConfiguration.getTagVocabularyPath(settings);
+        this.schemaLocations = workspaceFolders.map(folder => ({ folder: folder.uri, schemaPath, vocabularyPath }));
+
+        if (this.globalFolder) {
+            this.schemaLocations.push({
+                folder: this.globalFolder,
+                schemaPath: MemoryConfiguration.SCHEMA_FILE_NAME,
+                vocabularyPath: MemoryConfiguration.TAG_VOCABULARY_FILE_NAME
             });
+        }
+
+        const reload = () => this.eventQueue.enqueue(async () => {
+            await this.loadSchemas();
+            await this.syncService.revalidateAll();
         });
 
-        // Start watching
-        this.fileWatcher.startWatching(memoryFolderPattern);
+        for (const location of this.schemaLocations) {
+            for (const filePath of [location.schemaPath, location.vocabularyPath]) {
+                const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(location.folder, filePath));
+                watcher.onDidCreate(reload);
+                watcher.onDidChange(reload);
+                watcher.onDidDelete(reload);
+                this.schemaWatchers.push(watcher);
+            }
+        }
+    }
+
+    /**
+     * Loads the frontmatter schemas and tag vocabularies of all watched folders
+     */
+    private async loadSchemas(): Promise<void> {
+        this.syncService.clearSchemas();
+        this.syncService.clearTagVocabularies();
+
+        for (const location of this.schemaLocations) {
+            await this.syncService.loadSchema(location.folder.fsPath, vscode.Uri.joinPath(location.folder, location.schemaPath));
+            await this.syncService.loadTagVocabulary(location.folder.fsPath, vscode.Uri.joinPath(location.folder, location.vocabularyPath));
+        }
+    }
+
+    private disposeSchemaWatchers(): void {
+        for (const watcher of this.schemaWatchers) {
+            watcher.dispose();
+        }
+        this.schemaWatchers = [];
+    }
+
+    /**
+     * Watches the tag aliases file of every workspace folder (plus the global folder)
+     * Changed aliases are reloaded, the tags of all memories re-indexed and all memories validated again
+     */
+    private watchTagAliases(workspaceFolders: readonly vscode.WorkspaceFolder[], settings: MemoryLocationSettings): void {
+        this.disposeTagAliasWatchers();
+
+        const aliasesPath = MemoryConfiguration.getTagAliasesPath(settings);
+        this.tagAliasLocations = workspaceFolders.map(folder => ({ folder: folder.uri, aliasesPath }));
+
+        if (this.globalFolder) {
+            this.tagAliasLocations.push({ folder: this.globalFolder, aliasesPath: MemoryConfiguration.TAG_ALIASES_FILE_NAME });
+        }
+
+        const reload = () => this.enqueueSync(async () => {
+            await this.loadTagAliases();
+            this.syncService.applyTagAliases();
+            await this.syncService.revalidateAll();
+        });
+
+        for (const location of this.tagAliasLocations) {
+            const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(location.folder, location.aliasesPath));
+            watcher.onDidCreate(reload);
+            watcher.onDidChange(reload);
+            watcher.onDidDelete(reload);
+            this.tagAliasWatchers.push(watcher);
+        }
+    }
+
+    /**
+     * Loads the tag aliases of all watched folders
+     * The tag system uses them once MemorySynchronizationService.applyTagAliases is called
+     */
+    private async loadTagAliases(): Promise<void> {
+        this.syncService.clearTagAliases();
+
+        for (const location of this.tagAliasLocations) {
+            await this.syncService.loadTagAliases(location.folder.fsPath, vscode.Uri.joinPath(location.folder, location.aliasesPath));
+        }
+    }
+
+    private disposeTagAliasWatchers(): void {
+        for (const watcher of this.tagAliasWatchers) {
+            watcher.dispose();
+        }
+        this.tagAliasWatchers = [];
     }
 
     /**
@@ -86,6 +355,27 @@ export class MemoryManagerService {
         return this.tagSystem;
     }
 
+    /**
+     * Gets the tag vocabularies of all watched folders combined
+     */
+    public getTagVocabulary(): TagVocabulary {
+        return this.syncService.getTagVocabulary();
+    }
+
+    /**
+     * Gets the full-text index, kept in sync with the memory index
+     */
+    public getFullTextIndex(): FullTextIndex {
+        return this.fullTextIndex;
+    }
+
+    /**
+     * Gets the index of the `appliesTo` globs, kept in sync with the memory index
+     */
+    public getAppliesToIndex(): AppliesToIndex {
+        return this.appliesToIndex;
+    }
+
     /**
      * Manually refreshes a specific file
      * @param filePath The file path to refresh
@@ -102,13 +392,138 @@ export class MemoryManagerService {
         await this.syncService.synchronizeBatch(uris);
     }
 
+    /**
+     * Clears the index and re-synchronizes it from scratch
+     * Used when the memory locations change or a full rebuild is requested
+     * @param uris Array of file URIs that make up the new index
+     * @param useCache Whether unchanged files may be restored from the persistent index cache
+     * @returns A promise settled once the rebuild ran on the event queue, after the task in progress
+     * (or once the rebuild superseding it ran)
+     */
+    public rebuild(uris: vscode.Uri[], useCache: boolean = true): Promise<void> {
+        // Pending events and rebuilds are superseded by the rebuild; events arriving during it are processed afterwards
+        const supersedePrevious = this.supersedeQueuedRebuild;
+        this.eventQueue.clear();
+
+        const rebuild = new Promise<void>((resolve, reject) => {
+            const supersede = (next: Promise<void>) => next.then(resolve, reject);
+            this.supersedeQueuedRebuild = supersede;
+
+            this.eventQueue.enqueue(async () => {
+                if (this.supersedeQueuedRebuild === supersede) {
+                    this.supersedeQueuedRebuild = undefined;
+                }
+
+                try {
+                    await this.rebuildIndex(uris, useCache);
+                    resolve();
+                } catch (error) {
+                    reject(error);
+                }
+            });
+        });
+
+        supersedePrevious?.(rebuild);
+        return rebuild;
+    }
+
+    /**
+     * Clears the index and re-synchronizes it; runs as a task of the event queue
+     */
+    private async rebuildIndex(uris: vscode.Uri[], useCache: boolean): Promise<void> {
+        // Clearing and re-adding the memories is announced as one batch of events
+        this.syncService.beginBatch();
+        try {
+            this.syncService.reset();
+            await this.loadSchemas();
+            await this.loadTagAliases();
+            this.syncService.applyTagAliases();
+
+            if (this.indexCache && useCache) {
+                const cachedEntries = await this.indexCache.load();
+                const restoredCount = await this.syncService.synchronizeBatchWithCache(uris, cachedEntries);
+                Logger.getInstance().info(`Memory index loaded: ${restoredCount} of ${uris.length} file(s) restored from cache`);
+            } else {
+                await this.syncService.synchronizeBatch(uris);
+            }
+        } finally {
+            this.syncService.endBatch();
+        }
+
+        this.statusBarManager.updateStatusBar();
+        this.indexChangeEmitter.fire();
+        await this.saveCache();
+    }
+
+    /**
+     * Sets the persistent index cache used to speed up activation
+     * @param indexCache The cache, or undefined to disable caching (e.g., no workspace storage)
+     */
+    public setIndexCache(indexCache: MemoryIndexCache | undefined): void {
+        this.indexCache = indexCache;
+    }
+
+    /**
+     * Writes the current index to the persistent cache
+     */
+    public async saveCache(): Promise<void> {
+        if (this.cacheSaveTimer) {
+            clearTimeout(this.cacheSaveTimer);
+            this.cacheSaveTimer = undefined;
+        }
+
+        if (this.indexCache) {
+            await this.indexCache.save(this.memoryIndex.getAll());
+        }
+    }
+
+    /**
+     * Called after queued file events changed the index
+     */
+    private onIndexChanged(): void {
+        this.statusBarManager.updateStatusBar();
+        this.indexChangeEmitter.fire();
+        this.scheduleCacheSave();
+    }
+
+    /**
+     * Saves the cache shortly after the last change, so bursts of file events cause a single write
+     */
+    private scheduleCacheSave(): void {
+        if (!this.indexCache) {
+            return;
+        }
+
+        if (this.cacheSaveTimer) {
+            clearTimeout(this.cacheSaveTimer);
+        }
+
+        this.cacheSaveTimer = setTimeout(() => {
+            this.cacheSaveTimer = undefined;
+            this.saveCache();
+        }, MemoryManagerService.CACHE_SAVE_DELAY_MS);
+    }
+
     /**
      * Disposes of all resources
      */
     public dispose(): void {
+        if (this.cacheSaveTimer) {
+            clearTimeout(this.cacheSaveTimer);
+            this.cacheSaveTimer = undefined;
+        }
         this.fileWatcher.dispose();
+        this.disposeSchemaWatchers();
+        this.disposeTagAliasWatchers();
+        this.indexChangeEmitter.dispose();
+        this.handlersRegistered = false;
         this.syncService.clear();
+        this.fullTextIndexWatch.dispose();
+        this.appliesToIndexWatch.dispose();
         this.eventQueue.clear();
+        // A rebuild still waiting on the queue won't run anymore
+        this.supersedeQueuedRebuild?.(Promise.resolve());
+        this.supersedeQueuedRebuild = undefined;
     }
 
     /**
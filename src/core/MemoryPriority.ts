@@ -0,0 +1,76 @@
+import { MemoryFileFrontmatter } from './MemoryFileParser';
+
+/**
+ * Normalized priority scale of memory files
+ *
+ * Priorities are numbers from 1 (lowest) to 10 (highest). The names `low`, `medium` and `high`
+ * are shorthands for 3, 5 and 8. Memories without a valid priority count as medium.
+ */
+export class MemoryPriority {
+    public static readonly MIN = 1;
+    public static readonly MAX = 10;
+    public static readonly DEFAULT = 5;
+
+    public static readonly NAMED: Readonly<Record<string, number>> = {
+        low: 3,
+        medium: 5,
+        high: 8
+    };
+
+    /**
+     * Converts a priority frontmatter value to the normalized scale
+     * @param value The raw frontmatter value
+     * @returns The priority, or undefined if the value is missing or invalid
+     */
+    public static normalize(value: unknown): number | undefined {
+        if (typeof value === 'string') {
+            const name = value.trim().toLowerCase();
+            // Own keys only, so names like "constructor" aren't read from the object prototype
+            if (Object.prototype.hasOwnProperty.call(MemoryPriority.NAMED, name)) {
+                return MemoryPriority.NAMED[name];
+            }
+            value = name === '' ? NaN : Number(name);
+        }
+
+        if (typeof value !== 'number' || !Number.isFinite(value) || value < MemoryPriority.MIN || value > MemoryPriority.MAX) {
+            return undefined;
+        }
+
+        return value;
+    }
+
+    /**
+     * Gets the priority of a memory, falling back to the default for missing or invalid values
+     * @param frontmatter The memory's frontmatter (undefined for files that aren't indexed)
+     */
+    public static of(frontmatter: MemoryFileFrontmatter | undefined): number {
+        return MemoryPriority.normalize(frontmatter?.priority) ?? MemoryPriority.DEFAULT;
+    }
+
+    /**
+     * Validates a priority frontmatter value
+     * @param value The raw frontmatter value
+     * @returns An error message, or undefined if the value is valid or missing
+     */
+    public static validate(value: unknown): string | undefined {
+        if (value === undefined || value === null || MemoryPriority.normalize(value) !== undefined) {
+            return undefined;
+        }
+
+        return `Field "priority" must be ${Object.keys(MemoryPriority.NAMED).join(', ')} or a number from ` +
+            `${MemoryPriority.MIN} to ${MemoryPriority.MAX} (got ${JSON.stringify(value)}); the memory is treated as medium priority`;
+    }
+
+    /**
+     * Sorts file paths by the priority of their memories, highest first
+     * Files with equal priority keep their original order
+     * @param filePaths The file paths to sort
+     * @param getFrontmatter Looks up the frontmatter of a file
+     */
+    public static sort(filePaths: string[], getFrontmatter: (filePath: string) => MemoryFileFrontmatter | undefined): string[] {
+        return filePaths
+            .map((filePath, index) => ({ filePath, index, priority: MemoryPriority.of(getFrontmatter(filePath)) }))
+            .sort((a, b) => b.priority - a.priority || a.index - b.index)
+            .map(ranked => ranked.filePath);
+    }
+}
@@ -0,0 +1,241 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { DiagnosticReporter } from './DiagnosticReporter';
+import { MemoryFileParser } from './MemoryFileParser';
+
+/**
+ * Offers quick fixes for the frontmatter errors reported by the DiagnosticReporter
+ */
+export class MemoryQuickFixProvider implements vscode.CodeActionProvider {
+    public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    /** Tag used when a fix has to create the tags field */
+    public static readonly PLACEHOLDER_TAG = 'general';
+
+    private static readonly DELIMITER = '---';
+
+    /**
+     * Provides the quick fixes for the Memory Manager diagnostics in the requested range
+     */
+    public provideCodeActions(
+        document: vscode.TextDocument,
+        _range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext,
+        _token?: vscode.CancellationToken
+    ): vscode.CodeAction[] {
+        const actions: vscode.CodeAction[] = [];
+
+        for (const diagnostic of context.diagnostics) {
+            if (diagnostic.source !== DiagnosticReporter.SOURCE) {
+                continue;
+            }
+
+            const action = this.createFix(document, diagnostic);
+            if (action) {
+                action.diagnostics = [diagnostic];
+                action.isPreferred = true;
+                actions.push(action);
+            }
+        }
+
+        return actions;
+    }
+
+    /**
+     * Creates the quick fix for a single diagnostic, if there is one
+     */
+    private createFix(document: vscode.TextDocument, diagnostic: vscode.Diagnostic): vscode.CodeAction | undefined {
+        const message = diagnostic.message;
+        // Without the \r of CRLF files, so that replaced lines keep their line break
+        const lines = document.getText().split('\n').map(line => line.replace(/\r$/, ''));
+
+        if (message.includes('File does not start with YAML frontmatter delimiter')) {
+            return this.addFrontmatter(document, lines);
+        }
+        if (message.includes('Could not find closing frontmatter delimiter')) {
+            return this.addClosingDelimiter(document, lines);
+        }
+        if (message.includes('Missing required field: title')) {
+            return this.addTitle(document, lines);
+        }
+        if (message.includes('Field "tags" must be an array')) {
+            return this.convertTagsToList(document, lines);
+        }
+        if (message.includes('All tags must be strings')) {
+            return this.quoteTags(document, lines);
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Inserts a frontmatter skeleton at the top of the file
+     */
+    private addFrontmatter(document: vscode.TextDocument, lines: string[]): vscode.CodeAction {
+        const title = MemoryQuickFixProvider.deriveTitle(document.uri.fsPath, lines, 0);
+        const skeleton = [
+            MemoryQuickFixProvider.DELIMITER,
+            `title: ${JSON.stringify(title)}`,
+            'tags:',
+            `  - ${MemoryQuickFixProvider.PLACEHOLDER_TAG}`,
+            MemoryQuickFixProvider.DELIMITER,
+            '',
+            ''
+        ].join('\n');
+
+        return this.createAction('Add memory frontmatter', document, edit =>
+            edit.insert(document.uri, new vscode.Position(0, 0), skeleton));
+    }
+
+    /**
+     * Inserts the closing delimiter after the last line that looks like YAML
+     */
+    private addClosingDelimiter(document: vscode.TextDocument, lines: string[]): vscode.CodeAction {
+        let lastYamlLine = 0;
+
+        for (let index = 1; index < lines.length; index++) {
+            const line = lines[index];
+            if (line.trim() === '') {
+                continue;
+            }
+            // Keys, list items and indented (nested) values
+            if (!/^[\w"'-][^:]*:(\s|$)|^\s*-(\s|$)|^\s+\S/.test(line)) {
+                break;
+            }
+            lastYamlLine = index;
+        }
+
+        return this.createAction('Add closing frontmatter delimiter (---)', document, edit =>
+            edit.insert(document.uri, new vscode.Position(lastYamlLine + 1, 0), `${MemoryQuickFixProvider.DELIMITER}\n`));
+    }
+
+    /**
+     * Adds a title derived from the first heading or the file name
+     * An existing empty `title:` key is replaced, so that the frontmatter doesn't get a duplicate key
+     */
+    private addTitle(document: vscode.TextDocument, lines: string[]): vscode.CodeAction {
+        const closing = lines.findIndex((line, index) => index > 0 && line.trim() === MemoryQuickFixProvider.DELIMITER);
+        const title = MemoryQuickFixProvider.deriveTitle(document.uri.fsPath, lines, closing + 1);
+        const titleText = `title: ${JSON.stringify(title)}`;
+        const titleLine = MemoryFileParser.findFieldLine(lines.join('\n'), 'title');
+
+        return this.createAction(`Add title "${title}"`, document, edit => {
+            if (titleLine > 0 && /^["']?title["']?\s*:/.test(lines[titleLine])) {
+                edit.replace(document.uri, new vscode.Range(titleLine, 0, titleLine, lines[titleLine].length), titleText);
+            } else {
+                edit.insert(document.uri, new vscode.Position(1, 0), `${titleText}\n`);
+            }
+        });
+    }
+
+    /**
+     * Converts a scalar `tags: foo` (or `tags: foo, bar`) into a list
+     */
+    private convertTagsToList(document: vscode.TextDocument, lines: string[]): vscode.CodeAction | undefined {
+        const line = MemoryFileParser.findFieldLine(lines.join('\n'), 'tags');
+        const match = /^(\s*)(["']?tags["']?\s*:)\s*(.*?)\s*$/.exec(lines[line] ?? '');
+        if (!match || !match[3]) {
+            return undefined;
+        }
+
+        const value = match[3].replace(/^(["'])(.*)\1$/, '$2');
+        const tags = value.split(',').map(tag => tag.trim()).filter(tag => tag !== '');
+        const items = tags.map(tag => `${match[1]}  - ${MemoryQuickFixProvider.quoteIfNotString(tag)}`);
+
+        return this.createAction('Convert tags to a list', document, edit =>
+            edit.replace(
+                document.uri,
+                new vscode.Range(line, 0, line, lines[line].length),
+                [`${match[1]}${match[2]}`, ...items].join('\n')
+            ));
+    }
+
+    /**
+     * Wraps every tag that YAML doesn't read as a string (numbers, booleans, dates, ...) in quotes
+     */
+    private quoteTags(document: vscode.TextDocument, lines: string[]): vscode.CodeAction | undefined {
+        const tagsLine = MemoryFileParser.findFieldLine(lines.join('\n'), 'tags');
+        const replacements: { line: number; text: string }[] = [];
+
+        const flowMatch = /^(\s*["']?tags["']?\s*:\s*\[)(.*)(\]\s*)$/.exec(lines[tagsLine] ?? '');
+        if (flowMatch) {
+            const items = flowMatch[2].split(',').map(item => item.trim());
+            const quoted = items.map(item => MemoryQuickFixProvider.quoteIfNotString(item));
+            if (quoted.some((item, index) => item !== items[index])) {
+                replacements.push({ line: tagsLine, text: `${flowMatch[1]}${quoted.join(', ')}${flowMatch[3]}` });
+            }
+        } else {
+            for (let index = tagsLine + 1; index < lines.length; index++) {
+                const itemMatch = /^(\s*-\s+)(.*?)\s*$/.exec(lines[index]);
+                if (!itemMatch) {
+                    break;
+                }
+                const quoted = MemoryQuickFixProvider.quoteIfNotString(itemMatch[2]);
+                if (quoted !== itemMatch[2]) {
+                    replacements.push({ line: index, text: `${itemMatch[1]}${quoted}` });
+                }
+            }
+        }
+
+        if (replacements.length === 0) {
+            return undefined;
+        }
+
+        return this.createAction('Quote tags that are not strings', document, edit => {
+            for (const replacement of replacements) {
+                edit.replace(
+                    document.uri,
+                    new vscode.Range(replacement.line, 0, replacement.line, lines[replacement.line].length),
+                    replacement.text
+                );
+            }
+        });
+    }
+
+    private createAction(
+        title: string,
+        document: vscode.TextDocument,
+        addEdits: (edit: vscode.WorkspaceEdit) => void
+    ): vscode.CodeAction {
+        const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+        action.edit = new vscode.WorkspaceEdit();
+        addEdits(action.edit);
+        return action;
+    }
+
+    /**
+     * Derives a memory title from the first Markdown heading, falling back to the file name
+     * @param filePath Path of the memory file
+     * @param lines Lines of the file
+     * @param bodyStart First line of the Markdown body (after the frontmatter)
+     */
+    public static deriveTitle(filePath: string, lines: string[], bodyStart: number): string {
+        for (let index = Math.max(0, bodyStart); index < lines.length; index++) {
+            const heading = /^#{1,6}\s+(.+?)\s*#*\s*$/.exec(lines[index]);
+            if (heading) {
+                return heading[1];
+            }
+        }
+
+        return path.basename(filePath, path.extname(filePath))
+            .split(/[-_\s]+/)
+            .filter(word => word !== '')
+            .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+            .join(' ');
+    }
+
+    /**
+     * Quotes a YAML scalar unless it already reads as a string
+     */
+    private static quoteIfNotString(text: string): string {
+        let value: unknown;
+        try {
+            value = yaml.load(text);
+        } catch {
+            return text;
+        }
+
+        return typeof value === 'string' ? text : JSON.stringify(text);
+    }
+}
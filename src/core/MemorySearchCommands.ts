@@ -0,0 +1,119 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { FullTextIndex, FullTextMatch, FullTextSnippet } from './FullTextIndex';
+import { MemoryIndex } from './MemoryIndex';
+
+/**
+ * A full-text search result in the quick pick
+ */
+interface SearchResultItem extends vscode.QuickPickItem {
+    filePath: string;
+}
+
+/**
+ * Command for searching the content of memory files
+ * Shows the matches in a quick pick that updates while typing
+ */
+export class MemorySearchCommands {
+    /** Maximum number of results shown */
+    public static readonly MAX_RESULTS = 50;
+
+    constructor(
+        private readonly fullTextIndex: FullTextIndex,
+        private readonly memoryIndex: MemoryIndex
+    ) {}
+
+    /**
+     * Registers the search command
+     */
+    public registerCommands(context: vscode.ExtensionContext): void {
+        const searchCommand = vscode.commands.registerCommand(
+            'memory-manager.search',
+            (query?: string) => this.search(typeof query === 'string' ? query : '')
+        );
+        context.subscriptions.push(searchCommand);
+    }
+
+    /**
+     * Shows the search quick pick and opens the selected memory
+     * @param initialQuery Text to search for right away
+     */
+    public search(initialQuery = ''): Promise<void> {
+        const quickPick = vscode.window.createQuickPick<SearchResultItem>();
+        quickPick.title = 'Search Memories';
+        quickPick.placeholder = 'Search the content of memory files';
+        // Let VS Code highlight the search text in the titles and snippets
+        quickPick.matchOnDescription = true;
+        quickPick.matchOnDetail = true;
+
+        const update = (query: string) => {
+            quickPick.items = this.getItems(query);
+        };
+
+        return new Promise(resolve => {
+            let selected: SearchResultItem | undefined;
+
+            quickPick.onDidChangeValue(update);
+            quickPick.onDidAccept(() => {
+                selected = quickPick.selectedItems[0];
+                quickPick.hide();
+            });
+            quickPick.onDidHide(async () => {
+                quickPick.dispose();
+                if (selected) {
+                    const document = await vscode.workspace.openTextDocument(vscode.Uri.file(selected.filePath));
+                    await vscode.window.showTextDocument(document);
+                }
+                resolve();
+            });
+
+            quickPick.value = initialQuery;
+            update(initialQuery);
+            quickPick.show();
+        });
+    }
+
+    /**
+     * Searches the memories and builds the quick pick items
+     */
+    public getItems(query: string): SearchResultItem[] {
+        return this.fullTextIndex.search(query)
+            .slice(0, MemorySearchCommands.MAX_RESULTS)
+            .map(match => {
+                const entry = this.memoryIndex.get(match.filePath);
+                return {
+                    label: entry?.frontmatter.title ?? path.basename(match.filePath),
+                    description: path.basename(match.filePath),
+                    detail: FullTextIndex.getSnippet(entry?.content ?? '', match.terms).text,
+                    alwaysShow: true,
+                    filePath: match.filePath
+                };
+            });
+    }
+
+    /**
+     * Formats a search result for the chat, with the matched words of the snippet in bold
+     */
+    public formatMatch(match: FullTextMatch): string {
+        const entry = this.memoryIndex.get(match.filePath);
+        const title = entry?.frontmatter.title ?? path.basename(match.filePath);
+        const snippet = FullTextIndex.getSnippet(entry?.content ?? '', match.terms);
+
+        return `- **${title}** (${path.basename(match.filePath)}): ${MemorySearchCommands.highlight(snippet)}`;
+    }
+
+    /**
+     * Wraps the matched words of a snippet in Markdown bold markers
+     */
+    public static highlight(snippet: FullTextSnippet): string {
+        let result = '';
+        let position = 0;
+
+        for (const [start, end] of snippet.ranges) {
+            result += `${snippet.text.slice(position, start)}**${snippet.text.slice(start, end)}**`;
+            position = end;
+        }
+
+        return result + snippet.text.slice(position);
+    }
+}
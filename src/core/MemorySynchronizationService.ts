@@ -1,9 +1,22 @@
 import * as vscode from 'vscode';
-import { MemoryFileParser, FrontmatterValidationError, FrontmatterParseError } from './MemoryFileParser';
-import { MemoryIndex } from './MemoryIndex';
+import * as path from 'path';
+import {
+    MemoryFileParser,
+    MemoryFileFrontmatter,
+    ParsedMemoryFile,
+    FrontmatterValidationError,
+    FrontmatterParseError,
+    FrontmatterIssue
+} from './MemoryFileParser';
+import { MemoryIndex, MemoryOrigin, MemoryFileInfo } from './MemoryIndex';
+import { MemoryIndexCache, CachedMemoryEntry } from './MemoryIndexCache';
 import { TagSystem } from './TagSystem';
 import { ErrorReporter } from './ErrorReporter';
 import { DiagnosticReporter } from './DiagnosticReporter';
+import { FrontmatterSchema } from './FrontmatterSchema';
+import { TagAliases } from './TagAliases';
+import { TagNormalizer } from './TagNormalizer';
+import { TagVocabulary } from './TagVocabulary';
 
 /**
  * Service for synchronizing the in-memory index with file system changes
@@ -11,6 +24,15 @@ import { DiagnosticReporter } from './DiagnosticReporter';
 export class MemorySynchronizationService {
     private errorReporter: ErrorReporter;
     private diagnosticReporter: DiagnosticReporter;
+    private globalFolderPath?: string;
+    /** Identity key → number of workspace memories using it (see getIdentityKeys) */
+    private workspaceIdentityKeys = new Map<string, number>();
+    /** Identity key → global memories using it */
+    private globalFilesByIdentityKey = new Map<string, Set<string>>();
+    private schemas = new Map<string, FrontmatterSchema>();
+    private tagAliases = new Map<string, TagAliases>();
+    private tagVocabularies = new Map<string, TagVocabulary>();
+    private mergedTagVocabulary?: TagVocabulary;
 
     constructor(
         private memoryIndex: MemoryIndex,
@@ -34,31 +56,17 @@ export class MemorySynchronizationService {
             // Parse the file
             const parsed = MemoryFileParser.parse(content);
 
-            // Get the file path
-            const filePath = uri.fsPath;
-
-            // Check if this file already exists in the index
-            const existingEntry = this.memoryIndex.get(filePath);
-
-            // If it exists, remove old tags first
-            if (existingEntry) {
-                this.tagSystem.removeTags(filePath, existingEntry.frontmatter.tags);
-            }
-
-            // Add or update the entry in the memory index
-            this.memoryIndex.add(filePath, parsed.frontmatter, parsed.content);
-
-            // Add tags to the tag system
-            this.tagSystem.addTags(filePath, parsed.frontmatter.tags);
+            // Add or update the entry in the memory index and tag system
+            this.indexParsedFile(uri, parsed, await this.getFileInfo(uri, content));
 
-            // Clear any previous diagnostics for this file (it's now valid)
-            this.diagnosticReporter.clearDiagnostics(filePath);
+            // Replace any previous diagnostics for this file (it's now valid, but may violate the schema)
+            await this.reportProblems(uri, parsed.frontmatter, content);
 
         } catch (error) {
             // Report to Problems Panel with detailed validation errors
             if (error instanceof FrontmatterValidationError) {
                 // Validation error - show in Problems Panel
-                this.diagnosticReporter.reportValidationError(uri.fsPath, error.message, 0);
+                this.diagnosticReporter.reportValidationError(uri.fsPath, error.message, error.line, error.column);
                 this.errorReporter.reportError(
                     'YAML validation failed',
                     uri.fsPath,
@@ -66,7 +74,7 @@ export class MemorySynchronizationService {
                 );
             } else if (error instanceof FrontmatterParseError) {
                 // Parse error - show in Problems Panel
-                this.diagnosticReporter.reportYAMLError(uri.fsPath, error, 0);
+                this.diagnosticReporter.reportYAMLError(uri.fsPath, error, error.line, error.column);
                 this.errorReporter.reportError(
                     'YAML parsing failed',
                     uri.fsPath,
@@ -102,11 +110,8 @@ export class MemorySynchronizationService {
             const entry = this.memoryIndex.get(filePath);
 
             if (entry) {
-                // Remove tags from tag system
-                this.tagSystem.removeTags(filePath, entry.frontmatter.tags);
-
-                // Remove from memory index
-                this.memoryIndex.remove(filePath);
+                // Remove from tag system and memory index
+                this.removeIndexedFile(filePath);
             }
 
             // Clear diagnostics for deleted file
@@ -129,8 +134,94 @@ export class MemorySynchronizationService {
      * @param uris Array of file URIs to synchronize
      */
     public async synchronizeBatch(uris: vscode.Uri[]): Promise<void> {
-        const promises = uris.map(uri => this.handleFileCreateOrChange(uri));
-        await Promise.allSettled(promises);
+        this.beginBatch();
+        try {
+            const promises = uris.map(uri => this.handleFileCreateOrChange(uri));
+            await Promise.allSettled(promises);
+        } finally {
+            this.endBatch();
+        }
+    }
+
+    /**
+     * Synchronizes a batch of files, reusing cached entries for files that did not change
+     * Feature 10, Story 1: Unchanged files (same mtime and size, or same content hash) skip YAML parsing
+     * @param uris Array of file URIs to synchronize
+     * @param cachedEntries Entries loaded from the persistent index cache, keyed by file path
+     * @returns The number of files restored from the cache
+     */
+    public async synchronizeBatchWithCache(
+        uris: vscode.Uri[],
+        cachedEntries: Map<string, CachedMemoryEntry>
+    ): Promise<number> {
+        let restoredCount = 0;
+
+        this.beginBatch();
+        try {
+            const promises = uris.map(async uri => {
+                if (await this.restoreFromCache(uri, cachedEntries.get(uri.fsPath))) {
+                    restoredCount++;
+                } else {
+                    await this.handleFileCreateOrChange(uri);
+                }
+            });
+            await Promise.allSettled(promises);
+        } finally {
+            this.endBatch();
+        }
+
+        return restoredCount;
+    }
+
+    /**
+     * Starts collecting the change events of the memory index and the tag system
+     * Callers that perform several synchronizations in a row can group them into one batch
+     */
+    public beginBatch(): void {
+        this.memoryIndex.beginBatch();
+        this.tagSystem.beginBatch();
+    }
+
+    /**
+     * Fires the change events collected since beginBatch()
+     */
+    public endBatch(): void {
+        this.tagSystem.endBatch();
+        this.memoryIndex.endBatch();
+    }
+
+    /**
+     * Restores a file from its cached entry if the file did not change
+     * @returns true if the cached entry was used, false if the file must be parsed again
+     */
+    private async restoreFromCache(uri: vscode.Uri, cachedEntry: CachedMemoryEntry | undefined): Promise<boolean> {
+        if (!cachedEntry) {
+            return false;
+        }
+
+        try {
+            const stat = await vscode.workspace.fs.stat(uri);
+            let fileInfo: MemoryFileInfo = { mtime: cachedEntry.mtime, size: cachedEntry.size, hash: cachedEntry.hash };
+
+            if (!stat || stat.mtime !== cachedEntry.mtime || stat.size !== cachedEntry.size) {
+                // Timestamps differ - compare content hashes before re-parsing
+                const fileContent = await vscode.workspace.fs.readFile(uri);
+                const hash = MemoryIndexCache.computeHash(Buffer.from(fileContent).toString('utf8'));
+
+                if (hash !== cachedEntry.hash) {
+                    return false;
+                }
+
+                fileInfo = { mtime: stat?.mtime ?? 0, size: stat?.size ?? fileContent.byteLength, hash };
+            }
+
+            this.indexParsedFile(uri, { frontmatter: cachedEntry.frontmatter, content: cachedEntry.content }, fileInfo);
+            await this.reportProblems(uri, cachedEntry.frontmatter);
+            return true;
+        } catch {
+            // File can't be checked - let the regular synchronization handle (and report) it
+            return false;
+        }
     }
 
     /**
@@ -151,26 +242,14 @@ export class MemorySynchronizationService {
                 // Parse the file
                 const parsed = MemoryFileParser.parse(content);
 
-                // Check if this file already exists in the index
-                const existingEntry = this.memoryIndex.get(filePath);
-
-                // If it exists, remove old tags first
-                if (existingEntry) {
-                    this.tagSystem.removeTags(filePath, existingEntry.frontmatter.tags);
-                }
-
-                // Add or update the entry in the memory index
-                this.memoryIndex.add(filePath, parsed.frontmatter, parsed.content);
-
-                // Add tags to the tag system
-                this.tagSystem.addTags(filePath, parsed.frontmatter.tags);
+                // Add or update the entry in the memory index and tag system
+                this.indexParsedFile(uri, parsed, await this.getFileInfo(uri, content));
+                await this.reportProblems(uri, parsed.frontmatter, content);
 
             } catch {
                 // File doesn't exist or can't be read - remove from index if present
-                const entry = this.memoryIndex.get(filePath);
-                if (entry) {
-                    this.tagSystem.removeTags(filePath, entry.frontmatter.tags);
-                    this.memoryIndex.remove(filePath);
+                if (this.memoryIndex.has(filePath)) {
+                    this.removeIndexedFile(filePath);
                 }
             }
 
@@ -185,11 +264,452 @@ export class MemorySynchronizationService {
         }
     }
 
+    /**
+     * Sets the folder of the user-global memory library
+     * Files inside it are marked as global and can be overridden by workspace memories
+     * @param folderPath Absolute path of the global folder, or undefined to disable it
+     */
+    public setGlobalFolder(folderPath: string | undefined): void {
+        this.globalFolderPath = folderPath ? path.resolve(folderPath) : undefined;
+    }
+
+    /**
+     * Checks whether a global memory is hidden by a workspace memory with the same id or title
+     * @param filePath The file path of the memory
+     */
+    public isOverridden(filePath: string): boolean {
+        return this.memoryIndex.get(filePath)?.isOverridden === true;
+    }
+
+    /**
+     * Loads the frontmatter schema that applies to the memories of a folder
+     * A missing file means no schema; an invalid file is reported in the Problems Panel and ignored
+     * @param folderPath Absolute path of the workspace folder (or global folder) the schema applies to
+     * @param schemaUri Location of the schema file
+     */
+    public async loadSchema(folderPath: string, schemaUri: vscode.Uri): Promise<void> {
+        const key = path.resolve(folderPath);
+        this.schemas.delete(key);
+
+        const schema = await this.loadConfigFile(schemaUri, 'memory schema', text => FrontmatterSchema.parse(text));
+        if (schema) {
+            this.schemas.set(key, schema);
+        }
+    }
+
+    /**
+     * Removes all loaded frontmatter schemas
+     */
+    public clearSchemas(): void {
+        this.schemas.clear();
+    }
+
+    /**
+     * Loads the tag aliases declared for the memories of a folder
+     * A missing file means no aliases; an invalid file is reported in the Problems Panel and ignored
+     * Call applyTagAliases() afterwards to index the tags with the loaded aliases
+     * @param folderPath Absolute path of the workspace folder (or global folder) the aliases belong to
+     * @param aliasesUri Location of the tag aliases file
+     */
+    public async loadTagAliases(folderPath: string, aliasesUri: vscode.Uri): Promise<void> {
+        const key = path.resolve(folderPath);
+        this.tagAliases.delete(key);
+
+        const aliases = await this.loadConfigFile(aliasesUri, 'tag aliases', text => TagAliases.parse(text));
+        if (aliases) {
+            this.tagAliases.set(key, aliases);
+        }
+    }
+
+    /**
+     * Removes all loaded tag aliases
+     */
+    public clearTagAliases(): void {
+        this.tagAliases.clear();
+    }
+
+    /**
+     * Loads the controlled tag vocabulary that applies to the memories of a folder
+     * A missing file means no vocabulary; an invalid file is reported in the Problems Panel and ignored
+     * @param folderPath Absolute path of the workspace folder (or global folder) the vocabulary applies to
+     * @param vocabularyUri Location of the tag vocabulary file
+     */
+    public async loadTagVocabulary(folderPath: string, vocabularyUri: vscode.Uri): Promise<void> {
+        const key = path.resolve(folderPath);
+        this.tagVocabularies.delete(key);
+        this.mergedTagVocabulary = undefined;
+
+        const vocabulary = await this.loadConfigFile(vocabularyUri, 'tag vocabulary', text => TagVocabulary.parse(text));
+        if (vocabulary) {
+            this.tagVocabularies.set(key, vocabulary);
+        }
+    }
+
+    /**
+     * Removes all loaded tag vocabularies
+     */
+    public clearTagVocabularies(): void {
+        this.tagVocabularies.clear();
+        this.mergedTagVocabulary = undefined;
+    }
+
+    /**
+     * Gets the tag vocabularies of all folders combined, e.g. for the tag descriptions shown by completion
+     */
+    public getTagVocabulary(): TagVocabulary {
+        if (!this.mergedTagVocabulary) {
+            this.mergedTagVocabulary = TagVocabulary.merge(Array.from(this.tagVocabularies.values()));
+        }
+        return this.mergedTagVocabulary;
+    }
+
+    /**
+     * Reads and parses a configuration file of a memory folder (schema, tag aliases, tag vocabulary)
+     * @param label Name of the file's contents used in problem messages
+     * @returns The parsed file, or undefined if it is missing or invalid (invalid files are reported in the Problems Panel)
+     */
+    private async loadConfigFile<T>(uri: vscode.Uri, label: string, parse: (text: string) => T): Promise<T | undefined> {
+        this.diagnosticReporter.clearDiagnostics(uri.fsPath);
+
+        let text: string;
+        try {
+            text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+        } catch {
+            // No such file for this folder
+            return undefined;
+        }
+
+        try {
+            return parse(text);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            this.diagnosticReporter.reportValidationError(uri.fsPath, `Invalid ${label}: ${message}`, 0);
+            this.errorReporter.reportError(`Invalid ${label}`, uri.fsPath, message);
+            return undefined;
+        }
+    }
+
+    /**
+     * Hands the loaded tag aliases of all folders to the tag system and indexes the tags of every memory again
+     * Tags that resolve to the same canonical tag as before cause no tag events
+     */
+    public applyTagAliases(): void {
+        this.beginBatch();
+        try {
+            this.tagSystem.clear();
+            this.tagSystem.setAliases(TagAliases.merge(Array.from(this.tagAliases.values())));
+
+            for (const entry of this.memoryIndex.getAll()) {
+                if (!entry.isOverridden) {
+                    this.tagSystem.addTags(entry.filePath, entry.frontmatter.tags);
+                }
+            }
+        } finally {
+            this.endBatch();
+        }
+    }
+
+    /**
+     * Validates every indexed memory again, e.g. after a schema file changed
+     */
+    public async revalidateAll(): Promise<void> {
+        for (const entry of this.memoryIndex.getAll()) {
+            await this.reportProblems(vscode.Uri.file(entry.filePath), entry.frontmatter);
+        }
+    }
+
+    /**
+     * Gets the schema that applies to a memory file
+     */
+    private getSchema(uri: vscode.Uri): FrontmatterSchema | undefined {
+        const key = this.getFolderKey(uri);
+        return key ? this.schemas.get(key) : undefined;
+    }
+
+    /**
+     * Gets the tag vocabulary that applies to a memory file
+     */
+    private getTagVocabularyFor(uri: vscode.Uri): TagVocabulary | undefined {
+        const key = this.getFolderKey(uri);
+        return key ? this.tagVocabularies.get(key) : undefined;
+    }
+
+    /**
+     * Gets the folder whose configuration files apply to a memory file: the global folder or its workspace folder
+     */
+    private getFolderKey(uri: vscode.Uri): string | undefined {
+        if (this.getOrigin(uri).isGlobal) {
+            return this.globalFolderPath;
+        }
+
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+        return workspaceFolder ? path.resolve(workspaceFolder.uri.fsPath) : undefined;
+    }
+
+    /**
+     * Shows the schema violations and invalid optional fields of an indexed file in the Problems Panel
+     * Clears the file's diagnostics if there are none
+     * @param uri The memory file
+     * @param frontmatter Its parsed frontmatter
+     * @param content The raw file content used to locate the fields (read from disk when omitted)
+     */
+    private async reportProblems(uri: vscode.Uri, frontmatter: MemoryFileFrontmatter, content?: string): Promise<void> {
+        const violations = this.getSchema(uri)?.validate(frontmatter) ?? [];
+        const warnings = [
+            ...MemoryFileParser.getWarnings(frontmatter),
+            ...this.getTagAliasWarnings(frontmatter),
+            ...this.getUnknownTagWarnings(uri, frontmatter)
+        ];
+
+        if (violations.length === 0 && warnings.length === 0) {
+            this.diagnosticReporter.clearDiagnostics(uri.fsPath);
+            return;
+        }
+
+        if (content === undefined) {
+            try {
+                content = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+            } catch {
+                content = '';
+            }
+        }
+
+        const text = content;
+        this.diagnosticReporter.reportProblems(uri.fsPath, [
+            ...violations.map(issue => ({ message: issue.message, line: MemoryFileParser.findFieldLine(text, issue.path), severity: 'error' as const })),
+            ...warnings.map(issue => ({ message: issue.message, line: MemoryFileParser.findFieldLine(text, issue.path), severity: 'warning' as const }))
+        ]);
+    }
+
+    /**
+     * Reports the tags of a memory that use a deprecated alias
+     */
+    private getTagAliasWarnings(frontmatter: MemoryFileFrontmatter): FrontmatterIssue[] {
+        const aliases = this.tagSystem.getAliases();
+        const warnings: FrontmatterIssue[] = [];
+
+        frontmatter.tags.forEach((tag, index) => {
+            const alias = aliases.find(tag);
+            if (alias?.deprecated) {
+                warnings.push({
+                    path: `tags[${index}]`,
+                    message: `Tag "${tag}" uses the deprecated alias "${alias.alias}", use "${aliases.resolve(tag)}" instead`
+                });
+            }
+        });
+
+        return warnings;
+    }
+
+    /**
+     * Reports the tags of a memory that are not in the tag vocabulary of its folder, suggesting the closest allowed tag
+     */
+    private getUnknownTagWarnings(uri: vscode.Uri, frontmatter: MemoryFileFrontmatter): FrontmatterIssue[] {
+        const vocabulary = this.getTagVocabularyFor(uri);
+        if (!vocabulary) {
+            return [];
+        }
+
+        const warnings: FrontmatterIssue[] = [];
+        frontmatter.tags.forEach((tag, index) => {
+            const resolvedTag = this.tagSystem.resolveTag(tag);
+            if (vocabulary.isAllowed(resolvedTag) || TagNormalizer.getProblem(tag)) {
+                return;
+            }
+
+            const suggestion = vocabulary.suggest(resolvedTag);
+            warnings.push({
+                path: `tags[${index}]`,
+                message: `Tag "${tag}" is not in the tag vocabulary${suggestion ? `, did you mean "${suggestion}"?` : ''}`
+            });
+        });
+
+        return warnings;
+    }
+
+    /**
+     * Gets the file information stored with an entry for the persistent index cache
+     * Returns undefined if the file can't be inspected
+     */
+    private async getFileInfo(uri: vscode.Uri, content: string): Promise<MemoryFileInfo | undefined> {
+        try {
+            const stat = await vscode.workspace.fs.stat(uri);
+            if (!stat) {
+                return undefined;
+            }
+
+            return { mtime: stat.mtime, size: stat.size, hash: MemoryIndexCache.computeHash(content) };
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Adds or replaces an entry in the memory index and the tag system
+     */
+    private indexParsedFile(uri: vscode.Uri, parsed: ParsedMemoryFile, fileInfo?: MemoryFileInfo): void {
+        const filePath = uri.fsPath;
+
+        // Replacing the old tags with the new ones is a single change for listeners
+        this.beginBatch();
+        try {
+            // Check if this file already exists in the index
+            const existingEntry = this.memoryIndex.get(filePath);
+
+            const changedKeys: string[] = [];
+
+            // If it exists, remove old tags first
+            if (existingEntry) {
+                this.tagSystem.removeTags(filePath, existingEntry.frontmatter.tags);
+                changedKeys.push(...this.trackIdentity(existingEntry, -1));
+            }
+
+            // Add or update the entry in the memory index
+            const origin = this.getOrigin(uri);
+            this.memoryIndex.add(filePath, parsed.frontmatter, parsed.content, origin, fileInfo);
+
+            // Add tags to the tag system
+            this.tagSystem.addTags(filePath, parsed.frontmatter.tags);
+            changedKeys.push(...this.trackIdentity({ filePath, frontmatter: parsed.frontmatter, isGlobal: origin.isGlobal }, 1));
+
+            this.applyGlobalOverrides(changedKeys);
+        } finally {
+            this.endBatch();
+        }
+    }
+
+    /**
+     * Removes an entry from the tag system and the memory index
+     */
+    private removeIndexedFile(filePath: string): void {
+        const entry = this.memoryIndex.get(filePath);
+        if (!entry) {
+            return;
+        }
+
+        this.beginBatch();
+        try {
+            if (!entry.isOverridden) {
+                this.tagSystem.removeTags(filePath, entry.frontmatter.tags);
+            }
+            this.memoryIndex.remove(filePath);
+
+            this.applyGlobalOverrides(this.trackIdentity(entry, -1));
+        } finally {
+            this.endBatch();
+        }
+    }
+
+    /**
+     * Hides global memories that share an id or title with a workspace memory
+     * Hidden memories stay in the index, marked as overridden, but their tags are removed from the tag system,
+     * so they are restored as soon as the overriding workspace memory goes away
+     * @param changedKeys The identity keys whose memories changed; only global memories using them are checked
+     */
+    private applyGlobalOverrides(changedKeys: string[]): void {
+        const candidates = new Set<string>();
+        for (const key of changedKeys) {
+            this.globalFilesByIdentityKey.get(key)?.forEach(filePath => candidates.add(filePath));
+        }
+
+        for (const filePath of candidates) {
+            const entry = this.memoryIndex.get(filePath);
+            if (!entry) {
+                continue;
+            }
+
+            const overridden = this.getIdentityKeys(entry.frontmatter).some(key => this.workspaceIdentityKeys.has(key));
+            const wasOverridden = entry.isOverridden === true;
+
+            if (overridden && !wasOverridden) {
+                this.tagSystem.removeTags(entry.filePath, entry.frontmatter.tags);
+                this.memoryIndex.setOverridden(entry.filePath, true);
+            } else if (!overridden && wasOverridden) {
+                this.tagSystem.addTags(entry.filePath, entry.frontmatter.tags);
+                this.memoryIndex.setOverridden(entry.filePath, false);
+            }
+        }
+    }
+
+    /**
+     * Records that a memory was added to (delta 1) or removed from (delta -1) the index
+     * @returns The identity keys of the memory
+     */
+    private trackIdentity(entry: { filePath: string; frontmatter: MemoryFileFrontmatter; isGlobal?: boolean }, delta: 1 | -1): string[] {
+        const keys = this.getIdentityKeys(entry.frontmatter);
+
+        for (const key of keys) {
+            if (entry.isGlobal) {
+                const filePaths = this.globalFilesByIdentityKey.get(key) ?? new Set<string>();
+                if (delta > 0) {
+                    filePaths.add(entry.filePath);
+                } else {
+                    filePaths.delete(entry.filePath);
+                }
+
+                if (filePaths.size > 0) {
+                    this.globalFilesByIdentityKey.set(key, filePaths);
+                } else {
+                    this.globalFilesByIdentityKey.delete(key);
+                }
+            } else {
+                const count = (this.workspaceIdentityKeys.get(key) ?? 0) + delta;
+                if (count > 0) {
+                    this.workspaceIdentityKeys.set(key, count);
+                } else {
+                    this.workspaceIdentityKeys.delete(key);
+                }
+            }
+        }
+
+        return keys;
+    }
+
+    /**
+     * Gets the keys identifying a memory: its optional `id` and its title (case-insensitive)
+     */
+    private getIdentityKeys(frontmatter: MemoryFileFrontmatter): string[] {
+        const keys = [`title:${frontmatter.title.trim().toLowerCase()}`];
+
+        if (typeof frontmatter.id === 'string' || typeof frontmatter.id === 'number') {
+            keys.push(`id:${String(frontmatter.id).trim()}`);
+        }
+
+        return keys;
+    }
+
+    /**
+     * Determines where a file comes from: the global library or a workspace folder
+     */
+    private getOrigin(uri: vscode.Uri): MemoryOrigin {
+        if (this.globalFolderPath) {
+            const relativePath = path.relative(this.globalFolderPath, uri.fsPath);
+            if (relativePath && !relativePath.startsWith('..') && !path.isAbsolute(relativePath)) {
+                return { isGlobal: true };
+            }
+        }
+
+        return { workspaceFolder: vscode.workspace.getWorkspaceFolder(uri)?.name };
+    }
+
     /**
      * Clears all synchronized data
      */
     public clear(): void {
+        this.beginBatch();
         this.memoryIndex.clear();
         this.tagSystem.clear();
+        this.workspaceIdentityKeys.clear();
+        this.globalFilesByIdentityKey.clear();
+        this.endBatch();
+    }
+
+    /**
+     * Clears all synchronized data and the diagnostics reported for it
+     * Used before a full re-index so that files no longer watched do not keep stale problems
+     */
+    public reset(): void {
+        this.clear();
+        this.diagnosticReporter.clearAll();
     }
 }
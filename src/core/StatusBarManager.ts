@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import { MemoryIndex } from './MemoryIndex';
 import { ErrorReporter } from './ErrorReporter';
+import { Disposable } from './Emitter';
 
 /**
  * Manages the status bar item for the Memory Manager extension
@@ -12,6 +13,7 @@ export class StatusBarManager {
     private static instance: StatusBarManager;
     private statusBarItem: vscode.StatusBarItem;
     private memoryIndex?: MemoryIndex;
+    private indexSubscriptions: Disposable[] = [];
     private errorReporter?: ErrorReporter;
     private hasErrors: boolean = false;
 
@@ -40,6 +42,12 @@ export class StatusBarManager {
      */
     public setMemoryIndex(index: MemoryIndex): void {
         this.memoryIndex = index;
+
+        // Keep the memory count current whenever the index changes
+        this.indexSubscriptions.forEach(subscription => subscription.dispose());
+        const update = () => this.updateStatusBar();
+        this.indexSubscriptions = [index.onDidAdd(update), index.onDidRemove(update), index.onDidClear(update)];
+
         this.updateStatusBar();
     }
 
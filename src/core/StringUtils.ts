@@ -13,4 +13,30 @@ export class StringUtils {
     static trimPath(path: string): string {
         return path.replace(/\\/g, '/').trim();
     }
-}
\ No newline at end of file
+
+    /**
+     * Simple fuzzy matching: the characters of the input must appear in the target in order
+     * Consecutive matches score higher
+     * @returns A score > 0 if the input matches the target, 0 otherwise
+     */
+    static fuzzyMatch(input: string, target: string): number {
+        let inputIndex = 0;
+        let targetIndex = 0;
+        let score = 0;
+        let consecutiveMatches = 0;
+
+        while (inputIndex < input.length && targetIndex < target.length) {
+            if (input[inputIndex] === target[targetIndex]) {
+                score += 1 + consecutiveMatches;
+                consecutiveMatches++;
+                inputIndex++;
+            } else {
+                consecutiveMatches = 0;
+            }
+            targetIndex++;
+        }
+
+        // Return score only if all characters were matched
+        return inputIndex === input.length ? score : 0;
+    }
+}
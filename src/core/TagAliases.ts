@@ -0,0 +1,169 @@
+import * as yaml from 'js-yaml';
+import { TagNormalizer } from './TagNormalizer';
+import { TagPattern } from './TagPattern';
+
+/**
+ * An alias declared in the tag aliases file
+ */
+export interface TagAlias {
+    alias: string;
+    /** The canonical tag the alias stands for */
+    tag: string;
+    /** Deprecated aliases are reported on the memories that still use them */
+    deprecated: boolean;
+}
+
+/**
+ * Error thrown when a tag aliases file can't be used
+ */
+export class TagAliasesError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TagAliasesError';
+    }
+}
+
+/**
+ * Registry of tag aliases (alias → canonical tag, many-to-one), read from `Memory/.tag-aliases.yaml`
+ *
+ * ```yaml
+ * db.postgres: backend.database.postgres
+ * pg:
+ *   tag: backend.database.postgres
+ *   deprecated: true
+ * ```
+ *
+ * An alias also stands for the tags below it: with `db: backend.database`, `db.postgres` resolves to `backend.database.postgres`.
+ * Aliases and tags are normalized (see TagNormalizer).
+ */
+export class TagAliases {
+    public static readonly EMPTY = new TagAliases(new Map());
+
+    private constructor(private readonly aliases: Map<string, TagAlias>) {}
+
+    /**
+     * Parses the content of a tag aliases file
+     * @param text The YAML text; an empty file declares no aliases
+     * @throws {TagAliasesError} If the text is not a mapping of aliases to tags
+     */
+    public static parse(text: string): TagAliases {
+        let data: unknown;
+        try {
+            data = yaml.load(text);
+        } catch (error) {
+            throw new TagAliasesError(`Invalid YAML: ${error instanceof yaml.YAMLException ? error.reason : String(error)}`);
+        }
+
+        if (data === undefined || data === null) {
+            return TagAliases.EMPTY;
+        }
+        if (typeof data !== 'object' || Array.isArray(data)) {
+            throw new TagAliasesError('The tag aliases must be a mapping of aliases to tags');
+        }
+
+        const aliases = new Map<string, TagAlias>();
+        for (const [name, value] of Object.entries(data as Record<string, unknown>)) {
+            const target = typeof value === 'object' && value !== null && !Array.isArray(value)
+                ? value as { tag?: unknown; deprecated?: unknown }
+                : { tag: value };
+
+            const alias = TagAliases.toTag(name);
+            if (alias === undefined) {
+                throw new TagAliasesError(`Alias "${name}" must be a tag without wildcards or query operators`);
+            }
+            const tag = typeof target.tag === 'string' ? TagAliases.toTag(target.tag) : undefined;
+            if (tag === undefined) {
+                throw new TagAliasesError(`Alias "${name}" must map to a tag without wildcards or query operators`);
+            }
+            if (tag === alias || tag.startsWith(`${alias}.`)) {
+                throw new TagAliasesError(`Alias "${name}" can't map to itself or a tag below it`);
+            }
+            if (target.deprecated !== undefined && typeof target.deprecated !== 'boolean') {
+                throw new TagAliasesError(`Field "deprecated" of alias "${name}" must be true or false`);
+            }
+
+            aliases.set(alias, { alias, tag, deprecated: target.deprecated === true });
+        }
+
+        return new TagAliases(aliases);
+    }
+
+    /**
+     * Combines the aliases of several folders; the first definition of an alias wins
+     */
+    public static merge(registries: TagAliases[]): TagAliases {
+        const aliases = new Map<string, TagAlias>();
+
+        for (const registry of registries) {
+            for (const [alias, definition] of registry.aliases) {
+                if (!aliases.has(alias)) {
+                    aliases.set(alias, definition);
+                }
+            }
+        }
+
+        return aliases.size === 0 ? TagAliases.EMPTY : new TagAliases(aliases);
+    }
+
+    /**
+     * Finds the alias used by a tag: the alias itself or the longest alias the tag lies below
+     */
+    public find(tag: string): TagAlias | undefined {
+        const normalizedTag = this.aliases.size > 0 ? TagNormalizer.normalize(tag) : undefined;
+        if (normalizedTag === undefined) {
+            return undefined;
+        }
+
+        const parts = normalizedTag.split('.');
+        for (let length = parts.length; length > 0; length--) {
+            const alias = this.aliases.get(parts.slice(0, length).join('.'));
+            if (alias) {
+                return alias;
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Resolves a tag (or the leading segments of a wildcard pattern) to its canonical tag
+     * Aliases of aliases are followed; tags that aren't aliases are returned normalized (malformed tags unchanged)
+     */
+    public resolve(tag: string): string {
+        let resolved = TagNormalizer.normalize(tag) ?? tag;
+
+        // Bounded so that aliases pointing at each other can't loop
+        for (let step = 0; step < this.aliases.size; step++) {
+            const alias = this.find(resolved);
+            if (!alias) {
+                break;
+            }
+            resolved = alias.tag + resolved.slice(alias.alias.length);
+        }
+
+        return resolved;
+    }
+
+    /**
+     * Gets the aliases that stand for a canonical tag
+     */
+    public getAliases(tag: string): TagAlias[] {
+        const canonicalTag = TagNormalizer.normalize(tag);
+        return Array.from(this.aliases.values()).filter(alias => this.resolve(alias.alias) === canonicalTag);
+    }
+
+    /**
+     * Gets the number of aliases
+     */
+    public size(): number {
+        return this.aliases.size;
+    }
+
+    /**
+     * Normalizes a tag of the aliases file
+     * @returns The normalized tag, or undefined if it is malformed or contains wildcards or query operators
+     */
+    private static toTag(value: string): string | undefined {
+        return TagPattern.hasSyntax(value) ? undefined : TagNormalizer.normalize(value);
+    }
+}
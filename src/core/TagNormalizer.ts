@@ -0,0 +1,44 @@
+/**
+ * Normalizes tags so that spelling variants index and match as the same tag
+ *
+ * Tags are compared in Unicode NFC, case-folded, with the whitespace around each segment trimmed:
+ * `Backend. Database` and `backend.database` are the same tag. Tags with empty segments
+ * (`backend..db`, `.backend`) are malformed and ignored.
+ */
+export class TagNormalizer {
+    /**
+     * Normalizes a tag (or a wildcard pattern)
+     * @returns The normalized tag, or undefined if the tag is malformed
+     */
+    public static normalize(tag: string): string | undefined {
+        const parts = TagNormalizer.getSegments(tag);
+        if (parts.some(part => part === '')) {
+            return undefined;
+        }
+
+        return parts.map(part => part.toLowerCase()).join('.');
+    }
+
+    /**
+     * Gets the segments of a tag in NFC with the surrounding whitespace trimmed, keeping their case
+     * Used to display a tag as it was written
+     */
+    public static getSegments(tag: string): string[] {
+        return tag.normalize('NFC').split('.').map(part => part.trim());
+    }
+
+    /**
+     * Describes why a tag is malformed
+     * @returns The problem, or undefined if the tag can be normalized
+     */
+    public static getProblem(tag: string): string | undefined {
+        if (tag.trim() === '') {
+            return 'Empty tags are ignored';
+        }
+        if (TagNormalizer.normalize(tag) === undefined) {
+            return `Tag "${tag}" has an empty segment (e.g. "backend..db") and is ignored`;
+        }
+
+        return undefined;
+    }
+}
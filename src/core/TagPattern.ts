@@ -0,0 +1,148 @@
+import { TagNormalizer } from './TagNormalizer';
+
+/**
+ * Matcher for tag patterns, shared by tag queries, the chat file list and tag completion
+ *
+ * - `*` matches one segment and `**` any number of segments: `backend.*`, `**.postgres`
+ * - Segment globs: `backend.data*`, `*sql`, `backend.ap?`
+ * - Alternation: `backend.{auth,database}`
+ * - Character classes: `db.[mp]*sql`, `[!a-m]*`
+ * - Regular expressions between slashes, tested against whole tags and ignoring case: `/^front.*react$/`
+ *
+ * Like a plain tag, a pattern also stands for the tags below the tags it matches.
+ */
+export class TagPattern {
+    /**
+     * Checks whether a tag query term is a pattern rather than a plain tag
+     */
+    public static isPattern(pattern: string): boolean {
+        return TagPattern.isRegExp(pattern) || /[*?[{]/.test(pattern);
+    }
+
+    /**
+     * Checks whether a tag name contains characters that patterns or tag queries read as syntax
+     * Such a tag couldn't be looked up by its name, e.g. `a|b` is read as "a or b"
+     */
+    public static hasSyntax(tag: string): boolean {
+        const name = TagNormalizer.getSegments(tag).join('.');
+        return /[\s*?[\]{}()&|!,:/]/.test(name) || name.startsWith('-');
+    }
+
+    /**
+     * Checks whether a pattern is a regular expression (`/.../`)
+     */
+    public static isRegExp(pattern: string): boolean {
+        return pattern.length > 2 && pattern.startsWith('/') && pattern.endsWith('/');
+    }
+
+    /**
+     * Checks whether a tag matches a pattern
+     * @param pattern The pattern, normalized like tags (see TagSystem.resolveTag) unless it is a regular expression
+     * @param tag A normalized tag
+     */
+    public static matches(pattern: string, tag: string): boolean {
+        return TagPattern.toRegExp(pattern)?.test(tag) ?? false;
+    }
+
+    /**
+     * Describes why a pattern can't be used
+     * @returns The problem, or undefined if the pattern is valid
+     */
+    public static getProblem(pattern: string): string | undefined {
+        if (!TagPattern.isRegExp(pattern)) {
+            return undefined;
+        }
+
+        try {
+            new RegExp(pattern.slice(1, -1), 'i');
+            return undefined;
+        } catch (error) {
+            return `Invalid regular expression ${pattern}: ${error instanceof Error ? error.message : String(error)}`;
+        }
+    }
+
+    /**
+     * Converts a pattern into an anchored regular expression matching whole tags
+     * @returns The regular expression, or undefined if the pattern is an invalid regular expression
+     */
+    public static toRegExp(pattern: string): RegExp | undefined {
+        if (TagPattern.isRegExp(pattern)) {
+            return TagPattern.getProblem(pattern) ? undefined : new RegExp(pattern.slice(1, -1), 'i');
+        }
+
+        return new RegExp(`^${TagPattern.toSource(pattern)}$`);
+    }
+
+    /**
+     * Translates a glob pattern into regular expression source
+     * Unbalanced braces and brackets are closed or read literally, like GlobPattern does for paths
+     */
+    private static toSource(pattern: string): string {
+        if (pattern === '**') {
+            return '.+';
+        }
+
+        const isSegmentEnd = (index: number) => index === pattern.length || pattern[index] === '.';
+        let source = '';
+        let braceDepth = 0;
+        let index = 0;
+
+        while (index < pattern.length) {
+            const char = pattern[index];
+
+            if (index === 0 && pattern.startsWith('**.')) {
+                // Leading "**." matches zero or more segments
+                source += '(?:[^.]+\\.)*';
+                index += 3;
+                continue;
+            }
+
+            if (char === '.' && pattern.startsWith('**', index + 1) && isSegmentEnd(index + 3)) {
+                // ".**" matches zero or more trailing or inner segments
+                source += '(?:\\.[^.]+)*';
+                index += 3;
+                continue;
+            }
+
+            if (/\s/.test(char) && braceDepth > 0) {
+                // Allow spaces between alternatives: `{auth, database}`
+            } else if (char === '*') {
+                source += '[^.]*';
+                while (pattern[index + 1] === '*') {
+                    index++;
+                }
+            } else if (char === '?') {
+                source += '[^.]';
+            } else if (char === '{') {
+                braceDepth++;
+                source += '(?:';
+            } else if (char === '}' && braceDepth > 0) {
+                braceDepth--;
+                source += ')';
+            } else if (char === ',' && braceDepth > 0) {
+                source += '|';
+            } else if (char === '[') {
+                const closing = pattern.indexOf(']', index + 2);
+                if (closing === -1) {
+                    source += '\\[';
+                } else {
+                    let content = pattern.substring(index + 1, closing);
+                    const negated = content.startsWith('!') || content.startsWith('^');
+                    if (negated) {
+                        content = content.substring(1);
+                    }
+                    // Classes never match the segment separator
+                    source += `[${negated ? '^.' : ''}${content.replace(/[\\\]]/g, '\\$&')}]`;
+                    index = closing;
+                }
+            } else {
+                source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+            }
+
+            index++;
+        }
+
+        // Close unbalanced braces so the expression stays valid
+        return source + ')'.repeat(braceDepth);
+    }
+}
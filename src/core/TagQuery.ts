@@ -0,0 +1,428 @@
+import { TagSystem } from './TagSystem';
+import { TagPattern } from './TagPattern';
+
+/**
+ * Represents a node in a parsed tag query expression
+ */
+export type TagQueryNode =
+    | { type: 'tag'; pattern: string }
+    | { type: 'and'; operands: TagQueryNode[] }
+    | { type: 'or'; operands: TagQueryNode[] }
+    | { type: 'not'; operand: TagQueryNode };
+
+/**
+ * Error thrown when a tag query expression is malformed
+ */
+export class TagQuerySyntaxError extends Error {
+    constructor(message: string, public readonly position: number) {
+        super(message);
+        this.name = 'TagQuerySyntaxError';
+    }
+}
+
+type TokenType = 'tag' | 'and' | 'or' | 'separator' | 'not' | 'lparen' | 'rparen' | 'eof';
+
+interface Token {
+    type: TokenType;
+    value: string;
+    position: number;
+}
+
+/**
+ * Parser for boolean tag query expressions
+ *
+ * Grammar (lowest to highest precedence):
+ * - OR: `a | b`, `a OR b`, and the legacy list separators `a, b` / `a: b`
+ * - AND: `a & b`, `a AND b`, or simple juxtaposition `a b`
+ * - NOT: `-a`, `!a`, `NOT a`
+ * - Grouping: `(a | b) & c`
+ *
+ * Tag patterns keep their syntax (see TagPattern): operators inside braces, brackets and
+ * regular expressions don't split the pattern, e.g. `backend.{auth,database}` or `/^front.*(react|vue)$/`
+ */
+export class TagQueryParser {
+    private static readonly KEYWORDS: Record<string, TokenType> = {
+        AND: 'and',
+        OR: 'or',
+        NOT: 'not'
+    };
+
+    private tokens: Token[] = [];
+    private current = 0;
+
+    private constructor(private readonly expression: string) {}
+
+    /**
+     * Parses a tag query expression into an expression tree
+     * @param expression The query expression (e.g., "backend.* & security -backend.legacy")
+     * @returns The root node of the expression, or null if the expression is empty
+     * @throws {TagQuerySyntaxError} If the expression is malformed
+     */
+    public static parse(expression: string): TagQueryNode | null {
+        return new TagQueryParser(expression).parseExpression();
+    }
+
+    /**
+     * Collects all tag patterns referenced by a query, in order of appearance and without duplicates
+     * @param node The root node of the query
+     * @returns Array of tag patterns (both included and excluded ones)
+     */
+    public static collectPatterns(node: TagQueryNode | null): string[] {
+        const patterns: string[] = [];
+
+        const visit = (current: TagQueryNode): void => {
+            switch (current.type) {
+                case 'tag':
+                    if (!patterns.includes(current.pattern)) {
+                        patterns.push(current.pattern);
+                    }
+                    break;
+                case 'not':
+                    visit(current.operand);
+                    break;
+                default:
+                    current.operands.forEach(visit);
+            }
+        };
+
+        if (node) {
+            visit(node);
+        }
+
+        return patterns;
+    }
+
+    /**
+     * Gets the tag pattern at the end of an expression, i.e. the one being typed
+     * @param expression The query expression (e.g., "security & backend.{auth,db}")
+     * @returns The pattern (e.g., "backend.{auth,db}"), or undefined if the expression doesn't end with one
+     */
+    public static getTrailingPattern(expression: string): string | undefined {
+        let tokens: Token[];
+        try {
+            tokens = new TagQueryParser(expression).tokenize();
+        } catch {
+            return undefined;
+        }
+
+        const last = tokens[tokens.length - 2];
+        return last?.type === 'tag' && last.position + last.value.length === expression.length ? last.value : undefined;
+    }
+
+    /**
+     * Formats a query back into a normalized, human readable expression
+     * @param node The root node of the query
+     */
+    public static format(node: TagQueryNode): string {
+        switch (node.type) {
+            case 'tag':
+                return node.pattern;
+            case 'not': {
+                const operand = TagQueryParser.format(node.operand);
+                return node.operand.type === 'tag' || node.operand.type === 'not' ? `-${operand}` : `-(${operand})`;
+            }
+            case 'and':
+                return node.operands
+                    .map(operand => operand.type === 'or' ? `(${TagQueryParser.format(operand)})` : TagQueryParser.format(operand))
+                    .join(' & ');
+            case 'or':
+                return node.operands.map(operand => TagQueryParser.format(operand)).join(' | ');
+        }
+    }
+
+    /**
+     * Parses the whole expression
+     */
+    private parseExpression(): TagQueryNode | null {
+        this.tokens = this.tokenize();
+        this.current = 0;
+
+        this.skipSeparators();
+        if (this.peek().type === 'eof') {
+            return null;
+        }
+
+        const node = this.parseOr();
+        const next = this.peek();
+
+        if (next.type === 'rparen') {
+            throw new TagQuerySyntaxError(`Unexpected ')' at position ${next.position + 1}`, next.position);
+        }
+        if (next.type !== 'eof') {
+            throw new TagQuerySyntaxError(`Unexpected '${next.value}' at position ${next.position + 1}`, next.position);
+        }
+
+        return node;
+    }
+
+    /**
+     * Parses OR expressions (lowest precedence)
+     * Legacy separators (`,` and `:`) tolerate empty operands, `|` and `OR` do not
+     */
+    private parseOr(): TagQueryNode {
+        const operands: TagQueryNode[] = [this.parseAnd()];
+
+        for (;;) {
+            const next = this.peek();
+
+            if (next.type === 'separator') {
+                this.skipSeparators();
+                const following = this.peek().type;
+                if (following === 'eof' || following === 'rparen') {
+                    break;
+                }
+                operands.push(this.parseAnd());
+            } else if (next.type === 'or') {
+                this.advance();
+                this.expectOperand(next);
+                operands.push(this.parseAnd());
+            } else {
+                break;
+            }
+        }
+
+        return operands.length === 1 ? operands[0] : { type: 'or', operands };
+    }
+
+    /**
+     * Parses AND expressions, either explicit (`&`, `AND`) or implicit (juxtaposition)
+     */
+    private parseAnd(): TagQueryNode {
+        const operands: TagQueryNode[] = [this.parseUnary()];
+
+        for (;;) {
+            const next = this.peek();
+
+            if (next.type === 'and') {
+                this.advance();
+                this.expectOperand(next);
+                operands.push(this.parseUnary());
+            } else if (this.startsOperand(next)) {
+                operands.push(this.parseUnary());
+            } else {
+                break;
+            }
+        }
+
+        return operands.length === 1 ? operands[0] : { type: 'and', operands };
+    }
+
+    /**
+     * Parses NOT expressions
+     */
+    private parseUnary(): TagQueryNode {
+        const next = this.peek();
+
+        if (next.type === 'not') {
+            this.advance();
+            this.expectOperand(next);
+            return { type: 'not', operand: this.parseUnary() };
+        }
+
+        return this.parsePrimary();
+    }
+
+    /**
+     * Parses a tag pattern or a parenthesized group
+     */
+    private parsePrimary(): TagQueryNode {
+        const token = this.advance();
+
+        if (token.type === 'tag') {
+            const problem = TagPattern.getProblem(token.value);
+            if (problem) {
+                throw new TagQuerySyntaxError(`${problem} at position ${token.position + 1}`, token.position);
+            }
+            return { type: 'tag', pattern: token.value };
+        }
+
+        if (token.type === 'lparen') {
+            this.skipSeparators();
+            if (this.peek().type === 'rparen') {
+                throw new TagQuerySyntaxError(`Empty group '()' at position ${token.position + 1}`, token.position);
+            }
+
+            const node = this.parseOr();
+            const closing = this.peek();
+
+            if (closing.type !== 'rparen') {
+                throw new TagQuerySyntaxError(
+                    `Missing closing ')' for '(' at position ${token.position + 1}`,
+                    token.position
+                );
+            }
+
+            this.advance();
+            return node;
+        }
+
+        if (token.type === 'eof') {
+            throw new TagQuerySyntaxError('Unexpected end of expression, expected a tag pattern', token.position);
+        }
+
+        throw new TagQuerySyntaxError(
+            `Unexpected '${token.value}' at position ${token.position + 1}, expected a tag pattern`,
+            token.position
+        );
+    }
+
+    /**
+     * Ensures an operator is followed by an operand
+     */
+    private expectOperand(operator: Token): void {
+        if (!this.startsOperand(this.peek())) {
+            throw new TagQuerySyntaxError(
+                `Expected a tag pattern after '${operator.value}' at position ${operator.position + 1}`,
+                operator.position
+            );
+        }
+    }
+
+    /**
+     * Checks whether a token can start an operand
+     */
+    private startsOperand(token: Token): boolean {
+        return token.type === 'tag' || token.type === 'lparen' || token.type === 'not';
+    }
+
+    private skipSeparators(): void {
+        while (this.peek().type === 'separator') {
+            this.advance();
+        }
+    }
+
+    private peek(): Token {
+        return this.tokens[this.current];
+    }
+
+    private advance(): Token {
+        const token = this.tokens[this.current];
+        if (token.type !== 'eof') {
+            this.current++;
+        }
+        return token;
+    }
+
+    /**
+     * Splits the expression into tokens
+     * A `-` only acts as NOT at the start of a token, so hyphenated tags like `backend.connection-pool` are preserved
+     */
+    private tokenize(): Token[] {
+        const tokens: Token[] = [];
+        const input = this.expression;
+        let index = 0;
+
+        while (index < input.length) {
+            const char = input[index];
+
+            if (/\s/.test(char)) {
+                index++;
+                continue;
+            }
+
+            if (char === '(' || char === ')') {
+                tokens.push({ type: char === '(' ? 'lparen' : 'rparen', value: char, position: index });
+                index++;
+            } else if (char === '&' || char === '|') {
+                const doubled = input[index + 1] === char;
+                const value = doubled ? char + char : char;
+                tokens.push({ type: char === '&' ? 'and' : 'or', value, position: index });
+                index += value.length;
+            } else if (char === ',' || char === ':') {
+                tokens.push({ type: 'separator', value: char, position: index });
+                index++;
+            } else if (char === '!' || char === '-') {
+                tokens.push({ type: 'not', value: char, position: index });
+                index++;
+            } else if (char === '/') {
+                tokens.push({ type: 'tag', value: this.readRegExp(index), position: index });
+                index += tokens[tokens.length - 1].value.length;
+            } else {
+                const start = index;
+                let depth = 0;
+                while (index < input.length && (depth > 0 || !/[\s()&|!,:]/.test(input[index]))) {
+                    if (input[index] === '{' || input[index] === '[') {
+                        depth++;
+                    } else if ((input[index] === '}' || input[index] === ']') && depth > 0) {
+                        depth--;
+                    }
+                    index++;
+                }
+                const value = input.substring(start, index);
+                const keyword = TagQueryParser.KEYWORDS[value];
+                tokens.push({ type: keyword ?? 'tag', value, position: start });
+            }
+        }
+
+        tokens.push({ type: 'eof', value: '', position: input.length });
+        return tokens;
+    }
+
+    /**
+     * Reads a regular expression pattern (`/.../`), which may contain operators and spaces
+     * @param start The position of the opening slash
+     * @returns The pattern including both slashes
+     */
+    private readRegExp(start: number): string {
+        const input = this.expression;
+        let index = start + 1;
+
+        while (index < input.length && input[index] !== '/') {
+            index += input[index] === '\\' ? 2 : 1;
+        }
+
+        if (index >= input.length || index === start + 1) {
+            throw new TagQuerySyntaxError(`Missing closing '/' for the regular expression at position ${start + 1}`, start);
+        }
+
+        return input.substring(start, index + 1);
+    }
+}
+
+/**
+ * Evaluates parsed tag queries against the tag system
+ */
+export class TagQueryEvaluator {
+    constructor(private tagSystem: TagSystem) {}
+
+    /**
+     * Evaluates a query and returns the matching file paths
+     * @param node The root node of the query
+     * @returns Array of unique file paths matching the query
+     */
+    public evaluate(node: TagQueryNode): string[] {
+        return Array.from(this.evaluateNode(node));
+    }
+
+    /**
+     * Recursively evaluates a node of the expression tree
+     */
+    private evaluateNode(node: TagQueryNode): Set<string> {
+        switch (node.type) {
+            case 'tag':
+                return new Set(this.tagSystem.query(node.pattern));
+            case 'or': {
+                const result = new Set<string>();
+                for (const operand of node.operands) {
+                    this.evaluateNode(operand).forEach(file => result.add(file));
+                }
+                return result;
+            }
+            case 'and': {
+                let result = this.evaluateNode(node.operands[0]);
+                for (const operand of node.operands.slice(1)) {
+                    if (result.size === 0) {
+                        break;
+                    }
+                    const operandFiles = this.evaluateNode(operand);
+                    result = new Set(Array.from(result).filter(file => operandFiles.has(file)));
+                }
+                return result;
+            }
+            case 'not': {
+                const excluded = this.evaluateNode(node.operand);
+                return new Set(this.tagSystem.getAllFilePaths().filter(file => !excluded.has(file)));
+            }
+        }
+    }
+}
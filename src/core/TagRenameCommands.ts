@@ -0,0 +1,355 @@
+import * as vscode from 'vscode';
+import * as yaml from 'js-yaml';
+import { TagSystem } from './TagSystem';
+import { MemoryFileParser } from './MemoryFileParser';
+import { TagNormalizer } from './TagNormalizer';
+import { TagPattern } from './TagPattern';
+import { MemoryExplorerNode } from './MemoryExplorerProvider';
+import { Logger } from './Logger';
+
+/**
+ * A change to one line of a memory's `tags` field
+ */
+export interface TagLineEdit {
+    line: number;
+    /** The new text of the line, or undefined to delete the line */
+    text?: string;
+}
+
+/**
+ * Commands for renaming a tag and merging two tags across all memory files
+ * The changes are shown in the refactor preview before they are applied
+ */
+export class TagRenameCommands {
+    constructor(private tagSystem: TagSystem) {}
+
+    /**
+     * Registers the rename and merge commands (also used by the Memory Explorer's tag items)
+     */
+    public registerCommands(context: vscode.ExtensionContext): void {
+        context.subscriptions.push(
+            vscode.commands.registerCommand('memory-manager.renameTag',
+                (node?: MemoryExplorerNode | string) => this.renameTag(TagRenameCommands.getTagArgument(node))),
+            vscode.commands.registerCommand('memory-manager.mergeTags',
+                (node?: MemoryExplorerNode | string) => this.mergeTags(TagRenameCommands.getTagArgument(node)))
+        );
+    }
+
+    /**
+     * Renames a tag and the tags below it; renaming to an existing tag merges both
+     * @param tag The tag to rename, asked for when omitted
+     * @returns Whether the memories were changed
+     */
+    public async renameTag(tag?: string): Promise<boolean> {
+        const oldTag = tag ?? await this.pickTag('Rename Tag', 'Tag to rename');
+        if (!oldTag) {
+            return false;
+        }
+
+        const newTag = await vscode.window.showInputBox({
+            title: 'Rename Tag',
+            prompt: `New name for "${oldTag}" and the tags below it (an existing tag merges both)`,
+            value: oldTag,
+            validateInput: value => TagRenameCommands.validateTag(value, oldTag)
+        });
+        if (newTag === undefined) {
+            return false;
+        }
+
+        return this.applyRename(oldTag, newTag.trim());
+    }
+
+    /**
+     * Merges a tag (and the tags below it) into another existing tag
+     * @param tag The tag to merge, asked for when omitted
+     * @returns Whether the memories were changed
+     */
+    public async mergeTags(tag?: string): Promise<boolean> {
+        const sourceTag = tag ?? await this.pickTag('Merge Tags', 'Tag to merge into another tag');
+        if (!sourceTag) {
+            return false;
+        }
+
+        const targetTag = await this.pickTag('Merge Tags', `Tag to merge "${sourceTag}" into`, sourceTag);
+        if (!targetTag) {
+            return false;
+        }
+
+        return this.applyRename(sourceTag, targetTag);
+    }
+
+    /**
+     * Rewrites the tags of every memory using the old tag, after the user confirmed the refactor preview
+     * @returns Whether the edit was applied
+     */
+    public async applyRename(oldTag: string, newTag: string): Promise<boolean> {
+        const edit = await this.createEdit(oldTag, newTag);
+        if (edit.size === 0) {
+            vscode.window.showInformationMessage(`No memory uses the tag "${oldTag}".`);
+            return false;
+        }
+
+        // Memories with unsaved changes are left for the user to save, so that their changes aren't saved along
+        const unsaved = new Set<string>();
+        for (const [uri] of edit.entries()) {
+            if ((await vscode.workspace.openTextDocument(uri)).isDirty) {
+                unsaved.add(uri.fsPath);
+            }
+        }
+
+        if (!await vscode.workspace.applyEdit(edit, { isRefactoring: true })) {
+            return false;
+        }
+
+        // Save the other changed memories so that the index picks up the new tags
+        for (const [uri] of edit.entries()) {
+            if (unsaved.has(uri.fsPath)) {
+                continue;
+            }
+            try {
+                await (await vscode.workspace.openTextDocument(uri)).save();
+            } catch (error) {
+                Logger.getInstance().warn(`Could not save ${uri.fsPath}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+
+        return true;
+    }
+
+    /**
+     * Builds the edit renaming a tag in all memories that use it or a tag below it (aliases included)
+     * Every change needs confirmation, so applying the edit opens the refactor preview
+     */
+    public async createEdit(oldTag: string, newTag: string): Promise<vscode.WorkspaceEdit> {
+        const from = this.tagSystem.resolveTag(oldTag);
+        const edit = new vscode.WorkspaceEdit();
+        const metadata: vscode.WorkspaceEditEntryMetadata = { label: `Rename tag "${oldTag}" to "${newTag}"`, needsConfirmation: true };
+
+        for (const filePath of this.tagSystem.queryByTag(from).sort()) {
+            const document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+            const lineEdits = TagRenameCommands.getTagEdits(document.getText(),
+                tag => TagRenameCommands.getRenamedTag(this.tagSystem.resolveTag(tag), from, newTag));
+
+            for (const lineEdit of lineEdits) {
+                const line = document.lineAt(lineEdit.line);
+                if (lineEdit.text === undefined) {
+                    edit.delete(document.uri, line.rangeIncludingLineBreak, metadata);
+                } else {
+                    edit.replace(document.uri, line.range, lineEdit.text, metadata);
+                }
+            }
+        }
+
+        return edit;
+    }
+
+    /**
+     * Lets the user pick one of the indexed tags
+     * @param exclude A tag not to offer (e.g. the tag being merged)
+     */
+    private async pickTag(title: string, placeHolder: string, exclude?: string): Promise<string | undefined> {
+        const tags = this.tagSystem.getAllTags().filter(tag => tag !== exclude).sort();
+        if (tags.length === 0) {
+            vscode.window.showInformationMessage('No tags found in the memory system.');
+            return undefined;
+        }
+
+        const picked = await vscode.window.showQuickPick(
+            tags.map(tag => {
+                const fileCount = this.tagSystem.queryByTag(tag).length;
+                return { label: tag, description: `${fileCount} file${fileCount !== 1 ? 's' : ''}` };
+            }),
+            { title, placeHolder }
+        );
+
+        return picked?.label;
+    }
+
+    /**
+     * Computes the line changes that rename the tags of a memory file, keeping the YAML formatting
+     * Flow lists (`tags: [a, b]`, also across lines) and block lists (`- a`) are supported; quotes and comments are kept.
+     * Tags that become duplicates of another tag of the file through the rename are removed.
+     * @param content The file content
+     * @param rename Returns the new name of a tag, or undefined to keep it
+     */
+    public static getTagEdits(content: string, rename: (tag: string) => string | undefined): TagLineEdit[] {
+        const lines = content.split('\n').map(line => line.replace(/\r$/, ''));
+        const tagsLine = MemoryFileParser.findFieldLine(content, 'tags');
+        if (tagsLine === 0) {
+            return [];
+        }
+
+        // Normalized result tag → whether a renamed tag produced it
+        const seen = new Map<string, boolean>();
+        const renameItem = (item: string): string | null | undefined => {
+            const value = TagRenameCommands.readScalar(item);
+            const renamed = value === undefined ? undefined : rename(value);
+            const result = renamed ?? value;
+
+            if (result === undefined) {
+                return undefined;
+            }
+            const key = TagNormalizer.normalize(result) ?? result;
+            if (seen.has(key) && (renamed !== undefined || seen.get(key))) {
+                return null;
+            }
+
+            seen.set(key, seen.get(key) || renamed !== undefined);
+            return renamed === undefined || renamed === value ? undefined : TagRenameCommands.formatLike(item, renamed);
+        };
+
+        const flowList = TagRenameCommands.findFlowList(lines, tagsLine);
+        if (flowList) {
+            const parts = flowList.items.split(',');
+            let changed = false;
+            const kept: string[] = [];
+
+            for (const part of parts) {
+                const item = part.trim();
+                const result = renameItem(item);
+                if (result === null) {
+                    changed = true;
+                } else if (result !== undefined) {
+                    changed = true;
+                    kept.push(part.replace(item, result));
+                } else {
+                    kept.push(part);
+                }
+            }
+
+            if (!changed) {
+                return [];
+            }
+            if (kept.length > 0 && parts.length > 0) {
+                kept[0] = parts[0].slice(0, parts[0].length - parts[0].trimStart().length) + kept[0].trimStart();
+            }
+
+            // Items removed as duplicates may take their line with them
+            const newLines = `${flowList.prefix}${kept.join(',')}${flowList.suffix}`.split('\n');
+            const flowEdits: TagLineEdit[] = [];
+            for (let index = 0; index < flowList.lineCount; index++) {
+                const line = tagsLine + index;
+                if (index >= newLines.length) {
+                    flowEdits.push({ line });
+                } else if (newLines[index] !== lines[line]) {
+                    flowEdits.push({ line, text: newLines[index] });
+                }
+            }
+
+            return flowEdits;
+        }
+
+        const edits: TagLineEdit[] = [];
+        for (let index = tagsLine + 1; index < lines.length; index++) {
+            const itemMatch = /^(\s*-\s+)(.*?)(\s+#.*)?$/.exec(lines[index].trimEnd());
+            if (!itemMatch) {
+                break;
+            }
+
+            const result = renameItem(itemMatch[2]);
+            if (result === null) {
+                edits.push({ line: index });
+            } else if (result !== undefined) {
+                edits.push({ line: index, text: `${itemMatch[1]}${result}${itemMatch[3] ?? ''}` });
+            }
+        }
+
+        return edits;
+    }
+
+    /**
+     * Finds a flow list (`tags: [a, b]`) starting on the tags line, which may continue on the following lines
+     * @returns The text before and after the items, the items with their lines joined by `\n`
+     * and the number of lines, or undefined if the tags are not a complete flow list
+     */
+    private static findFlowList(
+        lines: string[],
+        tagsLine: number
+    ): { prefix: string; items: string; suffix: string; lineCount: number } | undefined {
+        const start = /^(\s*["']?tags["']?\s*:\s*\[)(.*)$/.exec(lines[tagsLine]);
+        if (!start) {
+            return undefined;
+        }
+
+        const itemLines = [start[2]];
+        for (let index = tagsLine; index < lines.length; index++) {
+            if (index > tagsLine) {
+                itemLines.push(lines[index]);
+            }
+
+            const end = /^(.*)(\]\s*(#.*)?)$/.exec(itemLines[itemLines.length - 1]);
+            if (end) {
+                itemLines[itemLines.length - 1] = end[1];
+                return { prefix: start[1], items: itemLines.join('\n'), suffix: end[2], lineCount: itemLines.length };
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Gets the new name of a tag when `oldTag` is renamed to `newTag`
+     * @returns The new name for the tag itself or a tag below it, undefined for other tags
+     */
+    public static getRenamedTag(tag: string, oldTag: string, newTag: string): string | undefined {
+        if (tag === oldTag) {
+            return newTag;
+        }
+
+        return tag.startsWith(`${oldTag}.`) ? newTag + tag.slice(oldTag.length) : undefined;
+    }
+
+    /**
+     * Checks the new name of a tag
+     * @returns An error message, or undefined if the name is valid
+     */
+    public static validateTag(value: string, oldTag: string): string | undefined {
+        const tag = value.trim();
+
+        if (!tag) {
+            return 'The tag must not be empty';
+        }
+        if (/\s/.test(tag) || TagPattern.hasSyntax(tag)) {
+            return 'Tags can\'t contain spaces, wildcards, brackets or query operators (, : & | ! /) or start with -';
+        }
+        if (tag.split('.').some(part => part === '')) {
+            return 'Tags can\'t contain empty segments';
+        }
+        if (tag === oldTag) {
+            return 'Enter a different name';
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Reads a YAML list item
+     * @returns The string value, or undefined if the item is not a string
+     */
+    private static readScalar(item: string): string | undefined {
+        try {
+            const value = yaml.load(item);
+            return typeof value === 'string' ? value : undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Writes a tag with the same quotes as the item it replaces
+     */
+    private static formatLike(item: string, tag: string): string {
+        if (item.startsWith('"')) {
+            return JSON.stringify(tag);
+        }
+        if (item.startsWith('\'')) {
+            return `'${tag.replace(/'/g, '\'\'')}'`;
+        }
+
+        return TagRenameCommands.readScalar(tag) === tag ? tag : JSON.stringify(tag);
+    }
+
+    private static getTagArgument(node?: MemoryExplorerNode | string): string | undefined {
+        return typeof node === 'string' ? node : node?.tag;
+    }
+}
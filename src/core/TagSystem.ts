@@ -1,8 +1,15 @@
+import { Emitter, Event } from './Emitter';
+import { TagAliases } from './TagAliases';
+import { TagNormalizer } from './TagNormalizer';
+import { TagPattern } from './TagPattern';
+
 /**
  * Represents a node in the hierarchical tag tree
  */
 interface TagNode {
     name: string;
+    /** The segment as it was first written (see TagNormalizer) */
+    displayName: string;
     fullPath: string;
     children: Map<string, TagNode>;
     filePaths: Set<string>;
@@ -15,28 +22,87 @@ interface TagNode {
  * - Uses lazy loading: tag tree is built incrementally as tags are added
  * - Efficient data structures (Map, Set) for O(1) lookups
  * - Proper cleanup via clear() method to prevent memory leaks
+ *
+ * Tags that appear or disappear are announced through events, batched like MemoryIndex events
+ * Tags are normalized (see TagNormalizer) and aliases (see TagAliases) resolved to their canonical tags
+ * when tags are added, removed and queried; malformed tags are ignored
  */
 export class TagSystem {
     private root: TagNode;
     private tagToFilesMap: Map<string, Set<string>>;
+    private aliases = TagAliases.EMPTY;
+
+    private tagsAddedEmitter = new Emitter<string[]>();
+    private tagsRemovedEmitter = new Emitter<string[]>();
+
+    /** Fired with the tags used by a file for the first time (including parent tags) */
+    public readonly onDidAddTags: Event<string[]> = this.tagsAddedEmitter.event;
+    /** Fired with the tags no file uses anymore */
+    public readonly onDidRemoveTags: Event<string[]> = this.tagsRemovedEmitter.event;
+
+    private batchDepth = 0;
+    private pendingChanges = new Map<string, 'added' | 'removed'>();
 
     constructor() {
-        this.root = this.createNode('', '');
+        this.root = this.createNode('', '', '');
         this.tagToFilesMap = new Map();
     }
 
     /**
      * Creates a new tag node
      */
-    private createNode(name: string, fullPath: string): TagNode {
+    private createNode(name: string, displayName: string, fullPath: string): TagNode {
         return {
             name,
+            displayName,
             fullPath,
             children: new Map(),
             filePaths: new Set()
         };
     }
 
+    /**
+     * Sets the aliases resolved by this tag system
+     * Tags indexed before the change are not re-resolved: callers clear and re-add them
+     */
+    public setAliases(aliases: TagAliases): void {
+        this.aliases = aliases;
+    }
+
+    /**
+     * Gets the aliases resolved by this tag system
+     */
+    public getAliases(): TagAliases {
+        return this.aliases;
+    }
+
+    /**
+     * Normalizes a tag (or a pattern) and resolves an alias it starts with to its canonical tag
+     * @returns The canonical tag; malformed tags are returned unchanged and match nothing
+     */
+    public resolveTag(tag: string): string {
+        return this.aliases.resolve(tag);
+    }
+
+    /**
+     * Gets a tag as it was first written, e.g. `Backend.Database` for `backend.database`
+     * @returns The spelling of the indexed tag, or the tag itself if it isn't indexed
+     */
+    public getDisplayName(tag: string): string {
+        const displayNames: string[] = [];
+        let node: TagNode | undefined = this.root;
+
+        for (const part of this.resolveTag(tag).split('.')) {
+            node = node.children.get(part);
+            if (!node) {
+                return tag;
+            }
+            displayNames.push(node.displayName);
+        }
+
+        return displayNames.join('.');
+    }
+
     /**
      * Adds tags for a specific file
      * @param filePath The file path
@@ -46,13 +112,22 @@ export class TagSystem {
         for (const tag of tags) {
             this.addTag(filePath, tag);
         }
+        this.flush();
     }
 
     /**
      * Adds a single tag for a file
      */
     private addTag(filePath: string, tag: string): void {
-        const parts = tag.split('.');
+        const normalizedTag = TagNormalizer.normalize(tag);
+        if (normalizedTag === undefined) {
+            return; // Malformed tags are reported by MemoryFileParser.getWarnings
+        }
+
+        const resolvedTag = this.aliases.resolve(normalizedTag);
+        const parts = resolvedTag.split('.');
+        // Aliased tags are displayed in their canonical spelling
+        const displayNames = resolvedTag === normalizedTag ? TagNormalizer.getSegments(tag) : parts;
         let currentNode = this.root;
         let fullPath = '';
 
@@ -61,7 +136,7 @@ export class TagSystem {
             fullPath = fullPath ? `${fullPath}.${part}` : part;
 
             if (!currentNode.children.has(part)) {
-                currentNode.children.set(part, this.createNode(part, fullPath));
+                currentNode.children.set(part, this.createNode(part, displayNames[i], fullPath));
             }
 
             currentNode = currentNode.children.get(part)!;
@@ -70,6 +145,7 @@ export class TagSystem {
             // Add to tag-to-files map
             if (!this.tagToFilesMap.has(fullPath)) {
                 this.tagToFilesMap.set(fullPath, new Set());
+                this.recordChange(fullPath, 'added');
             }
             this.tagToFilesMap.get(fullPath)!.add(filePath);
         }
@@ -84,13 +160,14 @@ export class TagSystem {
         for (const tag of tags) {
             this.removeTag(filePath, tag);
         }
+        this.flush();
     }
 
     /**
      * Removes a single tag for a file
      */
     private removeTag(filePath: string, tag: string): void {
-        const parts = tag.split('.');
+        const parts = this.resolveTag(tag).split('.');
         let currentNode = this.root;
         let fullPath = '';
         const nodes: TagNode[] = [];
@@ -112,6 +189,7 @@ export class TagSystem {
                 fileSet.delete(filePath);
                 if (fileSet.size === 0) {
                     this.tagToFilesMap.delete(fullPath);
+                    this.recordChange(fullPath, 'removed');
                 }
             }
         }
@@ -124,66 +202,47 @@ export class TagSystem {
 
     /**
      * Queries files by an exact tag match
-     * @param tag The tag to search for (e.g., "backend.database")
+     * @param tag The tag (or an alias of it) to search for (e.g., "backend.database")
      * @returns Array of file paths that have this tag
      */
     public queryByTag(tag: string): string[] {
-        const fileSet = this.tagToFilesMap.get(tag);
+        const fileSet = this.tagToFilesMap.get(this.resolveTag(tag));
         return fileSet ? Array.from(fileSet) : [];
     }
 
     /**
-     * Queries files by a wildcard tag pattern
-     * @param pattern The pattern to match (e.g., "backend.*", "*.postgres")
+     * Queries files by a tag pattern (see TagPattern)
+     * @param pattern The pattern to match (e.g., "backend.*", "*.postgres", "backend.{auth,database}", "/^front.*react$/")
      * @returns Array of file paths that match the pattern
      */
     public queryByWildcard(pattern: string): string[] {
-        const parts = pattern.split('.');
         const matchedFiles = new Set<string>();
 
-        this.searchWithWildcard(this.root, parts, 0, matchedFiles);
+        for (const tag of this.getMatchingTags(pattern)) {
+            this.tagToFilesMap.get(tag)!.forEach(file => matchedFiles.add(file));
+        }
 
         return Array.from(matchedFiles);
     }
 
     /**
-     * Recursively searches the tag tree with wildcard support
+     * Gets the indexed tags matching a tag pattern (see TagPattern)
+     * Files tagged below a matching tag match the pattern as well
+     * @param pattern The pattern to match; glob patterns are normalized and their aliases resolved like tags
+     * @returns The matching tags, or an empty array if the pattern is an invalid regular expression
      */
-    private searchWithWildcard(
-        node: TagNode,
-        patternParts: string[],
-        partIndex: number,
-        matchedFiles: Set<string>
-    ): void {
-        if (partIndex >= patternParts.length) {
-            // Reached the end of the pattern, add all files from this node
-            node.filePaths.forEach(file => matchedFiles.add(file));
-            return;
-        }
-
-        const currentPart = patternParts[partIndex];
+    public getMatchingTags(pattern: string): string[] {
+        const regex = TagPattern.toRegExp(TagPattern.isRegExp(pattern) ? pattern : this.resolveTag(pattern));
+        return regex ? this.getAllTags().filter(tag => regex.test(tag)) : [];
+    }
 
-        if (currentPart === '*') {
-            // Wildcard matches any single level
-            for (const child of node.children.values()) {
-                this.searchWithWildcard(child, patternParts, partIndex + 1, matchedFiles);
-            }
-        } else if (currentPart === '**') {
-            // Double wildcard matches any number of levels
-            // Match current level
-            this.searchWithWildcard(node, patternParts, partIndex + 1, matchedFiles);
-
-            // Match all children recursively
-            for (const child of node.children.values()) {
-                this.searchWithWildcard(child, patternParts, partIndex, matchedFiles);
-            }
-        } else {
-            // Exact match
-            const child = node.children.get(currentPart);
-            if (child) {
-                this.searchWithWildcard(child, patternParts, partIndex + 1, matchedFiles);
-            }
-        }
+    /**
+     * Queries files by a tag or a tag pattern (see TagPattern)
+     * @param pattern A plain tag is looked up with queryByTag, a pattern with queryByWildcard
+     * @returns Array of file paths that match
+     */
+    public query(pattern: string): string[] {
+        return TagPattern.isPattern(pattern) ? this.queryByWildcard(pattern) : this.queryByTag(pattern);
     }
 
     /**
@@ -194,6 +253,40 @@ export class TagSystem {
         return Array.from(this.tagToFilesMap.keys());
     }
 
+    /**
+     * Gets the tags one level below a tag
+     * @param tag The parent tag, or an empty string for the top-level tags
+     * @returns The full paths of the child tags (e.g., "backend.database" for "backend")
+     */
+    public getChildTags(tag: string): string[] {
+        let node: TagNode | undefined = this.root;
+
+        for (const part of tag ? tag.split('.') : []) {
+            node = node.children.get(part);
+            if (!node) {
+                return [];
+            }
+        }
+
+        return Array.from(node.children.values())
+            .filter(child => child.filePaths.size > 0)
+            .map(child => child.fullPath);
+    }
+
+    /**
+     * Gets all files that have at least one tag
+     * @returns Array of unique file paths
+     */
+    public getAllFilePaths(): string[] {
+        const files = new Set<string>();
+
+        for (const child of this.root.children.values()) {
+            child.filePaths.forEach(file => files.add(file));
+        }
+
+        return Array.from(files);
+    }
+
     /**
      * Gets all tags for a specific file
      * @param filePath The file path
@@ -215,8 +308,64 @@ export class TagSystem {
      * Clears all tags from the system
      */
     public clear(): void {
-        this.root = this.createNode('', '');
+        for (const tag of this.tagToFilesMap.keys()) {
+            this.recordChange(tag, 'removed');
+        }
+
+        this.root = this.createNode('', '', '');
         this.tagToFilesMap.clear();
+        this.flush();
+    }
+
+    /**
+     * Starts collecting tag events until the matching endBatch() call
+     * Batches can be nested; events are fired when the outermost batch ends
+     */
+    public beginBatch(): void {
+        this.batchDepth++;
+    }
+
+    /**
+     * Ends a batch started with beginBatch() and fires the collected events
+     */
+    public endBatch(): void {
+        this.batchDepth = Math.max(0, this.batchDepth - 1);
+        this.flush();
+    }
+
+    /**
+     * Records a tag that appeared or disappeared; opposite changes within a batch cancel out
+     */
+    private recordChange(tag: string, change: 'added' | 'removed'): void {
+        const pending = this.pendingChanges.get(tag);
+
+        if (pending && pending !== change) {
+            this.pendingChanges.delete(tag);
+        } else {
+            this.pendingChanges.set(tag, change);
+        }
+    }
+
+    /**
+     * Fires the collected events unless a batch is in progress
+     */
+    private flush(): void {
+        if (this.batchDepth > 0 || this.pendingChanges.size === 0) {
+            return;
+        }
+
+        const changes = Array.from(this.pendingChanges.entries());
+        this.pendingChanges.clear();
+
+        const removed = changes.filter(([, change]) => change === 'removed').map(([tag]) => tag);
+        const added = changes.filter(([, change]) => change === 'added').map(([tag]) => tag);
+
+        if (removed.length > 0) {
+            this.tagsRemovedEmitter.fire(removed);
+        }
+        if (added.length > 0) {
+            this.tagsAddedEmitter.fire(added);
+        }
     }
 
     /**
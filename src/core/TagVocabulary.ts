@@ -0,0 +1,149 @@
+import * as yaml from 'js-yaml';
+import { StringUtils } from './StringUtils';
+import { TagNormalizer } from './TagNormalizer';
+import { TagPattern } from './TagPattern';
+
+/**
+ * Error thrown when a tag vocabulary file can't be used
+ */
+export class TagVocabularyError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TagVocabularyError';
+    }
+}
+
+/**
+ * Controlled tag vocabulary, read from `Memory/.tags.yaml`
+ *
+ * ```yaml
+ * backend.database: Databases, queries and migrations
+ * backend.api: HTTP API conventions
+ * testing:
+ * ```
+ *
+ * Lists the allowed tags with optional descriptions (a plain list of tags works too).
+ * The parents of allowed tags are allowed as well: `backend` is allowed by `backend.database`.
+ * Tags are normalized (see TagNormalizer).
+ */
+export class TagVocabulary {
+    public static readonly EMPTY = new TagVocabulary(new Map());
+
+    private readonly allowedTags = new Set<string>();
+
+    private constructor(private readonly descriptions: Map<string, string | undefined>) {
+        for (const tag of descriptions.keys()) {
+            const parts = tag.split('.');
+            for (let length = 1; length <= parts.length; length++) {
+                this.allowedTags.add(parts.slice(0, length).join('.'));
+            }
+        }
+    }
+
+    /**
+     * Parses the content of a tag vocabulary file
+     * @param text The YAML text; an empty file declares no vocabulary
+     * @throws {TagVocabularyError} If the text is not a mapping of tags to descriptions or a list of tags
+     */
+    public static parse(text: string): TagVocabulary {
+        let data: unknown;
+        try {
+            data = yaml.load(text);
+        } catch (error) {
+            throw new TagVocabularyError(`Invalid YAML: ${error instanceof yaml.YAMLException ? error.reason : String(error)}`);
+        }
+
+        if (data === undefined || data === null) {
+            return TagVocabulary.EMPTY;
+        }
+
+        if (typeof data !== 'object') {
+            throw new TagVocabularyError('The tag vocabulary must be a mapping of tags to descriptions or a list of tags');
+        }
+
+        const entries: [unknown, unknown][] = Array.isArray(data)
+            ? data.map(tag => [tag, undefined])
+            : Object.entries(data as Record<string, unknown>);
+
+        const descriptions = new Map<string, string | undefined>();
+        for (const [name, description] of entries) {
+            const tag = typeof name === 'string' && !TagPattern.hasSyntax(name) ? TagNormalizer.normalize(name) : undefined;
+            if (tag === undefined) {
+                throw new TagVocabularyError(`"${String(name)}" is not a tag: tags can't be empty or contain wildcards, spaces or query operators`);
+            }
+            if (description !== undefined && description !== null && typeof description !== 'string') {
+                throw new TagVocabularyError(`The description of "${name}" must be text`);
+            }
+
+            descriptions.set(tag, description?.trim() || undefined);
+        }
+
+        return new TagVocabulary(descriptions);
+    }
+
+    /**
+     * Combines the vocabularies of several folders; the first description of a tag wins
+     */
+    public static merge(vocabularies: TagVocabulary[]): TagVocabulary {
+        const descriptions = new Map<string, string | undefined>();
+
+        for (const vocabulary of vocabularies) {
+            for (const [tag, description] of vocabulary.descriptions) {
+                if (!descriptions.get(tag)) {
+                    descriptions.set(tag, description);
+                }
+            }
+        }
+
+        return descriptions.size === 0 ? TagVocabulary.EMPTY : new TagVocabulary(descriptions);
+    }
+
+    /**
+     * Checks whether the vocabulary lists any tags; an empty vocabulary allows every tag
+     */
+    public isEmpty(): boolean {
+        return this.descriptions.size === 0;
+    }
+
+    /**
+     * Checks whether a tag is listed (or is the parent of a listed tag)
+     */
+    public isAllowed(tag: string): boolean {
+        return this.isEmpty() || this.allowedTags.has(TagNormalizer.normalize(tag) ?? tag);
+    }
+
+    /**
+     * Gets the description of a listed tag
+     */
+    public getDescription(tag: string): string | undefined {
+        return this.descriptions.get(TagNormalizer.normalize(tag) ?? tag);
+    }
+
+    /**
+     * Gets the listed tags
+     */
+    public getTags(): string[] {
+        return Array.from(this.descriptions.keys());
+    }
+
+    /**
+     * Finds the allowed tag closest to an unknown tag, scored like tag completion (StringUtils.fuzzyMatch)
+     * Both directions are scored, so `db` suggests `backend.database` and `backend.databases` suggests `backend.database`
+     * @returns The closest allowed tag, or undefined if none is similar
+     */
+    public suggest(tag: string): string | undefined {
+        const input = TagNormalizer.normalize(tag) ?? tag.toLowerCase();
+        let best: { tag: string; score: number } | undefined;
+
+        for (const allowedTag of Array.from(this.allowedTags).sort()) {
+            const target = allowedTag.toLowerCase();
+            const score = Math.max(StringUtils.fuzzyMatch(input, target), StringUtils.fuzzyMatch(target, input));
+
+            if (score > 0 && (!best || score > best.score)) {
+                best = { tag: allowedTag, score };
+            }
+        }
+
+        return best?.tag;
+    }
+}
@@ -6,9 +6,10 @@ import * as vscode from 'vscode';
 export interface IFileWatcher {
     /**
      * Starts watching the Memory folder for file changes
-     * @param memoryFolderPattern Glob pattern for memory files
+     * @param memoryFolderPattern Glob pattern (or relative pattern) for memory files,
+     * or one pattern per watched location
      */
-    startWatching(memoryFolderPattern: string): void;
+    startWatching(memoryFolderPattern: vscode.GlobPattern | vscode.GlobPattern[]): void;
 
     /**
      * Stops watching and disposes of the file watcher
@@ -2,19 +2,38 @@ import * as vscode from 'vscode';
 import { MemoryManagerService } from './core/MemoryManagerService';
 import { CommandRouter } from './chat/CommandRouter';
 import { ContentInjectionEngine } from './chat/ContentInjectionEngine';
+import { AttachmentBudget } from './chat/AttachmentBudget';
 import { TagCompletionProvider } from './chat/TagCompletionProvider';
+import { MemoryLanguageModelTool } from './chat/MemoryLanguageModelTool';
+import { MemoryAnswerEngine } from './chat/MemoryAnswerEngine';
+import { MemorySuggestionEngine } from './chat/MemorySuggestionEngine';
 import { StatusBarManager } from './core/StatusBarManager';
 import { ErrorReporter } from './core/ErrorReporter';
 import { MemoryInspectionCommands } from './core/MemoryInspectionCommands';
+import { MemoryCreationCommands } from './core/MemoryCreationCommands';
+import { MemorySearchCommands } from './core/MemorySearchCommands';
+import { TagRenameCommands } from './core/TagRenameCommands';
+import { MemoryContextProvider } from './core/MemoryContextProvider';
+import { MemoryExplorerProvider } from './core/MemoryExplorerProvider';
 import { Logger } from './core/Logger';
+import { MemoryConfiguration } from './core/MemoryConfiguration';
+import { MemoryIndexCache } from './core/MemoryIndexCache';
+import { MemoryQuickFixProvider } from './core/MemoryQuickFixProvider';
+import { TagQueryNode, TagQueryParser, TagQuerySyntaxError } from './core/TagQuery';
+import { MemoryManagerApi } from './api/MemoryManagerApi';
+import { MemoryManagerApiProvider } from './api/MemoryManagerApiProvider';
 
 let memoryManager: MemoryManagerService;
 let contentInjector: ContentInjectionEngine;
 let tagCompletionProvider: TagCompletionProvider;
 let statusBarManager: StatusBarManager;
 let inspectionCommands: MemoryInspectionCommands;
+let answerEngine: MemoryAnswerEngine;
+let searchCommands: MemorySearchCommands;
+let suggestionEngine: MemorySuggestionEngine;
+let contextProvider: MemoryContextProvider;
 
-export async function activate(context: vscode.ExtensionContext) {
+export async function activate(context: vscode.ExtensionContext): Promise<MemoryManagerApi> {
     const logger = Logger.getInstance();
     logger.info('VS Code Memory Manager extension activated');
 
@@ -27,10 +46,17 @@ export async function activate(context: vscode.ExtensionContext) {
         memoryManager.getTagSystem()
     );
 
+    // Answers questions directly with the matched memories in the prompt (chat mode `answer`)
+    answerEngine = new MemoryAnswerEngine(contentInjector);
+
+    // Proposes memories for a question (/memory-auto)
+    suggestionEngine = new MemorySuggestionEngine(memoryManager.getMemoryIndex(), memoryManager.getFullTextIndex());
+
     // Initialize tag completion provider
     tagCompletionProvider = new TagCompletionProvider(
         memoryManager.getTagSystem(),
-        memoryManager.getMemoryIndex()
+        memoryManager.getMemoryIndex(),
+        () => memoryManager.getTagVocabulary()
     );
 
     // Register completion provider for chat input
@@ -42,6 +68,18 @@ export async function activate(context: vscode.ExtensionContext) {
     );
     context.subscriptions.push(completionProvider);
 
+    // Offer quick fixes for invalid memory files in the Problems Panel
+    const quickFixProvider = vscode.languages.registerCodeActionsProvider(
+        { language: 'markdown' },
+        new MemoryQuickFixProvider(),
+        { providedCodeActionKinds: MemoryQuickFixProvider.providedCodeActionKinds }
+    );
+    context.subscriptions.push(quickFixProvider);
+
+    // Let agent mode fetch memories on its own through a Language Model Tool
+    new MemoryLanguageModelTool(contentInjector, memoryManager.getMemoryIndex(), memoryManager.getTagSystem())
+        .register(context);
+
     // Initialize status bar manager
     statusBarManager = StatusBarManager.getInstance();
     statusBarManager.setMemoryIndex(memoryManager.getMemoryIndex());
@@ -62,98 +100,207 @@ export async function activate(context: vscode.ExtensionContext) {
     );
     inspectionCommands.registerCommands(context);
 
+    // Register the command for creating new memories
+    new MemoryCreationCommands(memoryManager.getTagSystem()).registerCommands(context);
+
+    // Register the commands for renaming and merging tags
+    new TagRenameCommands(memoryManager.getTagSystem()).registerCommands(context);
+
+    // Register the full-text search command
+    searchCommands = new MemorySearchCommands(memoryManager.getFullTextIndex(), memoryManager.getMemoryIndex());
+    searchCommands.registerCommands(context);
+
+    // Find the memories whose appliesTo globs match the active editor (/memory-context and a status bar hint)
+    contextProvider = new MemoryContextProvider(memoryManager.getAppliesToIndex(), memoryManager.getMemoryIndex());
+    contextProvider.register(context, memoryManager.onDidChangeIndex);
+
+    // Register the Memory Explorer view
+    new MemoryExplorerProvider(memoryManager.getTagSystem(), memoryManager.getMemoryIndex())
+        .register(context, memoryManager.onDidChangeIndex);
+
     // Register manual refresh command
     const refreshCommand = vscode.commands.registerCommand('memoryManager.refresh', async () => {
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        if (workspaceFolder) {
-            const memoryPattern = new vscode.RelativePattern(workspaceFolder, 'Memory/**/*.md');
-            const memoryFiles = await vscode.workspace.findFiles(memoryPattern);
-            await memoryManager.initialSync(memoryFiles);
-            vscode.window.showInformationMessage(`Memory Manager: Refreshed ${memoryFiles.length} file(s)`);
+        const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+        if (workspaceFolders.length > 0) {
+            const fileCount = await memoryManager.watchWorkspaceFolders(workspaceFolders);
+            vscode.window.showInformationMessage(`Memory Manager: Refreshed ${fileCount} file(s)`);
         }
     });
     context.subscriptions.push(refreshCommand);
 
-    // Start watching memory files
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-    if (workspaceFolder) {
-        const memoryPattern = new vscode.RelativePattern(workspaceFolder, 'Memory/**/*.md');
-        memoryManager.start(memoryPattern.pattern);
-
-        // Initial sync of existing memory files
-        const memoryFiles = await vscode.workspace.findFiles(memoryPattern);
-        await memoryManager.initialSync(memoryFiles);
+    // Start watching memory files of every workspace folder and the global library, then perform the initial sync
+    // Unchanged files are restored from the persistent index cache kept in the workspace storage
+    if (context.storageUri) {
+        memoryManager.setIndexCache(new MemoryIndexCache(context.storageUri));
     }
+    memoryManager.setGlobalFolder(MemoryConfiguration.getGlobalFolder(context.globalStorageUri));
+    await memoryManager.watchWorkspaceFolders(vscode.workspace.workspaceFolders ?? []);
+
+    // Re-watch and re-index when the memory locations change (no window reload needed)
+    const configurationListener = MemoryConfiguration.onDidChangeLocationSettings(async () => {
+        try {
+            memoryManager.setGlobalFolder(MemoryConfiguration.getGlobalFolder(context.globalStorageUri));
+            const fileCount = await memoryManager.watchWorkspaceFolders(vscode.workspace.workspaceFolders ?? []);
+            logger.info(`Memory locations changed, re-indexed ${fileCount} file(s)`);
+        } catch (error) {
+            ErrorReporter.getInstance().reportError('Failed to re-index memory files after the memory locations changed',
+                undefined, error instanceof Error ? error.message : String(error));
+        }
+    });
+    context.subscriptions.push(configurationListener);
+
+    // Follow Markdown links up to the configured depth when attaching referenced files
+    contentInjector.setMaxLinkDepth(MemoryConfiguration.getMaxLinkDepth());
+    const linkDepthListener = vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration(`${MemoryConfiguration.SECTION}.maxLinkDepth`)) {
+            contentInjector.setMaxLinkDepth(MemoryConfiguration.getMaxLinkDepth());
+        }
+    });
+    context.subscriptions.push(linkDepthListener);
+
+    // Watch and index folders added to (or drop folders removed from) a multi-root workspace
+    const workspaceFoldersListener = vscode.workspace.onDidChangeWorkspaceFolders(async (event) => {
+        try {
+            await memoryManager.handleWorkspaceFoldersChanged(vscode.workspace.workspaceFolders ?? [], event);
+            logger.info(`Workspace folders changed: ${event.added.length} added, ${event.removed.length} removed`);
+        } catch (error) {
+            ErrorReporter.getInstance().reportError('Failed to index the changed workspace folders',
+                undefined, error instanceof Error ? error.message : String(error));
+        }
+    });
+    context.subscriptions.push(workspaceFoldersListener);
+
+    // Shows a failed chat request in the response and reports it in the output channel
+    const reportChatError = (stream: vscode.ChatResponseStream, shownMessage: string, reportedMessage: string, error: unknown) => {
+        const details = error instanceof Error ? error.message : String(error);
+        stream.markdown(`${shownMessage}: ${details}`);
+        ErrorReporter.getInstance().reportError(reportedMessage, undefined, details);
+    };
 
     // Register Copilot Chat Participant
-    const participant = vscode.chat.createChatParticipant('memory.manager', async (request, context, stream, _token) => {
+    const participant = vscode.chat.createChatParticipant('memory.manager', async (request, context, stream, token) => {
         // Check if the command is 'memory-tag'
         if (request.command === 'memory-tag') {
             try {
                 // Phase 1: Parse ONLY the first line to extract tag patterns
-                const parseResult = CommandRouter.parseMemoryTagCommand(request.prompt);
-                const { tags, remainingPrompt } = parseResult;
+                const workspaceFolderNames = vscode.workspace.workspaceFolders?.map(folder => folder.name) ?? [];
+                const parseResult = CommandRouter.parseMemoryTagCommand(request.prompt, workspaceFolderNames);
+                const { tags, expression, remainingPrompt, scope, budget, invalidBudget, mode, invalidMode } = parseResult;
+
+                if (invalidBudget !== undefined) {
+                    stream.markdown(`Invalid budget: \`${invalidBudget}\`. Use a token count such as \`budget=8000\` or \`budget=8k\`, or \`budget=none\` to attach every file.`);
+                    return {};
+                }
+
+                if (invalidMode !== undefined) {
+                    stream.markdown(`Invalid mode: \`${invalidMode}\`. Use \`mode=attach\` to attach the files to a new chat turn or \`mode=answer\` to answer directly.`);
+                    return {};
+                }
 
                 if (tags.length === 0) {
                     stream.markdown('Please specify tag patterns on the first line.\n\nExample:\n```\n@memory /memory-tag backend.database\nHow do I implement connection pooling?\n```');
                     return {};
                 }
 
+                // Parse the boolean tag query (AND, OR, NOT, grouping)
+                let query: TagQueryNode | null;
+                try {
+                    query = TagQueryParser.parse(expression);
+                } catch (error) {
+                    if (error instanceof TagQuerySyntaxError) {
+                        stream.markdown(`Invalid tag query: ${error.message}\n\n\`\`\`\n${expression}\n${' '.repeat(error.position)}^\n\`\`\`\n\nCombine tags with \`&\` (AND), \`|\` or \`,\` (OR), \`-\` (NOT) and parentheses, e.g. \`backend.* -backend.legacy\`.`);
+                        return {};
+                    }
+                    throw error;
+                }
+
+                if (!query) {
+                    stream.markdown('Please specify tag patterns on the first line.');
+                    return {};
+                }
+
+                const queryText = scope ? `${scope}:${TagQueryParser.format(query)}` : TagQueryParser.format(query);
+
                 // Track recent tags for completion suggestions
                 tags.forEach(tag => tagCompletionProvider.addRecentTag(tag));
 
-                // Get summary of matches for all tags (including referenced files)
-                const summary = await contentInjector.getMatchSummaryForTagsWithReferences(tags);
+                // Get summary of matches for the query (including referenced files) that fit into the token budget
+                const tokenBudget = budget ?? MemoryConfiguration.getTokenBudget();
+                const summary = await contentInjector.getMatchSummaryForQueryWithReferences(query, scope, tokenBudget);
 
                 if (summary.count === 0) {
-                    stream.markdown(`No memory files found with tags: **${tags.join(', ')}**`);
+                    stream.markdown(summary.droppedFiles.length > 0
+                        ? `None of the ${summary.droppedFiles.length} memory file(s) matching **${queryText}** fit into the ${AttachmentBudget.formatTokens(tokenBudget)} token budget.`
+                        : `No memory files found matching: **${queryText}**`);
                     return {};
                 }
 
                 // Get all matching memory file paths (including references)
                 const filePaths = summary.filePaths;
+                const linkChains = new Map(summary.linkedFiles.map(linkedFile => [linkedFile.filePath, linkedFile.chain]));
 
                 // Notify user about found files
-                stream.markdown(`✅ Found ${filePaths.length} memory file(s) matching tags **${tags.join(', ')}**\n\n`);
-                // dump all file names
+                const tokenEstimate = summary.estimatedTokens !== undefined
+                    ? ` (~${AttachmentBudget.formatTokens(summary.estimatedTokens)} of ${AttachmentBudget.formatTokens(tokenBudget)} tokens)`
+                    : '';
+                stream.markdown(`✅ Found ${filePaths.length} memory file(s) matching **${queryText}**${tokenEstimate}\n\n`);
+                // dump all file names, with the link chain that pulled in referenced files
                 filePaths.forEach(path => {
                     const fileName = path.split(/[/\\]/).pop() || path;
-                    stream.markdown(`- ${fileName}\n`);
+                    const chain = linkChains.get(path);
+                    stream.markdown(`- ${fileName}${chain ? ` (linked via ${ContentInjectionEngine.formatLinkChain(chain)})` : ''}\n`);
                 });
                 stream.markdown('\n');
 
+                // Explain which files were left out to stay within the budget
+                if (summary.droppedFiles.length > 0) {
+                    stream.markdown(`⚠️ Left out ${summary.droppedFiles.length} file(s) to stay within the ${AttachmentBudget.formatTokens(tokenBudget)} token budget:\n\n`);
+                    summary.droppedFiles.forEach(droppedFile => {
+                        const fileName = droppedFile.filePath.split(/[/\\]/).pop() || droppedFile.filePath;
+                        stream.markdown(`- ${fileName}: ${droppedFile.reason}\n`);
+                    });
+                    stream.markdown('\n');
+                }
+
                 // Phase 2: Process the user's actual prompt (everything except first line)
-                if (remainingPrompt) {
+                const chatMode = mode ?? MemoryConfiguration.getChatMode();
+                if (remainingPrompt && chatMode === 'answer') {
+                    // Answer here with the matched memories in the prompt; linked files are resolved into their content
+                    const linkedFilePaths = new Set(linkChains.keys());
+                    const memoryFilePaths = filePaths.filter(filePath => !linkedFilePaths.has(filePath));
+                    await answerEngine.answer(request.model, remainingPrompt, memoryFilePaths, filePaths, stream, token);
+
+                    return {
+                        metadata: {
+                            command: 'memory-tag',
+                            mode: chatMode,
+                            tagPatterns: tags,
+                            tagQuery: queryText,
+                            matchCount: summary.count,
+                            attachedFiles: filePaths,
+                            linkedFiles: summary.linkedFiles,
+                            droppedFiles: summary.droppedFiles.map(droppedFile => droppedFile.filePath),
+                            userPrompt: remainingPrompt
+                        }
+                    };
+                } else if (remainingPrompt) {
 
                     for (const filePath of filePaths) {
                         const fileUri = vscode.Uri.file(filePath);
                         stream.reference(fileUri);
                     }
 
-                    setTimeout(async () => {
-                        try {
-                            const fileUris = filePaths.map(path => vscode.Uri.file(path));
-
-                            // Then open chat with the user's question
-                            await vscode.commands.executeCommand(
-                                'workbench.action.chat.open',
-                                {
-                                    query: remainingPrompt,
-                                    attachFiles: fileUris
-                                }
-                            );
-
-                        } catch (error) {
-                            Logger.getInstance().error('Failed to open chat', error);
-                        }
-                    }, 500);
+                    openChatWithFiles(remainingPrompt, filePaths);
 
                     return {
                         metadata: {
                             command: 'memory-tag',
                             tagPatterns: tags,
+                            tagQuery: queryText,
                             matchCount: summary.count,
                             attachedFiles: filePaths,
+                            linkedFiles: summary.linkedFiles,
+                            droppedFiles: summary.droppedFiles.map(droppedFile => droppedFile.filePath),
                             userPrompt: remainingPrompt
                         }
                     };
@@ -174,17 +321,147 @@ export async function activate(context: vscode.ExtensionContext) {
                         metadata: {
                             command: 'memory-tag',
                             tagPatterns: tags,
+                            tagQuery: queryText,
                             matchCount: summary.count,
-                            attachedFiles: filePaths
+                            attachedFiles: filePaths,
+                            linkedFiles: summary.linkedFiles,
+                            droppedFiles: summary.droppedFiles.map(droppedFile => droppedFile.filePath)
                         }
                     };
                 }
             } catch (error) {
-                stream.markdown(`Error retrieving memories: ${error instanceof Error ? error.message : String(error)}`);
+                reportChatError(stream, 'Error retrieving memories', 'Failed to answer a /memory-tag request', error);
+                return {};
+            }
+        } else if (request.command === 'memory-search') {
+            try {
+                const query = request.prompt.trim();
+                if (!query) {
+                    stream.markdown('Please specify what to search for.\n\nExample:\n```\n@memory /memory-search connection pooling\n```');
+                    return {};
+                }
+
+                const matches = memoryManager.getFullTextIndex().search(query);
+                if (matches.length === 0) {
+                    stream.markdown(`No memory files found containing: **${query}**`);
+                    return {};
+                }
+
+                const shownMatches = matches.slice(0, MemorySearchCommands.MAX_RESULTS);
+                stream.markdown(`Found ${matches.length} memory file(s) containing **${query}**${matches.length > shownMatches.length ? ` (showing the first ${shownMatches.length})` : ''}:\n\n`);
+                for (const match of shownMatches) {
+                    stream.markdown(`${searchCommands.formatMatch(match)}\n`);
+                    stream.reference(vscode.Uri.file(match.filePath));
+                }
+
+                return {
+                    metadata: {
+                        command: 'memory-search',
+                        query,
+                        matchCount: matches.length,
+                        matchedFiles: shownMatches.map(match => match.filePath)
+                    }
+                };
+            } catch (error) {
+                reportChatError(stream, 'Error searching memories', 'Failed to answer a /memory-search request', error);
+                return {};
+            }
+        } else if (request.command === 'memory-context') {
+            try {
+                const contextUris = MemoryContextProvider.getContextUris(request.references);
+                if (contextUris.length === 0) {
+                    stream.markdown('Open a file or reference files in your request (e.g. `#file`) to find the memories that apply to them.');
+                    return {};
+                }
+
+                const matches = contextProvider.findMatches(contextUris);
+                const fileNames = contextUris.map(uri => uri.fsPath.split(/[/\\]/).pop() || uri.fsPath);
+                if (matches.length === 0) {
+                    stream.markdown(`No memories apply to ${fileNames.join(', ')}. Add \`appliesTo\` globs to the frontmatter of memories to connect them to files, e.g. \`appliesTo: ["src/db/**", "*.sql"]\`.`);
+                    return {};
+                }
+
+                const filePaths = matches.map(match => match.filePath);
+                stream.markdown(`✅ Found ${matches.length} memory file(s) for ${fileNames.join(', ')}:\n\n`);
+                for (const match of matches) {
+                    const title = memoryManager.getMemoryIndex().get(match.filePath)?.frontmatter.title ?? match.filePath;
+                    const fileName = match.filePath.split(/[/\\]/).pop() || match.filePath;
+                    stream.markdown(`- **${title}** (${fileName}): applies to ${match.patterns.map(pattern => `\`${pattern}\``).join(', ')}\n`);
+                }
+                stream.markdown('\n');
+
+                const prompt = request.prompt.trim();
+                if (prompt && MemoryConfiguration.getChatMode() === 'answer') {
+                    await answerEngine.answer(request.model, prompt, filePaths, filePaths, stream, token);
+                } else {
+                    for (const filePath of filePaths) {
+                        stream.reference(vscode.Uri.file(filePath));
+                    }
+                    if (prompt) {
+                        openChatWithFiles(prompt, filePaths);
+                    }
+                }
+
+                return {
+                    metadata: {
+                        command: 'memory-context',
+                        contextFiles: contextUris.map(uri => uri.fsPath),
+                        attachedFiles: filePaths,
+                        userPrompt: prompt || undefined
+                    }
+                };
+            } catch (error) {
+                reportChatError(stream, 'Error finding the memories for the context', 'Failed to answer a /memory-context request', error);
+                return {};
+            }
+        } else if (request.command === 'memory-auto' || (!request.command && MemoryConfiguration.getSuggestWithoutCommand())) {
+            try {
+                const prompt = request.prompt.trim();
+                if (!prompt) {
+                    stream.markdown('Please ask a question, the matching memories are picked for you.\n\nExample:\n```\n@memory /memory-auto How big should the connection pool be?\n```');
+                    return {};
+                }
+
+                const suggestions = suggestionEngine.suggest(prompt, MemoryConfiguration.getSuggestionCount());
+                if (suggestions.length === 0) {
+                    stream.markdown('No memory files match your question. Rephrase it, or pick memories by tag with `@memory /memory-tag <tags>`.');
+                    return {};
+                }
+
+                const filePaths = suggestions.map(suggestion => suggestion.filePath);
+                stream.markdown(`🔎 Suggested ${suggestions.length} memory file(s) for your question:\n\n`);
+                for (const suggestion of suggestions) {
+                    const fileName = suggestion.filePath.split(/[/\\]/).pop() || suggestion.filePath;
+                    const matchedTerms = suggestion.matchedTerms.map(term => `\`${term}\``).join(', ');
+                    stream.markdown(`- **${suggestion.title}** (${fileName}): ${MemorySuggestionEngine.formatConfidence(suggestion.confidence)} confidence, matched ${matchedTerms}\n`);
+                }
+
+                const suggestedTags = Array.from(new Set(suggestions.flatMap(suggestion => suggestion.tags))).slice(0, 3);
+                stream.markdown(`\nNot the right memories? Rephrase your question or pick them by tag, e.g. \`@memory /memory-tag ${suggestedTags.join(' | ')}\`.\n\n`);
+
+                if (MemoryConfiguration.getChatMode() === 'answer') {
+                    await answerEngine.answer(request.model, prompt, filePaths, filePaths, stream, token);
+                } else {
+                    for (const filePath of filePaths) {
+                        stream.reference(vscode.Uri.file(filePath));
+                    }
+                    openChatWithFiles(prompt, filePaths);
+                }
+
+                return {
+                    metadata: {
+                        command: 'memory-auto',
+                        suggestions: suggestions.map(({ filePath, confidence, matchedTerms }) => ({ filePath, confidence, matchedTerms })),
+                        attachedFiles: filePaths,
+                        userPrompt: prompt
+                    }
+                };
+            } catch (error) {
+                reportChatError(stream, 'Error suggesting memories', 'Failed to answer a /memory-auto request', error);
                 return {};
             }
         } else {
-            stream.markdown('Unknown command. Use `@memory /memory-tag <tags>` with your question on the next line.\n\nExample:\n```\n@memory /memory-tag backend.database\nHow does connection pooling work?\n```');
+            stream.markdown('Unknown command. Use `@memory /memory-tag <tags>` with your question on the next line, `@memory /memory-auto <question>` to have matching memories picked for you, `@memory /memory-context` for the memories that apply to the open file, or `@memory /memory-search <terms>` to search the memory contents.\n\nExample:\n```\n@memory /memory-tag backend.database\nHow does connection pooling work?\n```');
         }
 
         return {};
@@ -194,14 +471,41 @@ export async function activate(context: vscode.ExtensionContext) {
 
     context.subscriptions.push(participant);
     context.subscriptions.push({ dispose: () => memoryManager.dispose() });
+
+    // Expose the public API to other extensions
+    return MemoryManagerApiProvider.create(
+        memoryManager.getMemoryIndex(),
+        memoryManager.getTagSystem(),
+        contentInjector,
+        memoryManager.onDidChangeIndex
+    );
+}
+
+/**
+ * Opens a new chat turn with a question and memory files attached
+ * Delayed so the current @memory response can finish first
+ */
+function openChatWithFiles(query: string, filePaths: string[]): void {
+    setTimeout(async () => {
+        try {
+            await vscode.commands.executeCommand('workbench.action.chat.open', {
+                query,
+                attachFiles: filePaths.map(filePath => vscode.Uri.file(filePath))
+            });
+        } catch (error) {
+            Logger.getInstance().error('Failed to open chat', error);
+        }
+    }, 500);
 }
 
-export function deactivate() {
+export async function deactivate() {
     const logger = Logger.getInstance();
     logger.info('VS Code Memory Manager extension deactivated');
 
     // Feature 10, Story 5: Proper resource cleanup to prevent memory leaks
     if (memoryManager) {
+        // Persist the latest index so the next activation can skip unchanged files
+        await memoryManager.saveCache();
         memoryManager.dispose();
     }
 }
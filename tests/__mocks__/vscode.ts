@@ -35,10 +35,52 @@ export class OutputChannel {
     }
 }
 
+export class QuickPick<T> {
+    public items: T[] = [];
+    public selectedItems: T[] = [];
+    public value = '';
+    public title?: string;
+    public placeholder?: string;
+    public matchOnDescription = false;
+    public matchOnDetail = false;
+
+    private changeValueEmitter = new EventEmitter<string>();
+    private acceptEmitter = new EventEmitter<void>();
+    private hideEmitter = new EventEmitter<void>();
+
+    public onDidChangeValue = this.changeValueEmitter.event;
+    public onDidAccept = this.acceptEmitter.event;
+    public onDidHide = this.hideEmitter.event;
+
+    public show = jest.fn();
+    public hide = jest.fn(() => this.hideEmitter.fire());
+    public dispose = jest.fn();
+
+    /** Simulates typing in the quick pick */
+    public type(value: string): void {
+        this.value = value;
+        this.changeValueEmitter.fire(value);
+    }
+
+    /** Simulates accepting an item */
+    public accept(item: T): void {
+        this.selectedItems = [item];
+        this.acceptEmitter.fire();
+    }
+}
+
 export const window = {
     showInformationMessage: jest.fn(),
     showWarningMessage: jest.fn(),
     showErrorMessage: jest.fn(),
+    showInputBox: jest.fn(),
+    showQuickPick: jest.fn(),
+    showWorkspaceFolderPick: jest.fn(),
+    showTextDocument: jest.fn(),
+    createTreeView: jest.fn(() => ({ dispose: jest.fn() })),
+    createQuickPick: jest.fn(() => new QuickPick()),
+    activeTextEditor: undefined as any,
+    onDidChangeActiveTextEditor: jest.fn((_listener: (editor: any) => void) => ({ dispose: jest.fn() })),
     createOutputChannel: jest.fn((name: string) => new OutputChannel(name)),
     createStatusBarItem: jest.fn((alignment?: StatusBarAlignment, priority?: number) => {
         return new StatusBarItem(alignment || StatusBarAlignment.Left, priority || 0);
@@ -46,11 +88,22 @@ export const window = {
 };
 
 export const workspace = {
+    workspaceFolders: undefined as any,
+    getWorkspaceFolder: jest.fn((_uri: any): any => undefined),
+    onDidChangeWorkspaceFolders: jest.fn((_listener: (event: any) => void) => ({ dispose: jest.fn() })),
+    getConfiguration: jest.fn((_section?: string) => ({
+        get: jest.fn((_key: string, defaultValue?: any) => defaultValue),
+    })),
+    onDidChangeConfiguration: jest.fn((_listener: (event: any) => void) => ({ dispose: jest.fn() })),
+    findFiles: jest.fn(async () => []),
+    openTextDocument: jest.fn(async (uri: any) => ({ uri })),
+    applyEdit: jest.fn(async () => true),
     fs: {
         readFile: jest.fn(),
         writeFile: jest.fn(),
         stat: jest.fn(),
         readDirectory: jest.fn(),
+        createDirectory: jest.fn(),
     },
     createFileSystemWatcher: jest.fn(() => {
         const createCallback = jest.fn();
@@ -84,9 +137,26 @@ export class Uri {
         return new Uri(path);
     }
 
+    static joinPath(base: Uri, ...pathSegments: string[]): Uri {
+        return new Uri([base.fsPath.replace(/\/+$/, ''), ...pathSegments].join('/'));
+    }
+
+    public scheme = 'file';
+
     constructor(public fsPath: string) {}
 }
 
+export class Location {
+    constructor(public uri: Uri, public range: unknown) {}
+}
+
+export enum FileType {
+    Unknown = 0,
+    File = 1,
+    Directory = 2,
+    SymbolicLink = 64,
+}
+
 export class RelativePattern {
     constructor(public base: Uri, public pattern: string) {}
 }
@@ -201,8 +271,54 @@ export class DiagnosticCollection {
 
 export const languages = {
     createDiagnosticCollection: jest.fn((name: string) => new DiagnosticCollection(name)),
+    registerCodeActionsProvider: jest.fn(() => ({ dispose: jest.fn() })),
 };
 
+export class CodeActionKind {
+    static readonly QuickFix = new CodeActionKind('quickfix');
+
+    constructor(public value: string) {}
+}
+
+export class WorkspaceEdit {
+    public edits: { uri: Uri; range: Range; newText: string; metadata?: unknown }[] = [];
+
+    get size(): number {
+        return this.entries().length;
+    }
+
+    insert(uri: Uri, position: Position, newText: string, metadata?: unknown): void {
+        this.edits.push({ uri, range: new Range(position.line, position.character, position.line, position.character), newText, metadata });
+    }
+
+    replace(uri: Uri, range: Range, newText: string, metadata?: unknown): void {
+        this.edits.push({ uri, range, newText, metadata });
+    }
+
+    delete(uri: Uri, range: Range, metadata?: unknown): void {
+        this.edits.push({ uri, range, newText: '', metadata });
+    }
+
+    entries(): [Uri, { range: Range; newText: string }[]][] {
+        const byPath = new Map<string, [Uri, { range: Range; newText: string }[]]>();
+        for (const edit of this.edits) {
+            if (!byPath.has(edit.uri.fsPath)) {
+                byPath.set(edit.uri.fsPath, [edit.uri, []]);
+            }
+            byPath.get(edit.uri.fsPath)![1].push({ range: edit.range, newText: edit.newText });
+        }
+        return Array.from(byPath.values());
+    }
+}
+
+export class CodeAction {
+    public edit?: WorkspaceEdit;
+    public diagnostics?: Diagnostic[];
+    public isPreferred?: boolean;
+
+    constructor(public title: string, public kind?: CodeActionKind) {}
+}
+
 export enum StatusBarAlignment {
     Left = 1,
     Right = 2,
@@ -215,8 +331,9 @@ export class ThemeColor {
 export class StatusBarItem {
     public text: string = '';
     public tooltip?: string;
-    public command?: string;
+    public command?: string | { command: string; title: string; arguments?: any[] };
     public backgroundColor?: ThemeColor;
+    public visible = false;
     public alignment: StatusBarAlignment;
     public priority: number;
 
@@ -226,11 +343,11 @@ export class StatusBarItem {
     }
 
     show(): void {
-        // Mock implementation
+        this.visible = true;
     }
 
     hide(): void {
-        // Mock implementation
+        this.visible = false;
     }
 
     dispose(): void {
@@ -243,4 +360,87 @@ export const commands = {
         return { dispose: jest.fn() };
     }),
     executeCommand: jest.fn(),
-};
\ No newline at end of file
+};
+export class EventEmitter<T> {
+    private listeners: ((event: T) => void)[] = [];
+
+    event = (listener: (event: T) => void) => {
+        this.listeners.push(listener);
+        return { dispose: () => { this.listeners = this.listeners.filter(other => other !== listener); } };
+    };
+
+    fire(event: T): void {
+        for (const listener of [...this.listeners]) {
+            listener(event);
+        }
+    }
+
+    dispose(): void {
+        this.listeners = [];
+    }
+}
+
+export enum TreeItemCollapsibleState {
+    None = 0,
+    Collapsed = 1,
+    Expanded = 2,
+}
+
+export class TreeItem {
+    public description?: string;
+    public tooltip?: string;
+    public contextValue?: string;
+    public resourceUri?: Uri;
+    public command?: { command: string; title: string; arguments?: any[] };
+    public iconPath?: unknown;
+
+    constructor(public label: string, public collapsibleState?: TreeItemCollapsibleState) {}
+}
+
+export class ThemeIcon {
+    constructor(public id: string) {}
+}
+
+export const env = {
+    clipboard: {
+        writeText: jest.fn(),
+    },
+};
+
+export const lm = {
+    registerTool: jest.fn(() => ({ dispose: jest.fn() })),
+};
+
+export class LanguageModelTextPart {
+    constructor(public value: string) {}
+}
+
+export class LanguageModelToolResult {
+    constructor(public content: unknown[]) {}
+}
+
+export class CancellationError extends Error {
+    constructor() {
+        super('Canceled');
+        this.name = 'Canceled';
+    }
+}
+
+export class LanguageModelChatMessage {
+    constructor(public role: string, public content: string) {}
+
+    static User(content: string): LanguageModelChatMessage {
+        return new LanguageModelChatMessage('user', content);
+    }
+
+    static Assistant(content: string): LanguageModelChatMessage {
+        return new LanguageModelChatMessage('assistant', content);
+    }
+}
+
+export class LanguageModelError extends Error {
+    constructor(message: string, public code: string = 'Unknown') {
+        super(message);
+        this.name = 'LanguageModelError';
+    }
+}
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { MemoryManagerApiProvider } from '../../src/api/MemoryManagerApiProvider';
+import { MemoryManagerApi } from '../../src/api/MemoryManagerApi';
+import { ContentInjectionEngine } from '../../src/chat/ContentInjectionEngine';
+import { MemoryIndex } from '../../src/core/MemoryIndex';
+import { TagSystem } from '../../src/core/TagSystem';
+import { Emitter } from '../../src/core/Emitter';
+
+jest.mock('vscode');
+
+describe('MemoryManagerApiProvider', () => {
+    let memoryIndex: MemoryIndex;
+    let tagSystem: TagSystem;
+    let contentInjector: ContentInjectionEngine;
+    let indexChangeEmitter: Emitter<void>;
+    let api: MemoryManagerApi;
+
+    const addMemory = (filePath: string, title: string, tags: string[], workspaceFolder?: string, priority?: string) => {
+        memoryIndex.add(filePath, { title, tags, ...(priority ? { priority } : {}) }, `# ${title}`, { workspaceFolder });
+        tagSystem.addTags(filePath, tags);
+    };
+
+    beforeEach(() => {
+        memoryIndex = new MemoryIndex();
+        tagSystem = new TagSystem();
+        contentInjector = new ContentInjectionEngine(memoryIndex, tagSystem);
+        indexChangeEmitter = new Emitter<void>();
+        api = MemoryManagerApiProvider.create(memoryIndex, tagSystem, contentInjector, indexChangeEmitter.event);
+
+        addMemory('/ws/Memory/pool.md', 'Connection Pooling', ['backend.database', 'performance'], 'ws');
+        addMemory('/ws/Memory/legacy.md', 'Legacy API', ['backend.legacy'], 'ws');
+        addMemory('/other/Memory/auth.md', 'Authentication', ['backend.security'], 'other', 'high');
+    });
+
+    it('reports version 1', () => {
+        expect(api.version).toBe(1);
+    });
+
+    it('cannot be modified by callers', () => {
+        expect(Object.isFrozen(api)).toBe(true);
+    });
+
+    describe('query', () => {
+        it('returns the files matching a query, highest priority first', () => {
+            expect(api.query('backend.*')).toEqual(['/other/Memory/auth.md', '/ws/Memory/pool.md', '/ws/Memory/legacy.md']);
+        });
+
+        it('supports boolean operators', () => {
+            expect(api.query('backend.* -backend.legacy & -backend.security')).toEqual(['/ws/Memory/pool.md']);
+        });
+
+        it('restricts the matches to a workspace folder', () => {
+            expect(api.query('backend.*', { workspaceFolder: 'ws' })).toEqual(['/ws/Memory/pool.md', '/ws/Memory/legacy.md']);
+        });
+
+        it('returns no files for an empty query', () => {
+            expect(api.query('  ')).toEqual([]);
+        });
+
+        it('throws a TagQuerySyntaxError for malformed queries', () => {
+            expect(() => api.query('(backend')).toThrow(expect.objectContaining({ name: 'TagQuerySyntaxError' }));
+        });
+    });
+
+    describe('getEntry', () => {
+        it('returns the indexed memory', () => {
+            expect(api.getEntry('/ws/Memory/pool.md')).toEqual(expect.objectContaining({
+                filePath: '/ws/Memory/pool.md',
+                title: 'Connection Pooling',
+                tags: ['backend.database', 'performance'],
+                content: '# Connection Pooling',
+                workspaceFolder: 'ws'
+            }));
+        });
+
+        it('returns undefined for files that are not indexed', () => {
+            expect(api.getEntry('/ws/Memory/missing.md')).toBeUndefined();
+        });
+
+        it('returns a copy that does not change the index', () => {
+            const entry = api.getEntry('/ws/Memory/pool.md')!;
+            entry.tags.push('changed');
+            (entry.frontmatter as Record<string, unknown>).title = 'Changed';
+
+            expect(memoryIndex.get('/ws/Memory/pool.md')!.frontmatter).toEqual({
+                title: 'Connection Pooling',
+                tags: ['backend.database', 'performance']
+            });
+        });
+    });
+
+    it('lists all tags sorted, including parent tags', () => {
+        expect(api.getTags()).toEqual([
+            'backend',
+            'backend.database',
+            'backend.legacy',
+            'backend.security',
+            'performance'
+        ]);
+    });
+
+    it('resolves memory contents through the content injection engine', async () => {
+        const contents = [{ filePath: '/ws/Memory/pool.md', title: 'Connection Pooling', content: 'Pool content' }];
+        const getMemoryContents = jest.spyOn(contentInjector, 'getMemoryContents').mockResolvedValue(contents);
+
+        await expect(api.getMemoryContents(['/ws/Memory/pool.md'])).resolves.toEqual(contents);
+        expect(getMemoryContents).toHaveBeenCalledWith(['/ws/Memory/pool.md']);
+    });
+
+    it('notifies subscribers when the index changed', () => {
+        const listener = jest.fn();
+        const subscription = api.onDidChangeIndex(listener);
+
+        indexChangeEmitter.fire();
+        subscription.dispose();
+        indexChangeEmitter.fire();
+
+        expect(listener).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,82 @@
+import { AttachmentBudget } from '../../src/chat/AttachmentBudget';
+
+describe('AttachmentBudget', () => {
+    describe('parseBudget', () => {
+        it('should parse plain and abbreviated token counts', () => {
+            expect(AttachmentBudget.parseBudget('8000')).toBe(8000);
+            expect(AttachmentBudget.parseBudget('8k')).toBe(8000);
+            expect(AttachmentBudget.parseBudget('1.5K')).toBe(1500);
+            expect(AttachmentBudget.parseBudget('1m')).toBe(1000000);
+        });
+
+        it('should treat none, off and 0 as unlimited', () => {
+            expect(AttachmentBudget.parseBudget('none')).toBe(0);
+            expect(AttachmentBudget.parseBudget('off')).toBe(0);
+            expect(AttachmentBudget.parseBudget('0')).toBe(0);
+        });
+
+        it('should return undefined for invalid values', () => {
+            expect(AttachmentBudget.parseBudget('')).toBeUndefined();
+            expect(AttachmentBudget.parseBudget('lots')).toBeUndefined();
+            expect(AttachmentBudget.parseBudget('-5')).toBeUndefined();
+        });
+    });
+
+    describe('estimateTokens', () => {
+        it('should estimate about four characters per token', () => {
+            expect(AttachmentBudget.estimateTokens(0)).toBe(0);
+            expect(AttachmentBudget.estimateTokens(4000)).toBe(1000);
+            expect(AttachmentBudget.estimateTokens(4001)).toBe(1001);
+        });
+    });
+
+    describe('formatTokens', () => {
+        it('should abbreviate thousands', () => {
+            expect(AttachmentBudget.formatTokens(950)).toBe('950');
+            expect(AttachmentBudget.formatTokens(8000)).toBe('8k');
+            expect(AttachmentBudget.formatTokens(1540)).toBe('1.5k');
+        });
+    });
+
+    describe('select', () => {
+        it('should keep every file without a budget', () => {
+            const selection = AttachmentBudget.select([
+                { filePath: '/memory/a.md', estimatedTokens: 5000 },
+                { filePath: '/memory/b.md', estimatedTokens: 5000 }
+            ], 0);
+
+            expect(selection.filePaths).toEqual(['/memory/a.md', '/memory/b.md']);
+            expect(selection.droppedFiles).toEqual([]);
+            expect(selection.estimatedTokens).toBe(10000);
+        });
+
+        it('should drop files that do not fit and keep smaller lower-ranked files', () => {
+            const selection = AttachmentBudget.select([
+                { filePath: '/memory/a.md', estimatedTokens: 600 },
+                { filePath: '/memory/big.md', estimatedTokens: 900 },
+                { filePath: '/memory/c.md', estimatedTokens: 300 }
+            ], 1000);
+
+            expect(selection.filePaths).toEqual(['/memory/a.md', '/memory/c.md']);
+            expect(selection.estimatedTokens).toBe(900);
+            expect(selection.droppedFiles).toEqual([{
+                filePath: '/memory/big.md',
+                estimatedTokens: 900,
+                reason: 'needs ~900 tokens, only ~400 left of the 1k budget'
+            }]);
+        });
+
+        it('should drop linked files together with the file that links to them', () => {
+            const selection = AttachmentBudget.select([
+                { filePath: '/memory/big.md', estimatedTokens: 2000 },
+                { filePath: '/memory/schema.sql', estimatedTokens: 10, linkedFrom: '/memory/big.md' }
+            ], 1000);
+
+            expect(selection.filePaths).toEqual([]);
+            expect(selection.droppedFiles.map(dropped => dropped.reason)).toEqual([
+                'needs ~2k tokens, only ~1k left of the 1k budget',
+                'linked from big.md, which was dropped'
+            ]);
+        });
+    });
+});
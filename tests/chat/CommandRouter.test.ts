@@ -105,6 +105,99 @@ describe('CommandRouter', () => {
         });
     });
 
+    describe('boolean tag queries', () => {
+        it('should expose the raw expression of the first line', () => {
+            const result = CommandRouter.parseMemoryTagCommand('backend.database & security\nHow are credentials stored?');
+            expect(result.expression).toBe('backend.database & security');
+            expect(result.remainingPrompt).toBe('How are credentials stored?');
+        });
+
+        it('should extract every pattern referenced by the query', () => {
+            const result = CommandRouter.parseMemoryTagCommand('(backend.* | api.*) -backend.legacy');
+            expect(result.tags).toEqual(['backend.*', 'api.*', 'backend.legacy']);
+        });
+
+        it('should fall back to separator splitting for malformed queries', () => {
+            const result = CommandRouter.parseMemoryTagCommand('backend.database,(api.auth');
+            expect(result.tags).toEqual(['backend.database', '(api.auth']);
+            expect(result.expression).toBe('backend.database,(api.auth');
+        });
+    });
+
+    describe('workspace folder scopes', () => {
+        it('should extract a known workspace folder scope', () => {
+            const result = CommandRouter.parseMemoryTagCommand('api:backend.*\nHow are routes registered?', ['api', 'web']);
+            expect(result.scope).toBe('api');
+            expect(result.expression).toBe('backend.*');
+            expect(result.tags).toEqual(['backend.*']);
+        });
+
+        it('should match scopes case-insensitively and return the folder name', () => {
+            const result = CommandRouter.parseMemoryTagCommand('API: backend.database', ['api']);
+            expect(result.scope).toBe('api');
+            expect(result.tags).toEqual(['backend.database']);
+        });
+
+        it('should keep the colon as a separator when the prefix is not a folder', () => {
+            const result = CommandRouter.parseMemoryTagCommand('backend.database:api.auth', ['web']);
+            expect(result.scope).toBeUndefined();
+            expect(result.tags).toEqual(['backend.database', 'api.auth']);
+        });
+    });
+
+    describe('token budget option', () => {
+        it('should extract the budget and keep it out of the tag query', () => {
+            const result = CommandRouter.parseMemoryTagCommand('backend.* budget=8k\nHow do I deploy?');
+            expect(result.budget).toBe(8000);
+            expect(result.expression).toBe('backend.*');
+            expect(result.tags).toEqual(['backend.*']);
+            expect(result.remainingPrompt).toBe('How do I deploy?');
+        });
+
+        it('should combine the budget with a workspace folder scope', () => {
+            const result = CommandRouter.parseMemoryTagCommand('budget=2000 api:backend.database', ['api']);
+            expect(result.budget).toBe(2000);
+            expect(result.scope).toBe('api');
+            expect(result.tags).toEqual(['backend.database']);
+        });
+
+        it('should report invalid budget values', () => {
+            const result = CommandRouter.parseMemoryTagCommand('backend.* budget=lots');
+            expect(result.budget).toBeUndefined();
+            expect(result.invalidBudget).toBe('lots');
+            expect(result.tags).toEqual(['backend.*']);
+        });
+
+        it('should leave the budget undefined when not given', () => {
+            expect(CommandRouter.parseMemoryTagCommand('backend.*').budget).toBeUndefined();
+        });
+    });
+
+    describe('chat mode option', () => {
+        it('should extract the mode and keep it out of the tag query', () => {
+            const result = CommandRouter.parseMemoryTagCommand('backend.* mode=answer budget=8k\nHow do I deploy?');
+            expect(result.mode).toBe('answer');
+            expect(result.budget).toBe(8000);
+            expect(result.expression).toBe('backend.*');
+            expect(result.remainingPrompt).toBe('How do I deploy?');
+        });
+
+        it('should accept the mode in any case', () => {
+            expect(CommandRouter.parseMemoryTagCommand('MODE=Attach backend.*').mode).toBe('attach');
+        });
+
+        it('should report invalid modes', () => {
+            const result = CommandRouter.parseMemoryTagCommand('backend.* mode=chat');
+            expect(result.mode).toBeUndefined();
+            expect(result.invalidMode).toBe('chat');
+            expect(result.tags).toEqual(['backend.*']);
+        });
+
+        it('should leave the mode undefined when not given', () => {
+            expect(CommandRouter.parseMemoryTagCommand('backend.*').mode).toBeUndefined();
+        });
+    });
+
     describe('parseMemoryTagCommandLegacy (backward compatibility)', () => {
         it('should return first tag for backward compatibility', () => {
             const result = CommandRouter.parseMemoryTagCommandLegacy('backend.database,api.auth');
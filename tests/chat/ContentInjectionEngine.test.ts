@@ -58,6 +58,10 @@ describe('ContentInjectionEngine', () => {
             removeTags: jest.fn(),
             queryByTag: jest.fn(),
             queryByWildcard: jest.fn(),
+            // Dispatches to the mocked queryByTag and queryByWildcard
+            query(pattern: string) {
+                return TagSystem.prototype.query.call(this, pattern);
+            },
             getAllTags: jest.fn(),
             getTagsForFile: jest.fn(),
             clear: jest.fn(),
@@ -264,6 +268,80 @@ describe('ContentInjectionEngine', () => {
         });
     });
 
+    describe('getMatchSummaryForQuery', () => {
+        it('should intersect files for AND queries', () => {
+            mockTagSystem.queryByTag
+                .mockReturnValueOnce(['/memory/db.md', '/memory/pool.md'])
+                .mockReturnValueOnce(['/memory/db.md', '/memory/auth.md']);
+
+            const result = contentInjectionEngine.getMatchSummaryForQuery({
+                type: 'and',
+                operands: [
+                    { type: 'tag', pattern: 'backend.database' },
+                    { type: 'tag', pattern: 'security' }
+                ]
+            });
+
+            expect(result).toEqual({ count: 1, filePaths: ['/memory/db.md'] });
+        });
+
+        it('should exclude files for NOT queries', () => {
+            mockTagSystem.queryByWildcard.mockReturnValueOnce(['/memory/db.md', '/memory/legacy.md']);
+            mockTagSystem.queryByTag.mockReturnValueOnce(['/memory/legacy.md']);
+            (mockTagSystem as any).getAllFilePaths = jest.fn(() => ['/memory/db.md', '/memory/legacy.md', '/memory/ui.md']);
+
+            const result = contentInjectionEngine.getMatchSummaryForQuery({
+                type: 'and',
+                operands: [
+                    { type: 'tag', pattern: 'backend.*' },
+                    { type: 'not', operand: { type: 'tag', pattern: 'backend.legacy' } }
+                ]
+            });
+
+            expect(result).toEqual({ count: 1, filePaths: ['/memory/db.md'] });
+        });
+    });
+
+    describe('priority ordering', () => {
+        it('should return matched memories with the highest priority first', () => {
+            const priorities: Record<string, string | number | undefined> = {
+                '/memory/low.md': 'low',
+                '/memory/none.md': undefined,
+                '/memory/high.md': 'high',
+                '/memory/top.md': 10
+            };
+            mockMemoryIndex.get.mockImplementation((filePath: string) => ({
+                filePath,
+                frontmatter: { title: filePath, tags: ['test'], priority: priorities[filePath] },
+                content: '',
+                lastModified: new Date(0)
+            }) as any);
+            mockTagSystem.queryByTag.mockReturnValue(['/memory/low.md', '/memory/none.md', '/memory/high.md', '/memory/top.md']);
+
+            expect(contentInjectionEngine.getMatchSummaryForTags(['test']).filePaths)
+                .toEqual(['/memory/top.md', '/memory/high.md', '/memory/none.md', '/memory/low.md']);
+            expect(contentInjectionEngine.getMatchSummaryForQuery({ type: 'tag', pattern: 'test' }).filePaths)
+                .toEqual(['/memory/top.md', '/memory/high.md', '/memory/none.md', '/memory/low.md']);
+        });
+    });
+
+    describe('getMatchSummaryForQuery with workspace folder scope', () => {
+        it('should keep only memories indexed from the scoped folder', () => {
+            mockTagSystem.queryByTag.mockReturnValueOnce(['/api/Memory/db.md', '/web/Memory/db.md']);
+            mockMemoryIndex.get.mockImplementation((filePath: string) => ({
+                filePath,
+                frontmatter: { title: 'db', tags: ['backend.database'] },
+                content: '',
+                lastModified: new Date(),
+                workspaceFolder: filePath.startsWith('/api/') ? 'api' : 'web'
+            }));
+
+            const result = contentInjectionEngine.getMatchSummaryForQuery({ type: 'tag', pattern: 'backend.database' }, 'api');
+
+            expect(result).toEqual({ count: 1, filePaths: ['/api/Memory/db.md'] });
+        });
+    });
+
     describe('attachFilesByTag with references', () => {
         const mockReadFile = fs.promises.readFile as jest.MockedFunction<typeof fs.promises.readFile>;
         const mockAccess = fs.promises.access as jest.MockedFunction<typeof fs.promises.access>;
@@ -467,6 +545,182 @@ See [external docs](https://example.com/docs) and [local file](./local.ts).`);
         });
     });
 
+    describe('recursive link resolution', () => {
+        const mockReadFile = fs.promises.readFile as jest.MockedFunction<typeof fs.promises.readFile>;
+        const mockAccess = fs.promises.access as jest.MockedFunction<typeof fs.promises.access>;
+
+        const mockFiles = (files: Record<string, string>) => {
+            mockReadFile.mockImplementation((async (filePath: string) => {
+                if (filePath in files) {
+                    return files[filePath];
+                }
+                throw new Error('File not found');
+            }) as any);
+            mockAccess.mockImplementation((async (filePath: string) => {
+                if (!(filePath in files)) {
+                    throw new Error('File not found');
+                }
+            }) as any);
+        };
+
+        beforeEach(() => {
+            mockReadFile.mockReset();
+            mockAccess.mockReset();
+            contentInjectionEngine.setMaxLinkDepth(3);
+        });
+
+        afterEach(() => {
+            mockReadFile.mockReset();
+            mockAccess.mockReset();
+        });
+
+        it('should follow links through an index page', async () => {
+            mockTagSystem.queryByTag.mockReturnValueOnce(['/memory/main.md']);
+            mockFiles({
+                '/memory/main.md': '---\ntitle: Main\ntags: [test]\n---\n\nSee [index](./index.md).',
+                '/memory/index.md': 'Guides: [setup](./guides/setup.md)',
+                '/memory/guides/setup.md': 'Setup guide.'
+            });
+
+            const summary = await contentInjectionEngine.getMatchSummaryForTagsWithReferences(['test']);
+
+            expect(summary.filePaths).toEqual(['/memory/main.md', '/memory/index.md', '/memory/guides/setup.md']);
+            expect(summary.linkedFiles).toEqual([
+                { filePath: '/memory/index.md', depth: 1, chain: ['/memory/main.md', '/memory/index.md'] },
+                {
+                    filePath: '/memory/guides/setup.md',
+                    depth: 2,
+                    chain: ['/memory/main.md', '/memory/index.md', '/memory/guides/setup.md']
+                }
+            ]);
+        });
+
+        it('should stop at the configured depth', async () => {
+            contentInjectionEngine.setMaxLinkDepth(1);
+            mockTagSystem.queryByTag.mockReturnValueOnce(['/memory/main.md']);
+            mockFiles({
+                '/memory/main.md': '---\ntitle: Main\ntags: [test]\n---\n\nSee [index](./index.md).',
+                '/memory/index.md': 'Guides: [setup](./setup.md)',
+                '/memory/setup.md': 'Setup guide.'
+            });
+
+            const result = await contentInjectionEngine.attachFilesByTag('test');
+
+            expect(result).toEqual(['/memory/main.md', '/memory/index.md']);
+        });
+
+        it('should not follow links when the depth is 0', async () => {
+            contentInjectionEngine.setMaxLinkDepth(0);
+            mockTagSystem.queryByTag.mockReturnValueOnce(['/memory/main.md']);
+            mockFiles({
+                '/memory/main.md': '---\ntitle: Main\ntags: [test]\n---\n\nSee [index](./index.md).',
+                '/memory/index.md': 'Index.'
+            });
+
+            const result = await contentInjectionEngine.attachFilesByTag('test');
+
+            expect(result).toEqual(['/memory/main.md']);
+            expect(mockReadFile).not.toHaveBeenCalled();
+        });
+
+        it('should stop at cycles and attach every file once', async () => {
+            mockTagSystem.queryByTag.mockReturnValueOnce(['/memory/a.md', '/memory/b.md']);
+            mockFiles({
+                '/memory/a.md': '---\ntitle: A\ntags: [test]\n---\n\nSee [b](./b.md) and [c](./c.md).',
+                '/memory/b.md': '---\ntitle: B\ntags: [test]\n---\n\nSee [a](./a.md).',
+                '/memory/c.md': 'Back to [a](./a.md) and [c](./c.md).'
+            });
+
+            const summary = await contentInjectionEngine.getMatchSummaryForTagsWithReferences(['test']);
+
+            expect(summary.filePaths).toEqual(['/memory/a.md', '/memory/b.md', '/memory/c.md']);
+            expect(summary.linkedFiles).toEqual([
+                { filePath: '/memory/c.md', depth: 1, chain: ['/memory/a.md', '/memory/c.md'] }
+            ]);
+        });
+
+        it('should only follow links inside Markdown files', async () => {
+            mockTagSystem.queryByTag.mockReturnValueOnce(['/memory/main.md']);
+            mockFiles({
+                '/memory/main.md': '---\ntitle: Main\ntags: [test]\n---\n\nSee [helper](./helper.ts).',
+                '/memory/helper.ts': '// see [docs](./docs.md)',
+                '/memory/docs.md': 'Docs.'
+            });
+
+            const result = await contentInjectionEngine.attachFilesByTag('test');
+
+            expect(result).toEqual(['/memory/main.md', '/memory/helper.ts']);
+        });
+
+        it('should format the chain that pulled a file in', () => {
+            expect(ContentInjectionEngine.formatLinkChain(['/memory/main.md', '/memory/index.md', '/memory/setup.md']))
+                .toBe('main.md → index.md');
+        });
+    });
+
+    describe('token budget', () => {
+        const mockReadFile = fs.promises.readFile as jest.MockedFunction<typeof fs.promises.readFile>;
+
+        const indexEntry = (filePath: string, size: number, priority?: string, mtime = 0) => ({
+            filePath,
+            frontmatter: { title: filePath, tags: ['test'], priority },
+            content: '',
+            lastModified: new Date(mtime),
+            fileInfo: { mtime, size, hash: '' }
+        });
+
+        beforeEach(() => {
+            mockReadFile.mockReset();
+            mockReadFile.mockResolvedValue('---\ntitle: Memory\ntags: [test]\n---\n\nNo links.' as any);
+        });
+
+        afterEach(() => {
+            mockReadFile.mockReset();
+        });
+
+        it('should rank by priority and drop what does not fit', async () => {
+            const entries = new Map([
+                ['/memory/low.md', indexEntry('/memory/low.md', 2000, 'low')],
+                ['/memory/high.md', indexEntry('/memory/high.md', 2000, 'high')],
+                ['/memory/medium.md', indexEntry('/memory/medium.md', 2000, 'medium')]
+            ]);
+            mockMemoryIndex.get.mockImplementation((filePath: string) => entries.get(filePath) as any);
+            mockTagSystem.queryByTag.mockReturnValue(['/memory/low.md', '/memory/high.md', '/memory/medium.md']);
+
+            const summary = await contentInjectionEngine.getMatchSummaryForTagsWithReferences(['test'], 1000);
+
+            expect(summary.filePaths).toEqual(['/memory/high.md', '/memory/medium.md']);
+            expect(summary.estimatedTokens).toBe(1000);
+            expect(summary.droppedFiles.map(dropped => dropped.filePath)).toEqual(['/memory/low.md']);
+        });
+
+        it('should prefer exact matches over wildcard matches, then recent files', async () => {
+            const entries = new Map([
+                ['/memory/old-wildcard.md', indexEntry('/memory/old-wildcard.md', 400, undefined, 1)],
+                ['/memory/new-wildcard.md', indexEntry('/memory/new-wildcard.md', 400, undefined, 2)],
+                ['/memory/exact.md', indexEntry('/memory/exact.md', 400, undefined, 0)]
+            ]);
+            mockMemoryIndex.get.mockImplementation((filePath: string) => entries.get(filePath) as any);
+            mockTagSystem.queryByWildcard.mockReturnValue(['/memory/old-wildcard.md', '/memory/new-wildcard.md']);
+            mockTagSystem.queryByTag.mockReturnValue(['/memory/exact.md']);
+
+            const summary = await contentInjectionEngine.getMatchSummaryForTagsWithReferences(['backend.*', 'backend.api'], 250);
+
+            expect(summary.filePaths).toEqual(['/memory/exact.md', '/memory/new-wildcard.md']);
+            expect(summary.droppedFiles.map(dropped => dropped.filePath)).toEqual(['/memory/old-wildcard.md']);
+        });
+
+        it('should not drop or estimate anything without a budget', async () => {
+            mockTagSystem.queryByTag.mockReturnValue(['/memory/a.md', '/memory/b.md']);
+
+            const summary = await contentInjectionEngine.getMatchSummaryForTagsWithReferences(['test']);
+
+            expect(summary.filePaths).toEqual(['/memory/a.md', '/memory/b.md']);
+            expect(summary.droppedFiles).toEqual([]);
+            expect(summary.estimatedTokens).toBeUndefined();
+        });
+    });
+
     describe('attachFilesByTags with references', () => {
         const mockReadFile = fs.promises.readFile as jest.MockedFunction<typeof fs.promises.readFile>;
         const mockAccess = fs.promises.access as jest.MockedFunction<typeof fs.promises.access>;
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import * as vscode from 'vscode';
+import { MemoryAnswerEngine } from '../../src/chat/MemoryAnswerEngine';
+import { ContentInjectionEngine } from '../../src/chat/ContentInjectionEngine';
+import { MemoryIndex } from '../../src/core/MemoryIndex';
+import { TagSystem } from '../../src/core/TagSystem';
+
+jest.mock('vscode');
+
+describe('MemoryAnswerEngine', () => {
+    let contentInjector: ContentInjectionEngine;
+    let engine: MemoryAnswerEngine;
+    let stream: { markdown: jest.Mock; reference: jest.Mock };
+    let token: { isCancellationRequested: boolean };
+
+    const createModel = (fragments: string[], onFragment?: (index: number) => void) => ({
+        sendRequest: jest.fn(async () => ({
+            text: (async function* () {
+                for (let index = 0; index < fragments.length; index++) {
+                    onFragment?.(index);
+                    yield fragments[index];
+                }
+            })()
+        }))
+    });
+
+    const answer = (model: unknown, memoryFilePaths = ['/ws/Memory/pool.md'], referencedFilePaths = memoryFilePaths) =>
+        engine.answer(
+            model as vscode.LanguageModelChat,
+            'How big is the pool?',
+            memoryFilePaths,
+            referencedFilePaths,
+            stream as unknown as vscode.ChatResponseStream,
+            token as vscode.CancellationToken
+        );
+
+    beforeEach(() => {
+        contentInjector = new ContentInjectionEngine(new MemoryIndex(), new TagSystem());
+        engine = new MemoryAnswerEngine(contentInjector);
+        stream = { markdown: jest.fn(), reference: jest.fn() };
+        token = { isCancellationRequested: false };
+
+        jest.spyOn(contentInjector, 'getMemoryContents').mockImplementation(async filePaths =>
+            filePaths.map(filePath => ({ filePath, title: 'Pooling', content: `Content of ${filePath}` })));
+    });
+
+    it('builds a prompt with the instructions, the memories and the question', () => {
+        const messages = MemoryAnswerEngine.buildMessages('Use a pool of 10 connections.', 'How big is the pool?');
+
+        expect(messages).toHaveLength(3);
+        expect((messages[0] as unknown as { content: string }).content).toContain('memory files');
+        expect((messages[1] as unknown as { content: string }).content).toBe('Memories:\n\nUse a pool of 10 connections.');
+        expect((messages[2] as unknown as { content: string }).content).toBe('How big is the pool?');
+    });
+
+    it('streams the answer of the model and cites the memory files', async () => {
+        const model = createModel(['Ten ', 'connections.']);
+
+        await answer(model, ['/ws/Memory/pool.md'], ['/ws/Memory/pool.md', '/ws/docs/setup.md']);
+
+        expect(stream.reference).toHaveBeenCalledWith(vscode.Uri.file('/ws/Memory/pool.md'));
+        expect(stream.reference).toHaveBeenCalledWith(vscode.Uri.file('/ws/docs/setup.md'));
+        expect(contentInjector.getMemoryContents).toHaveBeenCalledWith(['/ws/Memory/pool.md']);
+        expect(stream.markdown.mock.calls.map(call => call[0])).toEqual(['Ten ', 'connections.']);
+
+        const [messages, , requestToken] = model.sendRequest.mock.calls[0] as unknown as [{ content: string }[], unknown, unknown];
+        expect(messages[1].content).toContain('Content of /ws/Memory/pool.md');
+        expect(requestToken).toBe(token);
+    });
+
+    it('stops streaming when the request is cancelled', async () => {
+        const model = createModel(['One ', 'two ', 'three'], index => {
+            if (index === 1) {
+                token.isCancellationRequested = true;
+            }
+        });
+
+        await answer(model);
+
+        expect(stream.markdown.mock.calls.map(call => call[0])).toEqual(['One ']);
+    });
+
+    it('does not send a request when cancelled while reading the memories', async () => {
+        const model = createModel(['Answer']);
+        token.isCancellationRequested = true;
+
+        await answer(model);
+
+        expect(model.sendRequest).not.toHaveBeenCalled();
+    });
+
+    it('reports language model errors in the response', async () => {
+        const model = { sendRequest: jest.fn(async () => { throw new vscode.LanguageModelError('No permission'); }) };
+
+        await answer(model);
+
+        expect(stream.markdown).toHaveBeenCalledWith('The language model request failed: No permission');
+    });
+
+    it('rethrows other errors', async () => {
+        const model = { sendRequest: jest.fn(async () => { throw new Error('Unexpected'); }) };
+
+        await expect(answer(model)).rejects.toThrow('Unexpected');
+    });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import * as vscode from 'vscode';
+import { MemoryLanguageModelTool, MemoryToolInput } from '../../src/chat/MemoryLanguageModelTool';
+import { ContentInjectionEngine } from '../../src/chat/ContentInjectionEngine';
+import { MemoryIndex } from '../../src/core/MemoryIndex';
+import { TagSystem } from '../../src/core/TagSystem';
+
+jest.mock('vscode');
+
+describe('MemoryLanguageModelTool', () => {
+    let memoryIndex: MemoryIndex;
+    let tagSystem: TagSystem;
+    let contentInjector: ContentInjectionEngine;
+    let tool: MemoryLanguageModelTool;
+    let settings: Record<string, unknown>;
+
+    const token = { isCancellationRequested: false } as vscode.CancellationToken;
+
+    const addMemory = (filePath: string, title: string, tags: string[], content: string) => {
+        memoryIndex.add(filePath, { title, tags }, content);
+        tagSystem.addTags(filePath, tags);
+    };
+
+    const invoke = async (input: MemoryToolInput, cancellationToken = token): Promise<string> => {
+        const result = await tool.invoke({ input } as vscode.LanguageModelToolInvocationOptions<MemoryToolInput>, cancellationToken);
+        return result.content.map(part => (part as vscode.LanguageModelTextPart).value).join('');
+    };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        settings = {};
+        (vscode.workspace.getConfiguration as jest.Mock).mockImplementation(() => ({
+            get: (key: string) => settings[key]
+        }));
+
+        memoryIndex = new MemoryIndex();
+        tagSystem = new TagSystem();
+        contentInjector = new ContentInjectionEngine(memoryIndex, tagSystem);
+        tool = new MemoryLanguageModelTool(contentInjector, memoryIndex, tagSystem);
+
+        jest.spyOn(contentInjector, 'getMemoryContents').mockImplementation(async filePaths =>
+            filePaths.map(filePath => ({
+                filePath,
+                title: memoryIndex.get(filePath)!.frontmatter.title,
+                content: memoryIndex.get(filePath)!.content
+            })));
+
+        addMemory('/ws/Memory/pool.md', 'Connection Pooling', ['backend.database'], 'Use a pool of 10 connections.');
+        addMemory('/ws/Memory/migrations.md', 'Migrations', ['backend.database'], 'Run migrations before deploying.');
+        addMemory('/ws/Memory/ui.md', 'UI Guidelines', ['frontend'], 'Use the design system.');
+    });
+
+    it('registers itself under its name', () => {
+        const context = { subscriptions: [] } as unknown as vscode.ExtensionContext;
+        tool.register(context);
+
+        expect(vscode.lm.registerTool).toHaveBeenCalledWith(MemoryLanguageModelTool.NAME, tool);
+        expect(context.subscriptions).toHaveLength(1);
+    });
+
+    it('describes the invocation with the tag patterns', () => {
+        const prepared = tool.prepareInvocation({ input: { tags: ['backend.*', 'frontend'] } });
+        expect(prepared.invocationMessage).toBe('Reading memories tagged backend.*, frontend');
+    });
+
+    it('lists the files used and returns their contents', async () => {
+        const text = await invoke({ tags: ['backend.*'] });
+
+        expect(text).toContain('Used 2 memory file(s) matching backend.*:');
+        expect(text).toContain('- Connection Pooling (/ws/Memory/pool.md)');
+        expect(text).toContain('- Migrations (/ws/Memory/migrations.md)');
+        expect(text).toContain('## Connection Pooling\nSource: /ws/Memory/pool.md\n\nUse a pool of 10 connections.');
+        expect(text).not.toContain('UI Guidelines');
+    });
+
+    it('keeps only the memories mentioning the free-text query', async () => {
+        const text = await invoke({ tags: ['backend.database'], query: 'how big is the connection pool?' });
+
+        expect(text).toContain('Used 1 memory file(s)');
+        expect(text).toContain('Connection Pooling');
+        expect(text).not.toContain('Migrations');
+    });
+
+    it('keeps all matched memories when none mentions the query', async () => {
+        const text = await invoke({ tags: ['backend.database'], query: 'kubernetes' });
+        expect(text).toContain('Used 2 memory file(s)');
+    });
+
+    it('lists the available tags when nothing matches', async () => {
+        const text = await invoke({ tags: ['security'] });
+
+        expect(text).toContain('No memory files found matching: security.');
+        expect(text).toContain('Available tags: backend, backend.database, frontend');
+        expect(contentInjector.getMemoryContents).not.toHaveBeenCalled();
+    });
+
+    it('leaves out memories that exceed the token budget', async () => {
+        settings.tokenBudget = 8;
+        const text = await invoke({ tags: ['backend.database'] });
+
+        expect(text).toContain('Used 1 memory file(s)');
+        expect(text).toContain('Left out 1 file(s) to stay within the token budget:\n- /ws/Memory/migrations.md');
+    });
+
+    it('rejects input without tag patterns', async () => {
+        await expect(invoke({ tags: [' '] })).rejects.toThrow('Provide at least one tag pattern');
+    });
+
+    it('stops when the invocation was cancelled', async () => {
+        await expect(invoke({ tags: ['frontend'] }, { isCancellationRequested: true } as vscode.CancellationToken))
+            .rejects.toBeInstanceOf(vscode.CancellationError);
+    });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { MemorySuggestionEngine } from '../../src/chat/MemorySuggestionEngine';
+import { FullTextIndex } from '../../src/core/FullTextIndex';
+import { MemoryIndex } from '../../src/core/MemoryIndex';
+
+describe('MemorySuggestionEngine', () => {
+    let memoryIndex: MemoryIndex;
+    let engine: MemorySuggestionEngine;
+
+    beforeEach(() => {
+        memoryIndex = new MemoryIndex();
+        const fullTextIndex = new FullTextIndex();
+        fullTextIndex.watch(memoryIndex);
+        engine = new MemorySuggestionEngine(memoryIndex, fullTextIndex);
+
+        memoryIndex.add('/ws/Memory/pool.md', { title: 'Connection Pooling', tags: ['backend.database'] },
+            'Use a pool of 10 connections per service.');
+        memoryIndex.add('/ws/Memory/migrations.md', { title: 'Migrations', tags: ['backend.database'] },
+            'Run the migrations before deploying a service.');
+        memoryIndex.add('/ws/Memory/ui.md', { title: 'UI Guidelines', tags: ['frontend'] },
+            'Use the design system for every component.');
+    });
+
+    it('proposes the memories matching the question, best first', () => {
+        const suggestions = engine.suggest('How big should the connection pool be?');
+
+        expect(suggestions.map(suggestion => suggestion.filePath)).toEqual(['/ws/Memory/pool.md']);
+        expect(suggestions[0]).toEqual(expect.objectContaining({
+            title: 'Connection Pooling',
+            tags: ['backend.database'],
+            matchedTerms: ['connection', 'pool']
+        }));
+    });
+
+    it('weighs tag matches over title and content matches', () => {
+        const suggestions = engine.suggest('database migrations');
+
+        expect(suggestions.map(suggestion => suggestion.filePath)).toEqual(['/ws/Memory/migrations.md', '/ws/Memory/pool.md']);
+        expect(suggestions[0].confidence).toBeGreaterThan(suggestions[1].confidence);
+        expect(suggestions[1].matchedTerms).toEqual(['database']);
+    });
+
+    it('reports a confidence between 0 and 1', () => {
+        const [suggestion] = engine.suggest('frontend design system');
+
+        expect(suggestion.filePath).toBe('/ws/Memory/ui.md');
+        expect(suggestion.confidence).toBeGreaterThan(0.5);
+        expect(suggestion.confidence).toBeLessThanOrEqual(1);
+    });
+
+    it('leaves out memories below the minimum confidence', () => {
+        // "service" is in two memories' content only, the rest of the question matches nothing
+        expect(engine.suggest('kubernetes helm charts ingress service')).toEqual([]);
+    });
+
+    it('limits the number of suggestions', () => {
+        expect(engine.suggest('database', 1)).toHaveLength(1);
+    });
+
+    it('leaves out overridden global memories', () => {
+        memoryIndex.add('/global/pool.md', { title: 'Connection Pooling', tags: ['backend.database'] },
+            'Use a pool of 5 connections.', { isGlobal: true });
+        memoryIndex.setOverridden('/global/pool.md', true);
+
+        const suggestions = engine.suggest('How big should the connection pool be?');
+
+        expect(suggestions.map(suggestion => suggestion.filePath)).toEqual(['/ws/Memory/pool.md']);
+    });
+
+    it('returns nothing for questions without searchable words', () => {
+        expect(engine.suggest('how is it?')).toEqual([]);
+    });
+
+    it('formats the confidence as a percentage', () => {
+        expect(MemorySuggestionEngine.formatConfidence(0.824)).toBe('82%');
+    });
+});
@@ -1,6 +1,8 @@
 import * as vscode from 'vscode';
 import { TagCompletionProvider } from '../../src/chat/TagCompletionProvider';
 import { TagSystem } from '../../src/core/TagSystem';
+import { TagAliases } from '../../src/core/TagAliases';
+import { TagVocabulary } from '../../src/core/TagVocabulary';
 import { MemoryIndex } from '../../src/core/MemoryIndex';
 
 describe('TagCompletionProvider', () => {
@@ -278,6 +280,71 @@ describe('TagCompletionProvider', () => {
         });
     });
 
+    describe('pattern preview', () => {
+        const preview = (pattern: string) => {
+            const line = `@memory /memory-tag ${pattern}`;
+            const items = provider.provideCompletionItems(createMockDocument(line, line.length), new vscode.Position(0, line.length), mockToken, mockContext);
+            expect(items).toHaveLength(1);
+            return items![0];
+        };
+
+        it('should preview the tags and memories a pattern matches', () => {
+            const item = preview('backend.{auth,database}');
+
+            expect(item.label).toBe('backend.{auth,database}');
+            expect(item.detail).toBe('Pattern - 2 tags (2 memories)');
+            expect((item.documentation as vscode.MarkdownString).value).toBe('Matches:\n\n- `backend.auth`\n- `backend.database`');
+        });
+
+        it('should preview only the pattern being typed in a query', () => {
+            const item = preview('frontend.* | -backend.data*');
+
+            expect(item.label).toBe('backend.data*');
+            expect(item.detail).toBe('Pattern - 1 tag (2 memories)');
+        });
+
+        it('should preview regular expressions', () => {
+            expect(preview('/^api\\./').detail).toBe('Pattern - 2 tags (1 memory)');
+        });
+
+        it('should explain invalid patterns', () => {
+            const item = preview('/[/');
+
+            expect(item.detail).toBe('Invalid pattern');
+            expect((item.documentation as vscode.MarkdownString).value).toContain('Invalid regular expression');
+        });
+    });
+
+    describe('queries', () => {
+        const complete = (input: string) => {
+            const line = `@memory /memory-tag ${input}`;
+            return provider.provideCompletionItems(createMockDocument(line, line.length), new vscode.Position(0, line.length), mockToken, mockContext)!;
+        };
+
+        it('should show the subtags of the term being typed after an operator', () => {
+            const items = complete('security & backend.');
+            const database = items.find(item => item.label === 'database')!;
+
+            expect(database.insertText).toBe('database');
+            expect(database.range).toEqual(new vscode.Range(0, 39, 0, 39));
+        });
+
+        it('should fuzzy match only the term being typed and replace it', () => {
+            const items = complete('frontend.ui | graph');
+            const graphql = items.find(item => item.label === 'api.graphql')!;
+
+            expect(items[0].label).toBe('api.graphql');
+            expect(graphql.range).toEqual(new vscode.Range(0, 34, 0, 39));
+        });
+
+        it('should show all tags after an operator', () => {
+            const items = complete('frontend.ui & ');
+
+            expect(items.map(item => item.label)).toContain('backend.auth');
+            expect(items[0].range).toEqual(new vscode.Range(0, 34, 0, 34));
+        });
+    });
+
     describe('Story 5: Usage Hints (File Counts)', () => {
         it('should show file count in completion item detail', () => {
             const document = createMockDocument('@memory /memory-tag ', 21);
@@ -472,4 +539,42 @@ describe('TagCompletionProvider', () => {
             expect(items!.length).toBe(0);
         });
     });
+
+    describe('tag aliases', () => {
+        const getItem = (items: vscode.CompletionItem[] | undefined, label: string) =>
+            items!.find(item => (typeof item.label === 'string' ? item.label : item.label.label) === label);
+
+        beforeEach(() => {
+            tagSystem.setAliases(TagAliases.parse('db.postgres: backend.database.postgres\npg: backend.database.postgres'));
+        });
+
+        it('should list the aliases in the documentation of a tag', () => {
+            const document = createMockDocument('@memory /memory-tag backend.database.post', 41);
+            const items = provider.provideCompletionItems(document, new vscode.Position(0, 41), mockToken, mockContext);
+
+            const item = getItem(items, 'backend.database.postgres');
+            expect((item!.documentation as vscode.MarkdownString).value)
+                .toBe('Tag: `backend.database.postgres`\n\nAliases: `db.postgres`, `pg`');
+        });
+
+        it('should suggest the canonical tag when typing an alias', () => {
+            const document = createMockDocument('@memory /memory-tag pg', 22);
+            const items = provider.provideCompletionItems(document, new vscode.Position(0, 22), mockToken, mockContext);
+
+            expect(getItem(items, 'backend.database.postgres')).toBeDefined();
+        });
+    });
+
+    describe('tag vocabulary', () => {
+        it('should show the description of a tag in its documentation', () => {
+            const vocabulary = TagVocabulary.parse('backend.auth: Authentication and sessions');
+            const vocabularyProvider = new TagCompletionProvider(tagSystem, memoryIndex, () => vocabulary);
+            const document = createMockDocument('@memory /memory-tag backend.au', 30);
+
+            const items = vocabularyProvider.provideCompletionItems(document, new vscode.Position(0, 30), mockToken, mockContext);
+            const item = items!.find(candidate => candidate.label === 'backend.auth');
+
+            expect((item!.documentation as vscode.MarkdownString).value).toBe('Tag: `backend.auth`\n\nAuthentication and sessions');
+        });
+    });
 });
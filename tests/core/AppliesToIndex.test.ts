@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { AppliesToIndex } from '../../src/core/AppliesToIndex';
+import { MemoryIndex } from '../../src/core/MemoryIndex';
+
+describe('AppliesToIndex', () => {
+    let index: AppliesToIndex;
+
+    beforeEach(() => {
+        index = new AppliesToIndex();
+        index.add('/ws/Memory/db.md', { title: 'Database Rules', tags: ['backend'], appliesTo: ['src/db/**', '*.sql'] }, { workspaceFolder: 'ws' });
+        index.add('/ws/Memory/ui.md', { title: 'UI Rules', tags: ['frontend'], appliesTo: 'src/ui/**/*.tsx' }, { workspaceFolder: 'ws' });
+        index.add('/global/style.md', { title: 'Style', tags: ['style'], appliesTo: '*.ts' }, { isGlobal: true });
+    });
+
+    it('finds the memories whose globs match a file', () => {
+        expect(index.findMatches([{ relativePath: 'src/db/pool.ts', workspaceFolder: 'ws' }])).toEqual([
+            { filePath: '/global/style.md', patterns: ['*.ts'], matchedFiles: ['src/db/pool.ts'] },
+            { filePath: '/ws/Memory/db.md', patterns: ['src/db/**'], matchedFiles: ['src/db/pool.ts'] }
+        ]);
+    });
+
+    it('matches globs without a slash against the file name', () => {
+        expect(index.findMatches([{ relativePath: 'migrations/001_init.sql', workspaceFolder: 'ws' }]).map(match => match.filePath))
+            .toEqual(['/ws/Memory/db.md']);
+    });
+
+    it('lists memories matching the most files first', () => {
+        const matches = index.findMatches([
+            { relativePath: 'src/ui/components/Button.tsx', workspaceFolder: 'ws' },
+            { relativePath: 'schema.sql', workspaceFolder: 'ws' },
+            { relativePath: 'src/db/schema.sql', workspaceFolder: 'ws' }
+        ]);
+
+        expect(matches.map(match => match.filePath)).toEqual(['/ws/Memory/db.md', '/ws/Memory/ui.md']);
+        expect(matches[0]).toEqual({
+            filePath: '/ws/Memory/db.md',
+            patterns: ['*.sql', 'src/db/**'],
+            matchedFiles: ['schema.sql', 'src/db/schema.sql']
+        });
+    });
+
+    it('applies workspace memories only to files of their workspace folder', () => {
+        expect(index.findMatches([{ relativePath: 'src/db/pool.ts', workspaceFolder: 'other' }]).map(match => match.filePath))
+            .toEqual(['/global/style.md']);
+    });
+
+    it('ignores memories without globs and invalid globs', () => {
+        index.add('/ws/Memory/db.md', { title: 'Database Rules', tags: ['backend'] });
+        index.add('/ws/Memory/bad.md', { title: 'Bad', tags: ['backend'], appliesTo: [42, ' '] as unknown as string[] });
+
+        expect(index.size()).toBe(2);
+        expect(index.findMatches([{ relativePath: 'schema.sql' }])).toEqual([]);
+    });
+
+    it('follows the changes of a memory index', () => {
+        const memoryIndex = new MemoryIndex();
+        memoryIndex.add('/ws/Memory/a.md', { title: 'A', tags: ['a'], appliesTo: '*.sql' }, 'Content', { workspaceFolder: 'ws' });
+        const appliesToIndex = new AppliesToIndex();
+        appliesToIndex.watch(memoryIndex);
+
+        expect(appliesToIndex.findMatches([{ relativePath: 'a.sql', workspaceFolder: 'ws' }])).toHaveLength(1);
+
+        memoryIndex.update('/ws/Memory/a.md', { title: 'A', tags: ['a'], appliesTo: '*.py' }, 'Content', { workspaceFolder: 'ws' });
+        expect(appliesToIndex.findMatches([{ relativePath: 'a.sql', workspaceFolder: 'ws' }])).toEqual([]);
+        expect(appliesToIndex.findMatches([{ relativePath: 'a.py', workspaceFolder: 'ws' }])).toHaveLength(1);
+
+        memoryIndex.remove('/ws/Memory/a.md');
+        expect(appliesToIndex.size()).toBe(0);
+    });
+
+    it('leaves out overridden global memories', () => {
+        const memoryIndex = new MemoryIndex();
+        memoryIndex.add('/global/sql.md', { title: 'SQL', tags: ['sql'], appliesTo: '*.sql' }, 'Content', { isGlobal: true });
+        const appliesToIndex = new AppliesToIndex();
+        appliesToIndex.watch(memoryIndex);
+
+        memoryIndex.setOverridden('/global/sql.md', true);
+        expect(appliesToIndex.findMatches([{ relativePath: 'a.sql', workspaceFolder: 'ws' }])).toEqual([]);
+
+        memoryIndex.setOverridden('/global/sql.md', false);
+        expect(appliesToIndex.findMatches([{ relativePath: 'a.sql', workspaceFolder: 'ws' }])).toHaveLength(1);
+    });
+});
@@ -0,0 +1,82 @@
+import { FrontmatterSchema, FrontmatterSchemaError } from '../../src/core/FrontmatterSchema';
+
+describe('FrontmatterSchema', () => {
+    describe('parse', () => {
+        it('should reject invalid JSON and non-object schemas', () => {
+            expect(() => FrontmatterSchema.parse('{ nope')).toThrow(FrontmatterSchemaError);
+            expect(() => FrontmatterSchema.parse('[]')).toThrow('The schema must be a JSON object');
+        });
+
+        it('should reject invalid patterns', () => {
+            const schema = JSON.stringify({ properties: { owner: { pattern: '([a-z' } } });
+            expect(() => FrontmatterSchema.parse(schema)).toThrow('Invalid pattern for "owner"');
+        });
+    });
+
+    describe('validate', () => {
+        const schema = FrontmatterSchema.parse(JSON.stringify({
+            required: ['owner'],
+            properties: {
+                owner: { type: 'string', pattern: '^@' },
+                status: { enum: ['draft', 'final'] },
+                tags: { minItems: 1, uniqueItems: true, items: { type: 'string', maxLength: 10 } },
+                created: { type: 'string', format: 'date' },
+                version: { type: 'integer', minimum: 1 }
+            }
+        }));
+
+        it('should accept valid frontmatter', () => {
+            expect(schema.validate({
+                title: 'Test',
+                owner: '@alice',
+                status: 'draft',
+                tags: ['a', 'b'],
+                created: new Date('2024-01-15'),
+                version: 2
+            })).toEqual([]);
+        });
+
+        it('should report every violation with the path of the field', () => {
+            const issues = schema.validate({
+                title: 'Test',
+                status: 'wip',
+                tags: ['a', 'a', 'much-too-long'],
+                created: '15.01.2024',
+                version: 1.5
+            });
+
+            expect(issues).toEqual([
+                { path: 'owner', message: 'Missing required field: owner' },
+                { path: 'status', message: 'Field "status" must be one of "draft", "final"' },
+                { path: 'tags', message: 'Field "tags" must not contain duplicate items' },
+                { path: 'tags[2]', message: 'Field "tags[2]" must be at most 10 character(s) long' },
+                { path: 'created', message: 'Field "created" must be a valid date' },
+                { path: 'version', message: 'Field "version" must be of type integer' }
+            ]);
+        });
+
+        it('should reject unknown fields when additionalProperties is false', () => {
+            const strict = FrontmatterSchema.parse(JSON.stringify({
+                properties: { title: {}, tags: {} },
+                additionalProperties: false
+            }));
+
+            expect(strict.validate({ title: 'Test', tags: [], colour: 'red' })).toEqual([
+                { path: 'colour', message: 'Field "colour" is not allowed by the schema' }
+            ]);
+        });
+
+        it('should validate nested objects', () => {
+            const nested = FrontmatterSchema.parse(JSON.stringify({
+                properties: { review: { type: 'object', required: ['by'], properties: { by: { format: 'email' } } } }
+            }));
+
+            expect(nested.validate({ review: {} })).toEqual([
+                { path: 'review.by', message: 'Missing required field: review.by' }
+            ]);
+            expect(nested.validate({ review: { by: 'alice' } })).toEqual([
+                { path: 'review.by', message: 'Field "review.by" must be a valid email' }
+            ]);
+        });
+    });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { FullTextIndex } from '../../src/core/FullTextIndex';
+import { MemoryIndex } from '../../src/core/MemoryIndex';
+
+describe('FullTextIndex', () => {
+    let index: FullTextIndex;
+
+    beforeEach(() => {
+        index = new FullTextIndex();
+        index.add('/ws/Memory/pool.md', 'Connection Pooling\nUse a pool of 10 connections. Pooled connections are reused.');
+        index.add('/ws/Memory/migrations.md', 'Migrations\nRun the database migrations before deploying.');
+        index.add('/ws/Memory/cache.md', 'Caching\nCache database queries for one minute.');
+    });
+
+    describe('stem', () => {
+        it.each([
+            ['pooling', 'pool'],
+            ['pooled', 'pool'],
+            ['pools', 'pool'],
+            ['running', 'run'],
+            ['libraries', 'library'],
+            ['classes', 'class'],
+            ['status', 'status'],
+            ['configure', 'configur'],
+            ['configured', 'configur'],
+            ['string', 'string'],
+            ['api', 'api']
+        ])('stems %s to %s', (word, stem) => {
+            expect(FullTextIndex.stem(word)).toBe(stem);
+        });
+    });
+
+    describe('tokenize', () => {
+        it('case-folds, strips diacritics and leaves out stop words', () => {
+            expect(FullTextIndex.tokenize('How is the Café API configured?')).toEqual(['caf', 'api', 'configur']);
+        });
+
+        it('splits on punctuation and keeps numbers', () => {
+            expect(FullTextIndex.tokenize('backend.database: v2, 10x')).toEqual(['backend', 'databas', 'v2', '10x']);
+        });
+    });
+
+    describe('search', () => {
+        it('finds memories by stemmed, case-insensitive terms', () => {
+            expect(index.search('POOLS').map(match => match.filePath)).toEqual(['/ws/Memory/pool.md']);
+        });
+
+        it('requires every term to match', () => {
+            expect(index.search('database migrations').map(match => match.filePath)).toEqual(['/ws/Memory/migrations.md']);
+            expect(index.search('database pool')).toEqual([]);
+        });
+
+        it('ranks memories with more occurrences first', () => {
+            index.add('/ws/Memory/replicas.md', 'Replicas\nRead from database replicas. Every database has two replicas.');
+
+            expect(index.search('database').map(match => match.filePath)).toEqual([
+                '/ws/Memory/replicas.md',
+                '/ws/Memory/cache.md',
+                '/ws/Memory/migrations.md'
+            ]);
+        });
+
+        it('returns the matched terms', () => {
+            expect(index.search('the connections')[0].terms).toEqual(['connection']);
+        });
+
+        it('returns nothing for queries without searchable terms', () => {
+            expect(index.search('the of')).toEqual([]);
+        });
+    });
+
+    describe('incremental updates', () => {
+        it('replaces the terms of a re-indexed memory', () => {
+            index.add('/ws/Memory/pool.md', 'Thread pools');
+
+            expect(index.search('connection')).toEqual([]);
+            expect(index.search('thread').map(match => match.filePath)).toEqual(['/ws/Memory/pool.md']);
+        });
+
+        it('removes memories', () => {
+            expect(index.remove('/ws/Memory/pool.md')).toBe(true);
+            expect(index.remove('/ws/Memory/pool.md')).toBe(false);
+            expect(index.search('pool')).toEqual([]);
+            expect(index.size()).toBe(2);
+        });
+
+        it('follows the changes of a memory index', () => {
+            const memoryIndex = new MemoryIndex();
+            memoryIndex.add('/ws/Memory/a.md', { title: 'Deployment', tags: ['ops'] }, 'Deploy with Helm.');
+            const fullTextIndex = new FullTextIndex();
+            const watch = fullTextIndex.watch(memoryIndex);
+
+            expect(fullTextIndex.search('helm').map(match => match.filePath)).toEqual(['/ws/Memory/a.md']);
+
+            memoryIndex.beginBatch();
+            memoryIndex.add('/ws/Memory/b.md', { title: 'Secrets', tags: ['ops'] }, 'Store secrets in the vault.');
+            memoryIndex.update('/ws/Memory/a.md', { title: 'Deployment', tags: ['ops'] }, 'Deploy with Kustomize.');
+            memoryIndex.endBatch();
+
+            expect(fullTextIndex.search('vault').map(match => match.filePath)).toEqual(['/ws/Memory/b.md']);
+            expect(fullTextIndex.search('helm')).toEqual([]);
+            expect(fullTextIndex.search('deployment kustomize').map(match => match.filePath)).toEqual(['/ws/Memory/a.md']);
+
+            memoryIndex.remove('/ws/Memory/b.md');
+            expect(fullTextIndex.search('vault')).toEqual([]);
+
+            memoryIndex.clear();
+            expect(fullTextIndex.size()).toBe(0);
+
+            watch.dispose();
+            memoryIndex.add('/ws/Memory/c.md', { title: 'Helm', tags: ['ops'] }, 'Charts');
+            expect(fullTextIndex.size()).toBe(0);
+        });
+
+        it('leaves out overridden global memories', () => {
+            const memoryIndex = new MemoryIndex();
+            memoryIndex.add('/global/deploy.md', { title: 'Deployment', tags: ['ops'] }, 'Deploy with Helm.', { isGlobal: true });
+            const fullTextIndex = new FullTextIndex();
+            fullTextIndex.watch(memoryIndex);
+
+            memoryIndex.setOverridden('/global/deploy.md', true);
+            expect(fullTextIndex.search('helm')).toEqual([]);
+
+            memoryIndex.setOverridden('/global/deploy.md', false);
+            expect(fullTextIndex.search('helm').map(match => match.filePath)).toEqual(['/global/deploy.md']);
+        });
+    });
+
+    describe('getSnippet', () => {
+        it('returns the text around the first match with the matched words', () => {
+            const snippet = FullTextIndex.getSnippet('Use a pool of 10 connections.\nPooled connections are reused.', ['pool']);
+
+            expect(snippet.text).toBe('Use a pool of 10 connections. Pooled connections are reused.');
+            expect(snippet.ranges.map(([start, end]) => snippet.text.slice(start, end))).toEqual(['pool', 'Pooled']);
+        });
+
+        it('cuts long texts at word boundaries and adds ellipses', () => {
+            const text = `${'lorem ipsum '.repeat(20)}the connection pool ${'dolor sit '.repeat(20)}`;
+            const snippet = FullTextIndex.getSnippet(text, ['pool'], 60);
+
+            expect(snippet.text.startsWith('…the connection pool dolor sit')).toBe(true);
+            expect(snippet.text.endsWith('sit…')).toBe(true);
+            expect(snippet.ranges.map(([start, end]) => snippet.text.slice(start, end))).toEqual(['pool']);
+        });
+
+        it('starts at the beginning when nothing matches', () => {
+            expect(FullTextIndex.getSnippet('Short text', ['missing'])).toEqual({ text: 'Short text', ranges: [] });
+        });
+    });
+});
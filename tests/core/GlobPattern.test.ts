@@ -0,0 +1,53 @@
+import { describe, it, expect } from '@jest/globals';
+import { GlobPattern } from '../../src/core/GlobPattern';
+
+describe('GlobPattern', () => {
+    describe('matches', () => {
+        it('should match single-segment wildcards', () => {
+            expect(GlobPattern.matches('Memory/*.md', 'Memory/bp.md')).toBe(true);
+            expect(GlobPattern.matches('Memory/*.md', 'Memory/sub/bp.md')).toBe(false);
+        });
+
+        it('should match any depth with **', () => {
+            expect(GlobPattern.matches('Memory/**/*.md', 'Memory/bp.md')).toBe(true);
+            expect(GlobPattern.matches('Memory/**/*.md', 'Memory/a/b/bp.md')).toBe(true);
+            expect(GlobPattern.matches('Memory/**/*.md', 'Other/bp.md')).toBe(false);
+        });
+
+        it('should support brace alternation', () => {
+            const glob = '{docs/ai-memory,.github/memory}/**/*.md';
+            expect(GlobPattern.matches(glob, 'docs/ai-memory/x.md')).toBe(true);
+            expect(GlobPattern.matches(glob, '.github/memory/y/x.md')).toBe(true);
+            expect(GlobPattern.matches(glob, 'docs/x.md')).toBe(false);
+        });
+
+        it('should support ? and character classes', () => {
+            expect(GlobPattern.matches('v?.md', 'v1.md')).toBe(true);
+            expect(GlobPattern.matches('v[0-9].md', 'v7.md')).toBe(true);
+            expect(GlobPattern.matches('v[!0-9].md', 'v7.md')).toBe(false);
+        });
+
+        it('should match patterns without a slash against the file name', () => {
+            expect(GlobPattern.matches('*.sql', 'src/db/schema.sql')).toBe(true);
+            expect(GlobPattern.matches('*.sql', 'src/db/schema.ts')).toBe(false);
+        });
+
+        it('should normalize Windows separators', () => {
+            expect(GlobPattern.matches('Memory/**/*.md', 'Memory\\sub\\bp.md')).toBe(true);
+        });
+
+        it('should escape regular expression characters', () => {
+            expect(GlobPattern.matches('notes+(draft).md', 'notes+(draft).md')).toBe(true);
+            expect(GlobPattern.matches('a.md', 'abmd')).toBe(false);
+        });
+    });
+
+    describe('matchesAny', () => {
+        it('should return true if any pattern matches', () => {
+            expect(GlobPattern.matchesAny(['**/drafts/**', '*.tmp.md'], 'Memory/drafts/x.md')).toBe(true);
+            expect(GlobPattern.matchesAny(['**/drafts/**', '*.tmp.md'], 'Memory/x.tmp.md')).toBe(true);
+            expect(GlobPattern.matchesAny(['**/drafts/**'], 'Memory/x.md')).toBe(false);
+            expect(GlobPattern.matchesAny([], 'Memory/x.md')).toBe(false);
+        });
+    });
+});
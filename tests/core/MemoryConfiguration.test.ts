@@ -0,0 +1,259 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import * as vscode from 'vscode';
+import * as os from 'os';
+import * as path from 'path';
+import { MemoryConfiguration } from '../../src/core/MemoryConfiguration';
+
+jest.mock('vscode');
+
+describe('MemoryConfiguration', () => {
+    let settings: Record<string, unknown>;
+
+    beforeEach(() => {
+        settings = {};
+        (vscode.workspace.getConfiguration as jest.Mock).mockImplementation(() => ({
+            get: (key: string) => settings[key]
+        }));
+    });
+
+    describe('getLocationSettings', () => {
+        it('should return defaults when nothing is configured', () => {
+            expect(MemoryConfiguration.getLocationSettings()).toEqual({
+                folders: ['Memory'],
+                include: '**/*.md',
+                exclude: []
+            });
+        });
+
+        it('should normalize configured folders', () => {
+            settings.folders = ['./docs/ai-memory/', '.github\\memory', 'docs/ai-memory', ''];
+            expect(MemoryConfiguration.getLocationSettings().folders).toEqual(['docs/ai-memory', '.github/memory']);
+        });
+
+        it('should treat "." as the workspace root', () => {
+            settings.folders = ['.'];
+            expect(MemoryConfiguration.getLocationSettings().folders).toEqual(['']);
+        });
+
+        it('should ignore invalid values', () => {
+            settings.folders = 42;
+            settings.include = '';
+            settings.exclude = [1, 'drafts/**'];
+
+            expect(MemoryConfiguration.getLocationSettings()).toEqual({
+                folders: ['Memory'],
+                include: '**/*.md',
+                exclude: ['drafts/**']
+            });
+        });
+    });
+
+    describe('getIncludePattern', () => {
+        it('should prefix the include glob with a single folder', () => {
+            expect(MemoryConfiguration.getIncludePattern({ folders: ['Memory'], include: '**/*.md', exclude: [] }))
+                .toBe('Memory/**/*.md');
+        });
+
+        it('should combine multiple folders with braces', () => {
+            expect(MemoryConfiguration.getIncludePattern({
+                folders: ['docs/ai-memory', '.github/memory'],
+                include: '**/*.md',
+                exclude: []
+            })).toBe('{docs/ai-memory,.github/memory}/**/*.md');
+        });
+
+        it('should use the include glob alone for the workspace root', () => {
+            expect(MemoryConfiguration.getIncludePattern({ folders: ['', 'Memory'], include: '**/*.md', exclude: [] }))
+                .toBe('**/*.md');
+        });
+    });
+
+    describe('isMemoryFile', () => {
+        const location = { folders: ['docs/ai-memory', '.github/memory'], include: '**/*.md', exclude: ['**/drafts/**'] };
+
+        it('should accept files inside the configured folders', () => {
+            expect(MemoryConfiguration.isMemoryFile('/ws', '/ws/docs/ai-memory/db.md', location)).toBe(true);
+            expect(MemoryConfiguration.isMemoryFile('/ws', '/ws/.github/memory/sub/api.md', location)).toBe(true);
+        });
+
+        it('should reject files outside the configured folders', () => {
+            expect(MemoryConfiguration.isMemoryFile('/ws', '/ws/Memory/db.md', location)).toBe(false);
+            expect(MemoryConfiguration.isMemoryFile('/ws', '/other/docs/ai-memory/db.md', location)).toBe(false);
+        });
+
+        it('should reject excluded files', () => {
+            expect(MemoryConfiguration.isMemoryFile('/ws', '/ws/docs/ai-memory/drafts/db.md', location)).toBe(false);
+        });
+
+        it('should reject memory templates', () => {
+            expect(MemoryConfiguration.isMemoryFile('/ws', '/ws/docs/ai-memory/.templates/decision.md', location)).toBe(false);
+            expect(MemoryConfiguration.isGlobalMemoryFile('/global', '/global/.templates/decision.md', location)).toBe(false);
+        });
+    });
+
+    describe('findMemoryFiles', () => {
+        it('should search with the include pattern and filter excluded files', async () => {
+            const workspaceFolder = { uri: vscode.Uri.file('/ws'), name: 'ws', index: 0 } as any;
+            (vscode.workspace.findFiles as jest.Mock).mockImplementation(async () => [
+                vscode.Uri.file('/ws/Memory/a.md'),
+                vscode.Uri.file('/ws/Memory/drafts/b.md')
+            ]);
+
+            const files = await MemoryConfiguration.findMemoryFiles(workspaceFolder, {
+                folders: ['Memory'],
+                include: '**/*.md',
+                exclude: ['Memory/drafts/**']
+            });
+
+            expect(files.map(uri => uri.fsPath)).toEqual(['/ws/Memory/a.md']);
+            const pattern = (vscode.workspace.findFiles as jest.Mock).mock.calls[0][0] as vscode.RelativePattern;
+            expect(pattern.pattern).toBe('Memory/**/*.md');
+        });
+    });
+
+    describe('getGlobalFolder', () => {
+        const globalStorageUri = vscode.Uri.file('/storage/memory-manager');
+
+        it('should default to a folder inside the global storage', () => {
+            expect(MemoryConfiguration.getGlobalFolder(globalStorageUri).fsPath).toBe('/storage/memory-manager/memories');
+        });
+
+        it('should use the configured folder and expand ~', () => {
+            settings.globalFolder = '~/my-memories';
+            const folder = MemoryConfiguration.getGlobalFolder(globalStorageUri).fsPath;
+            expect(folder).toBe(path.join(os.homedir(), 'my-memories'));
+        });
+    });
+
+    describe('findGlobalMemoryFiles', () => {
+        it('should walk the global folder recursively applying include and exclude', async () => {
+            const tree: Record<string, [string, vscode.FileType][]> = {
+                '/global': [['style.md', vscode.FileType.File], ['reviews', vscode.FileType.Directory], ['notes.txt', vscode.FileType.File]],
+                '/global/reviews': [['checklist.md', vscode.FileType.File], ['draft.md', vscode.FileType.File]]
+            };
+            (vscode.workspace.fs.readDirectory as jest.Mock).mockImplementation(async (uri: any) => tree[uri.fsPath]);
+
+            const files = await MemoryConfiguration.findGlobalMemoryFiles(vscode.Uri.file('/global'), {
+                folders: ['Memory'],
+                include: '**/*.md',
+                exclude: ['**/draft.md']
+            });
+
+            expect(files.map(uri => uri.fsPath)).toEqual(['/global/style.md', '/global/reviews/checklist.md']);
+        });
+
+        it('should not follow symlinked folders', async () => {
+            const tree: Record<string, [string, vscode.FileType][]> = {
+                '/global': [['style.md', vscode.FileType.File], ['loop', vscode.FileType.Directory | vscode.FileType.SymbolicLink]]
+            };
+            (vscode.workspace.fs.readDirectory as jest.Mock).mockImplementation(async (uri: any) => tree[uri.fsPath] ?? tree['/global']);
+
+            const files = await MemoryConfiguration.findGlobalMemoryFiles(vscode.Uri.file('/global'));
+
+            expect(files.map(uri => uri.fsPath)).toEqual(['/global/style.md']);
+            expect(vscode.workspace.fs.readDirectory).not.toHaveBeenCalledWith(expect.objectContaining({ fsPath: '/global/loop' }));
+        });
+
+        it('should stop walking deeply nested folders', async () => {
+            (vscode.workspace.fs.readDirectory as jest.Mock).mockImplementation(async () => [
+                ['note.md', vscode.FileType.File],
+                ['nested', vscode.FileType.Directory]
+            ]);
+
+            const files = await MemoryConfiguration.findGlobalMemoryFiles(vscode.Uri.file('/global'));
+
+            expect(files).toHaveLength(11);
+        });
+
+        it('should return no files when the global folder does not exist', async () => {
+            (vscode.workspace.fs.readDirectory as jest.Mock).mockImplementation(async () => {
+                throw new Error('ENOENT');
+            });
+
+            expect(await MemoryConfiguration.findGlobalMemoryFiles(vscode.Uri.file('/missing'))).toEqual([]);
+        });
+    });
+
+    describe('getMaxLinkDepth', () => {
+        it('should default to one level of links', () => {
+            expect(MemoryConfiguration.getMaxLinkDepth()).toBe(1);
+        });
+
+        it('should clamp the configured depth', () => {
+            settings.maxLinkDepth = 3.7;
+            expect(MemoryConfiguration.getMaxLinkDepth()).toBe(3);
+
+            settings.maxLinkDepth = -2;
+            expect(MemoryConfiguration.getMaxLinkDepth()).toBe(0);
+
+            settings.maxLinkDepth = 100;
+            expect(MemoryConfiguration.getMaxLinkDepth()).toBe(10);
+
+            settings.maxLinkDepth = 'deep';
+            expect(MemoryConfiguration.getMaxLinkDepth()).toBe(1);
+        });
+    });
+
+    describe('getTokenBudget', () => {
+        it('should default to no limit', () => {
+            expect(MemoryConfiguration.getTokenBudget()).toBe(0);
+        });
+
+        it('should read positive budgets and ignore invalid ones', () => {
+            settings.tokenBudget = 8000;
+            expect(MemoryConfiguration.getTokenBudget()).toBe(8000);
+
+            settings.tokenBudget = -5;
+            expect(MemoryConfiguration.getTokenBudget()).toBe(0);
+        });
+    });
+
+    describe('getSuggestionCount', () => {
+        it('should default to 5 and clamp to 1-20', () => {
+            expect(MemoryConfiguration.getSuggestionCount()).toBe(5);
+
+            settings.suggestionCount = 0;
+            expect(MemoryConfiguration.getSuggestionCount()).toBe(1);
+
+            settings.suggestionCount = 50;
+            expect(MemoryConfiguration.getSuggestionCount()).toBe(20);
+        });
+    });
+
+    describe('getSuggestWithoutCommand', () => {
+        it('should be off unless enabled', () => {
+            expect(MemoryConfiguration.getSuggestWithoutCommand()).toBe(false);
+
+            settings.suggestWithoutCommand = true;
+            expect(MemoryConfiguration.getSuggestWithoutCommand()).toBe(true);
+        });
+    });
+
+    describe('getChatMode', () => {
+        it('should default to attach', () => {
+            expect(MemoryConfiguration.getChatMode()).toBe('attach');
+        });
+
+        it('should read valid modes and ignore invalid ones', () => {
+            settings.chatMode = 'answer';
+            expect(MemoryConfiguration.getChatMode()).toBe('answer');
+
+            settings.chatMode = 'chat';
+            expect(MemoryConfiguration.getChatMode()).toBe('attach');
+        });
+    });
+
+    describe('onDidChangeLocationSettings', () => {
+        it('should only notify for memory location settings', () => {
+            const listener = jest.fn();
+            MemoryConfiguration.onDidChangeLocationSettings(listener);
+
+            const handler = (vscode.workspace.onDidChangeConfiguration as jest.Mock).mock.calls.slice(-1)[0][0] as (event: unknown) => void;
+            handler({ affectsConfiguration: (section: string) => section === 'editor.fontSize' });
+            expect(listener).not.toHaveBeenCalled();
+
+            handler({ affectsConfiguration: (section: string) => section === 'memoryManager.folders' });
+            expect(listener).toHaveBeenCalledTimes(1);
+        });
+    });
+});
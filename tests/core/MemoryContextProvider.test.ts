@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import * as vscode from 'vscode';
+import { MemoryContextProvider } from '../../src/core/MemoryContextProvider';
+import { AppliesToIndex } from '../../src/core/AppliesToIndex';
+import { MemoryIndex } from '../../src/core/MemoryIndex';
+
+jest.mock('vscode');
+
+describe('MemoryContextProvider', () => {
+    let memoryIndex: MemoryIndex;
+    let provider: MemoryContextProvider;
+
+    const workspaceFolder = { uri: vscode.Uri.file('/ws'), name: 'ws', index: 0 };
+
+    const openEditor = (filePath: string) => {
+        (vscode.window as any).activeTextEditor = { document: { uri: vscode.Uri.file(filePath) } };
+    };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (vscode.workspace.getWorkspaceFolder as jest.Mock).mockImplementation((uri: any) =>
+            uri.fsPath.startsWith('/ws/') ? workspaceFolder : undefined);
+
+        memoryIndex = new MemoryIndex();
+        const appliesToIndex = new AppliesToIndex();
+        appliesToIndex.watch(memoryIndex);
+        provider = new MemoryContextProvider(appliesToIndex, memoryIndex);
+
+        memoryIndex.add('/ws/Memory/db.md', { title: 'Database Rules', tags: ['backend'], appliesTo: ['src/db/**'] }, 'Content', { workspaceFolder: 'ws' });
+        memoryIndex.add('/ws/Memory/sql.md', { title: 'SQL Style', tags: ['backend'], appliesTo: '*.sql' }, 'Content', { workspaceFolder: 'ws' });
+    });
+
+    afterEach(() => {
+        (vscode.window as any).activeTextEditor = undefined;
+        (vscode.workspace.getWorkspaceFolder as jest.Mock).mockImplementation(() => undefined);
+    });
+
+    it('converts files to paths relative to their workspace folder', () => {
+        expect(MemoryContextProvider.toContextFile(vscode.Uri.file('/ws/src/db/pool.ts')))
+            .toEqual({ relativePath: 'src/db/pool.ts', workspaceFolder: 'ws' });
+        expect(MemoryContextProvider.toContextFile(vscode.Uri.file('/tmp/query.sql')))
+            .toEqual({ relativePath: '/tmp/query.sql' });
+    });
+
+    it('collects the active editor and the referenced files without duplicates', () => {
+        openEditor('/ws/src/db/pool.ts');
+        const references = [
+            { id: 'file', value: vscode.Uri.file('/ws/migrations/001.sql') },
+            { id: 'selection', value: new vscode.Location(vscode.Uri.file('/ws/src/db/pool.ts'), new vscode.Position(0, 0)) },
+            { id: 'text', value: 'not a file' }
+        ] as unknown as vscode.ChatPromptReference[];
+
+        expect(MemoryContextProvider.getContextUris(references).map(uri => uri.fsPath))
+            .toEqual(['/ws/src/db/pool.ts', '/ws/migrations/001.sql']);
+    });
+
+    it('finds the memories that apply to the files', () => {
+        const matches = provider.findMatches([vscode.Uri.file('/ws/src/db/pool.ts'), vscode.Uri.file('/ws/migrations/001.sql')]);
+        expect(matches.map(match => match.filePath)).toEqual(['/ws/Memory/db.md', '/ws/Memory/sql.md']);
+    });
+
+    describe('status bar hint', () => {
+        let onDidChangeIndex: jest.Mock;
+        let statusBarItem: any;
+
+        beforeEach(() => {
+            onDidChangeIndex = jest.fn(() => ({ dispose: jest.fn() }));
+            provider.register({ subscriptions: [] } as unknown as vscode.ExtensionContext, onDidChangeIndex as unknown as vscode.Event<void>);
+            statusBarItem = (vscode.window.createStatusBarItem as jest.Mock).mock.results[0].value;
+        });
+
+        it('is hidden when no memory applies to the active editor', () => {
+            expect(statusBarItem.visible).toBe(false);
+
+            openEditor('/ws/README.md');
+            provider.updateStatusBar();
+            expect(statusBarItem.visible).toBe(false);
+        });
+
+        it('shows how many memories apply to the active editor', () => {
+            openEditor('/ws/src/db/schema.sql');
+            provider.updateStatusBar();
+
+            expect(statusBarItem.visible).toBe(true);
+            expect(statusBarItem.text).toBe('$(lightbulb) 2 memories apply');
+            expect(statusBarItem.tooltip).toContain('- Database Rules\n- SQL Style');
+            expect(statusBarItem.command.arguments).toEqual([{ query: '@memory /memory-context ', isPartialQuery: true }]);
+        });
+
+        it('updates when the active editor or the index changes', () => {
+            expect(vscode.window.onDidChangeActiveTextEditor).toHaveBeenCalled();
+            expect(onDidChangeIndex).toHaveBeenCalled();
+
+            openEditor('/ws/src/db/pool.ts');
+            const listener = (vscode.window.onDidChangeActiveTextEditor as jest.Mock).mock.calls[0][0] as () => void;
+            listener();
+
+            expect(statusBarItem.text).toBe('$(lightbulb) 1 memory applies');
+        });
+    });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import * as vscode from 'vscode';
+import { MemoryCreationCommands } from '../../src/core/MemoryCreationCommands';
+import { MemoryFileParser } from '../../src/core/MemoryFileParser';
+import { TagSystem } from '../../src/core/TagSystem';
+
+jest.mock('vscode');
+
+describe('MemoryCreationCommands', () => {
+    const date = new Date(2024, 0, 15);
+
+    describe('toFileName', () => {
+        it('should derive a safe file name from the title', () => {
+            expect(MemoryCreationCommands.toFileName('API Conventions (v2)')).toBe('api-conventions-v2.md');
+            expect(MemoryCreationCommands.toFileName('Café / Über: notes')).toBe('cafe-uber-notes.md');
+            expect(MemoryCreationCommands.toFileName('???')).toBe('memory.md');
+        });
+
+        it('should limit the length of the file name', () => {
+            expect(MemoryCreationCommands.toFileName('word '.repeat(40)).length).toBeLessThanOrEqual(63);
+        });
+    });
+
+    describe('buildContent', () => {
+        it('should create a valid memory file', () => {
+            const content = MemoryCreationCommands.buildContent('Deployment: Steps', ['ops.deploy', '2024'], date);
+            const parsed = MemoryFileParser.parse(content);
+
+            expect(parsed.frontmatter.title).toBe('Deployment: Steps');
+            expect(parsed.frontmatter.tags).toEqual(['ops.deploy', '2024']);
+            expect(content).toContain('created: 2024-01-15\nupdated: 2024-01-15\n');
+            expect(parsed.content).toBe('# Deployment: Steps');
+        });
+
+        it('should add the template fields and fill the placeholders of its body', () => {
+            const template = {
+                name: 'decision',
+                frontmatter: { status: 'proposed', title: 'Ignored' },
+                body: '# {{title}}\n\nDecided on {{ date }}.'
+            };
+
+            const parsed = MemoryFileParser.parse(MemoryCreationCommands.buildContent('Use Postgres', ['db'], date, template));
+
+            expect(parsed.frontmatter.title).toBe('Use Postgres');
+            expect(parsed.frontmatter.status).toBe('proposed');
+            expect(parsed.content).toBe('# Use Postgres\n\nDecided on 2024-01-15.');
+        });
+    });
+
+    describe('parseTemplate', () => {
+        it('should split the frontmatter from the body', () => {
+            expect(MemoryCreationCommands.parseTemplate('---\nstatus: draft\n---\n\n# {{title}}')).toEqual({
+                frontmatter: { status: 'draft' },
+                body: '# {{title}}'
+            });
+        });
+
+        it('should use the whole text as body without frontmatter', () => {
+            expect(MemoryCreationCommands.parseTemplate('# {{title}}')).toEqual({ frontmatter: {}, body: '# {{title}}' });
+        });
+    });
+
+    describe('createMemory', () => {
+        const workspaceFolder = { name: 'ws', uri: vscode.Uri.file('/ws'), index: 0 };
+        let tagSystem: TagSystem;
+        let commands: MemoryCreationCommands;
+
+        beforeEach(() => {
+            jest.clearAllMocks();
+            tagSystem = new TagSystem();
+            tagSystem.addTags('/ws/Memory/a.md', ['backend.api', 'testing']);
+            commands = new MemoryCreationCommands(tagSystem);
+            (vscode.workspace as any).workspaceFolders = [workspaceFolder];
+
+            (vscode.workspace.fs.readDirectory as jest.Mock).mockImplementation(async () => [
+                ['decision.md', vscode.FileType.File],
+                ['notes.txt', vscode.FileType.File]
+            ]);
+            (vscode.workspace.fs.readFile as jest.Mock).mockImplementation(async () =>
+                Buffer.from('---\nstatus: proposed\n---\n# {{title}}\n', 'utf8')
+            );
+            // Only the first file name is taken
+            (vscode.workspace.fs.stat as jest.Mock).mockImplementation(async (uri: any) => {
+                if (uri.fsPath === '/ws/Memory/api-style.md') {
+                    return {};
+                }
+                throw new Error('ENOENT');
+            });
+        });
+
+        afterEach(() => {
+            (vscode.workspace as any).workspaceFolders = undefined;
+            (vscode.workspace.fs.readDirectory as jest.Mock).mockReset();
+            (vscode.workspace.fs.readFile as jest.Mock).mockReset();
+            (vscode.workspace.fs.stat as jest.Mock).mockReset();
+        });
+
+        it('should write the memory with the picked tags and template and open it', async () => {
+            (vscode.window.showInputBox as jest.Mock)
+                .mockResolvedValueOnce('API Style' as never)
+                .mockResolvedValueOnce('style, backend.api' as never);
+            (vscode.window.showQuickPick as jest.Mock)
+                .mockImplementationOnce(async (items: any) => items.filter((item: any) => item.label === 'backend.api'))
+                .mockImplementationOnce(async (items: any) => items.find((item: any) => item.label === 'decision'));
+
+            const uri = await commands.createMemory();
+
+            expect(uri?.fsPath).toBe('/ws/Memory/api-style-2.md');
+            const [writtenUri, buffer] = (vscode.workspace.fs.writeFile as jest.Mock).mock.calls[0] as [vscode.Uri, Uint8Array];
+            expect(writtenUri.fsPath).toBe('/ws/Memory/api-style-2.md');
+
+            const parsed = MemoryFileParser.parse(Buffer.from(buffer).toString('utf8'));
+            expect(parsed.frontmatter.title).toBe('API Style');
+            expect(parsed.frontmatter.tags).toEqual(['backend.api', 'style']);
+            expect(parsed.frontmatter.status).toBe('proposed');
+            expect(parsed.content).toBe('# API Style');
+            expect(vscode.window.showTextDocument).toHaveBeenCalled();
+        });
+
+        it('should offer the existing tags with their file counts', async () => {
+            (vscode.window.showInputBox as jest.Mock).mockResolvedValueOnce('Notes' as never);
+            (vscode.window.showQuickPick as jest.Mock).mockResolvedValueOnce(undefined as never);
+
+            await commands.createMemory();
+
+            const items = (vscode.window.showQuickPick as jest.Mock).mock.calls[0][0];
+            expect(items).toEqual([
+                { label: 'backend', description: '1 file' },
+                { label: 'backend.api', description: '1 file' },
+                { label: 'testing', description: '1 file' }
+            ]);
+        });
+
+        it('should not create a memory without tags', async () => {
+            (vscode.window.showInputBox as jest.Mock)
+                .mockResolvedValueOnce('Notes' as never)
+                .mockResolvedValueOnce('' as never);
+            (vscode.window.showQuickPick as jest.Mock).mockResolvedValueOnce([] as never);
+
+            expect(await commands.createMemory()).toBeUndefined();
+            expect(vscode.window.showWarningMessage).toHaveBeenCalledWith('A memory needs at least one tag.');
+            expect(vscode.workspace.fs.writeFile).not.toHaveBeenCalled();
+        });
+
+        it('should stop when the title prompt is cancelled', async () => {
+            (vscode.window.showInputBox as jest.Mock).mockResolvedValueOnce(undefined as never);
+
+            expect(await commands.createMemory()).toBeUndefined();
+            expect(vscode.window.showQuickPick).not.toHaveBeenCalled();
+        });
+    });
+});
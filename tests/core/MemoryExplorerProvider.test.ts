@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import * as vscode from 'vscode';
+import { MemoryExplorerProvider, MemoryExplorerNode } from '../../src/core/MemoryExplorerProvider';
+import { MemoryIndex } from '../../src/core/MemoryIndex';
+import { TagSystem } from '../../src/core/TagSystem';
+import { TagAliases } from '../../src/core/TagAliases';
+
+jest.mock('vscode');
+
+describe('MemoryExplorerProvider', () => {
+    let memoryIndex: MemoryIndex;
+    let tagSystem: TagSystem;
+    let provider: MemoryExplorerProvider;
+
+    const addMemory = (filePath: string, title: string, tags: string[]) => {
+        memoryIndex.add(filePath, { title, tags }, 'Content');
+        tagSystem.addTags(filePath, tags);
+    };
+
+    const tagNode = (tag: string): MemoryExplorerNode => ({ kind: 'tag', tag });
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        memoryIndex = new MemoryIndex();
+        tagSystem = new TagSystem();
+        provider = new MemoryExplorerProvider(tagSystem, memoryIndex);
+
+        addMemory('/ws/Memory/pool.md', 'Connection Pooling', ['backend.database', 'performance']);
+        addMemory('/ws/Memory/api.md', 'API Conventions', ['backend']);
+        addMemory('/ws/Memory/migrations.md', 'Migrations', ['backend.database']);
+    });
+
+    describe('getChildren', () => {
+        it('should list the top-level tags at the root', () => {
+            expect(provider.getChildren()).toEqual([tagNode('backend'), tagNode('performance')]);
+        });
+
+        it('should list child tags before the memories tagged with exactly that tag', () => {
+            expect(provider.getChildren(tagNode('backend'))).toEqual([
+                tagNode('backend.database'),
+                { kind: 'file', tag: 'backend', filePath: '/ws/Memory/api.md' }
+            ]);
+        });
+
+        it('should sort memories by title', () => {
+            expect(provider.getChildren(tagNode('backend.database'))).toEqual([
+                { kind: 'file', tag: 'backend.database', filePath: '/ws/Memory/pool.md' },
+                { kind: 'file', tag: 'backend.database', filePath: '/ws/Memory/migrations.md' }
+            ]);
+        });
+
+        it('should list memories tagged with an alias under the canonical tag', () => {
+            tagSystem.setAliases(TagAliases.parse('db: backend.database'));
+            addMemory('/ws/Memory/replicas.md', 'Read Replicas', ['db']);
+
+            expect(provider.getChildren(tagNode('backend.database'))).toContainEqual(
+                { kind: 'file', tag: 'backend.database', filePath: '/ws/Memory/replicas.md' });
+        });
+    });
+
+    describe('getTreeItem', () => {
+        it('should show the last tag segment with the number of files', () => {
+            const item = provider.getTreeItem(tagNode('backend.database'));
+
+            expect(item.label).toBe('database');
+            expect(item.description).toBe('2 files');
+            expect(item.collapsibleState).toBe(vscode.TreeItemCollapsibleState.Collapsed);
+            expect(item.contextValue).toBe('memoryTag');
+            expect(provider.getTreeItem(tagNode('backend')).description).toBe('3 files');
+        });
+
+        it('should show tags as they were first written', () => {
+            addMemory('/ws/Memory/k8s.md', 'Kubernetes', ['Ops.Kubernetes']);
+
+            const item = provider.getTreeItem(tagNode('ops.kubernetes'));
+            expect(item.label).toBe('Kubernetes');
+            expect(item.tooltip).toBe('Ops.Kubernetes');
+        });
+
+        it('should open memory files on click', () => {
+            const item = provider.getTreeItem({ kind: 'file', tag: 'backend', filePath: '/ws/Memory/api.md' });
+
+            expect(item.label).toBe('API Conventions');
+            expect(item.description).toBe('api.md');
+            expect(item.contextValue).toBe('memoryFile');
+            expect(item.command?.command).toBe('vscode.open');
+            expect(item.command?.arguments?.[0].fsPath).toBe('/ws/Memory/api.md');
+        });
+    });
+
+    describe('getParent', () => {
+        it('should return the enclosing tag', () => {
+            expect(provider.getParent(tagNode('backend.database'))).toEqual(tagNode('backend'));
+            expect(provider.getParent(tagNode('backend'))).toBeUndefined();
+            expect(provider.getParent({ kind: 'file', tag: 'backend', filePath: '/ws/Memory/api.md' })).toEqual(tagNode('backend'));
+        });
+    });
+
+    describe('register', () => {
+        const context = { subscriptions: [] as { dispose(): unknown }[] } as unknown as vscode.ExtensionContext;
+
+        const getCommand = (command: string) =>
+            (vscode.commands.registerCommand as jest.Mock).mock.calls.find(call => call[0] === command)![1] as (node: MemoryExplorerNode) => Promise<void>;
+
+        it('should refresh the tree when the index changes', () => {
+            const indexChanged = new vscode.EventEmitter<void>();
+            const listener = jest.fn();
+            provider.onDidChangeTreeData(listener);
+
+            provider.register(context, indexChanged.event);
+            indexChanged.fire();
+
+            expect(vscode.window.createTreeView).toHaveBeenCalledWith(MemoryExplorerProvider.VIEW_ID, expect.anything());
+            expect(listener).toHaveBeenCalledTimes(1);
+        });
+
+        it('should copy the chat query of a tag', async () => {
+            provider.register(context, new vscode.EventEmitter<void>().event);
+
+            await getCommand('memory-manager.explorer.copyQuery')(tagNode('backend.database'));
+
+            expect(vscode.env.clipboard.writeText).toHaveBeenCalledWith('@memory /memory-tag backend.database');
+        });
+
+        it('should open the chat with the tag query or the attached file', async () => {
+            provider.register(context, new vscode.EventEmitter<void>().event);
+            const attachToChat = getCommand('memory-manager.explorer.attachToChat');
+
+            await attachToChat(tagNode('backend'));
+            await attachToChat({ kind: 'file', tag: 'backend', filePath: '/ws/Memory/api.md' });
+
+            const calls = (vscode.commands.executeCommand as jest.Mock).mock.calls as [string, any][];
+            expect(calls[0][0]).toBe('workbench.action.chat.open');
+            expect(calls[0][1].query).toBe('@memory /memory-tag backend\n');
+            expect(calls[1][1].attachFiles[0].fsPath).toBe('/ws/Memory/api.md');
+        });
+    });
+});
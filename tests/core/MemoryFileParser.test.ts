@@ -278,4 +278,143 @@ tags: ["tag1"]
             expect(result.content).toBe('');
         });
     });
+
+    describe('error positions', () => {
+        const parseError = (content: string): FrontmatterParseError | FrontmatterValidationError => {
+            try {
+                MemoryFileParser.parse(content);
+            } catch (error) {
+                return error as FrontmatterParseError | FrontmatterValidationError;
+            }
+            throw new Error('Expected parse to fail');
+        };
+
+        it('should report the file position of YAML syntax errors', () => {
+            const error = parseError('---\ntitle: Test\ntags:\n  - a\n - b: [\n---\nContent');
+
+            expect(error).toBeInstanceOf(FrontmatterParseError);
+            expect(error.line).toBe(4);
+            expect(error.column).toBe(1);
+            expect(error.message).toContain('(line 5, column 2)');
+        });
+
+        it('should report a missing closing delimiter at the end of the file', () => {
+            const error = parseError('---\ntitle: Test\ntags: [a]\nContent');
+
+            expect(error.line).toBe(3);
+            expect(error.column).toBe('Content'.length);
+        });
+
+        it('should report invalid fields on their own line', () => {
+            expect(parseError('---\ntags: [a]\ntitle: 42\n---\n').line).toBe(2);
+            expect(parseError('---\ntitle: Test\n\ntags: single\n---\n').line).toBe(3);
+        });
+
+        it('should report the offending tags entry', () => {
+            const error = parseError('---\ntitle: Test\ntags:\n  - valid\n  - 42\n---\n');
+
+            expect(error).toBeInstanceOf(FrontmatterValidationError);
+            expect(error.message).toBe('All tags must be strings');
+            expect(error.line).toBe(4);
+        });
+
+        it('should report missing required fields on the opening delimiter', () => {
+            expect(parseError('---\ntags: [a]\n---\n').line).toBe(0);
+        });
+    });
+
+    describe('getWarnings', () => {
+        it('should return no warnings for valid optional fields', () => {
+            expect(MemoryFileParser.getWarnings({ title: 'Test', tags: ['tag1'] })).toEqual([]);
+            expect(MemoryFileParser.getWarnings({ title: 'Test', tags: ['tag1'], priority: 'high' })).toEqual([]);
+        });
+
+        it('should warn about invalid priorities without rejecting the file', () => {
+            const result = MemoryFileParser.parse(`---
+title: "Test"
+tags: ["tag1"]
+priority: urgent
+---
+
+Content.`);
+
+            const warnings = MemoryFileParser.getWarnings(result.frontmatter);
+            expect(warnings).toHaveLength(1);
+            expect(warnings[0].path).toBe('priority');
+            expect(warnings[0].message).toContain('Field "priority"');
+        });
+
+        it('should warn about malformed tags', () => {
+            expect(MemoryFileParser.getWarnings({ title: 'Test', tags: ['backend', 'backend..db', ' '] })).toEqual([
+                { path: 'tags[1]', message: 'Tag "backend..db" has an empty segment (e.g. "backend..db") and is ignored' },
+                { path: 'tags[2]', message: 'Empty tags are ignored' }
+            ]);
+        });
+
+        it('should warn about tags that tag queries would read as patterns or operators', () => {
+            const warnings = MemoryFileParser.getWarnings({ title: 'Test', tags: ['ci/cd', 'lang.c++', 'front end', '-legacy'] });
+
+            expect(warnings.map(warning => warning.path)).toEqual(['tags[0]', 'tags[2]', 'tags[3]']);
+            expect(warnings[0].message).toContain('Tag "ci/cd" contains');
+        });
+
+        it('should accept appliesTo globs as a string or a list', () => {
+            expect(MemoryFileParser.getWarnings({ title: 'Test', tags: ['tag1'], appliesTo: '*.sql' })).toEqual([]);
+            expect(MemoryFileParser.getWarnings({ title: 'Test', tags: ['tag1'], appliesTo: ['src/db/**', '*.sql'] })).toEqual([]);
+        });
+
+        it('should warn about appliesTo values that are not globs', () => {
+            const result = MemoryFileParser.parse(`---
+title: "Test"
+tags: ["tag1"]
+appliesTo:
+  path: src
+---
+
+Content.`);
+            expect(MemoryFileParser.getWarnings(result.frontmatter))
+                .toEqual([{ path: 'appliesTo', message: 'Field "appliesTo" must be a glob pattern or a list of glob patterns' }]);
+
+            const listResult = MemoryFileParser.parse(`---
+title: "Test"
+tags: ["tag1"]
+appliesTo: ["*.sql", 42]
+---
+
+Content.`);
+            expect(MemoryFileParser.getWarnings(listResult.frontmatter).map(warning => warning.path)).toEqual(['appliesTo[1]']);
+        });
+    });
+
+    describe('findFieldLine', () => {
+        const content = `---
+title: "Test"
+tags:
+  - first
+  - second
+meta:
+  owner: alice
+  list:
+  - item
+status: draft
+---
+
+Content.`;
+
+        it('should find top-level fields', () => {
+            expect(MemoryFileParser.findFieldLine(content, 'title')).toBe(1);
+            expect(MemoryFileParser.findFieldLine(content, 'status')).toBe(9);
+        });
+
+        it('should find nested fields and list items', () => {
+            expect(MemoryFileParser.findFieldLine(content, 'tags[1]')).toBe(4);
+            expect(MemoryFileParser.findFieldLine(content, 'meta.owner')).toBe(6);
+            expect(MemoryFileParser.findFieldLine(content, 'meta.list[0]')).toBe(8);
+        });
+
+        it('should fall back to the closest enclosing field or the first line', () => {
+            expect(MemoryFileParser.findFieldLine(content, 'meta.missing')).toBe(5);
+            expect(MemoryFileParser.findFieldLine(content, 'owner')).toBe(0);
+        });
+    });
 });
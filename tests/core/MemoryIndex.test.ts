@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from '@jest/globals';
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
 import { MemoryIndex } from '../../src/core/MemoryIndex';
 import { MemoryFileFrontmatter } from '../../src/core/MemoryFileParser';
 
@@ -110,6 +110,30 @@ describe('MemoryIndex', () => {
         });
     });
 
+    describe('setOverridden', () => {
+        it('should mark an entry and announce it as an update', () => {
+            index.add('/global/style.md', mockFrontmatter, mockContent, { isGlobal: true });
+            const updated = jest.fn();
+            index.onDidUpdate(updated);
+
+            expect(index.setOverridden('/global/style.md', true)).toBe(true);
+            expect(index.setOverridden('/global/style.md', true)).toBe(false);
+            expect(index.setOverridden('/missing.md', true)).toBe(false);
+
+            expect(index.get('/global/style.md')?.isOverridden).toBe(true);
+            expect(updated).toHaveBeenCalledTimes(1);
+        });
+
+        it('should be reset when the file is indexed again', () => {
+            index.add('/global/style.md', mockFrontmatter, mockContent, { isGlobal: true });
+            index.setOverridden('/global/style.md', true);
+
+            index.add('/global/style.md', mockFrontmatter, 'Changed', { isGlobal: true });
+
+            expect(index.get('/global/style.md')?.isOverridden).toBeUndefined();
+        });
+    });
+
     describe('has', () => {
         it('should return true for existing entry', () => {
             index.add('/path/to/file.md', mockFrontmatter, mockContent);
@@ -143,6 +167,18 @@ describe('MemoryIndex', () => {
         });
     });
 
+    describe('getByWorkspaceFolder', () => {
+        it('should return only entries from the given workspace folder', () => {
+            index.add('/api/Memory/a.md', mockFrontmatter, mockContent, { workspaceFolder: 'api' });
+            index.add('/web/Memory/b.md', mockFrontmatter, mockContent, { workspaceFolder: 'web' });
+            index.add('/other/c.md', mockFrontmatter, mockContent);
+
+            expect(index.getByWorkspaceFolder('api').map(entry => entry.filePath)).toEqual(['/api/Memory/a.md']);
+            expect(index.get('/web/Memory/b.md')?.workspaceFolder).toBe('web');
+            expect(index.get('/other/c.md')?.workspaceFolder).toBeUndefined();
+        });
+    });
+
     describe('getFilePaths', () => {
         it('should return all file paths', () => {
             index.add('/path/to/file1.md', mockFrontmatter, mockContent);
@@ -187,4 +223,109 @@ describe('MemoryIndex', () => {
             expect(index.size()).toBe(1);
         });
     });
+
+    describe('change events', () => {
+        const paths = (entries: { filePath: string }[]) => entries.map(entry => entry.filePath);
+
+        it('should fire add, update and remove events immediately outside a batch', () => {
+            const added = jest.fn();
+            const updated = jest.fn();
+            const removed = jest.fn();
+            index.onDidAdd(added);
+            index.onDidUpdate(updated);
+            index.onDidRemove(removed);
+
+            index.add('/a.md', mockFrontmatter, mockContent);
+            index.add('/a.md', mockFrontmatter, 'Changed');
+            index.remove('/a.md');
+            index.remove('/missing.md');
+
+            expect(added).toHaveBeenCalledTimes(1);
+            expect(paths(added.mock.calls[0][0] as { filePath: string }[])).toEqual(['/a.md']);
+            expect((updated.mock.calls[0][0] as { content: string }[])[0].content).toBe('Changed');
+            expect(removed).toHaveBeenCalledTimes(1);
+        });
+
+        it('should fire one event per kind when a batch ends', () => {
+            index.add('/old.md', mockFrontmatter, mockContent);
+            index.add('/kept.md', mockFrontmatter, mockContent);
+
+            const added = jest.fn();
+            const updated = jest.fn();
+            const removed = jest.fn();
+            index.onDidAdd(added);
+            index.onDidUpdate(updated);
+            index.onDidRemove(removed);
+
+            index.beginBatch();
+            index.add('/a.md', mockFrontmatter, mockContent);
+            index.add('/b.md', mockFrontmatter, mockContent);
+            index.add('/kept.md', mockFrontmatter, 'Changed');
+            index.remove('/old.md');
+            index.add('/temp.md', mockFrontmatter, mockContent);
+            index.remove('/temp.md');
+            expect(added).not.toHaveBeenCalled();
+            index.endBatch();
+
+            expect(added).toHaveBeenCalledTimes(1);
+            expect(paths(added.mock.calls[0][0] as { filePath: string }[])).toEqual(['/a.md', '/b.md']);
+            expect(paths(updated.mock.calls[0][0] as { filePath: string }[])).toEqual(['/kept.md']);
+            expect(paths(removed.mock.calls[0][0] as { filePath: string }[])).toEqual(['/old.md']);
+        });
+
+        it('should report a file removed and added again within a batch as updated', () => {
+            index.add('/a.md', mockFrontmatter, mockContent);
+            const added = jest.fn();
+            const updated = jest.fn();
+            index.onDidAdd(added);
+            index.onDidUpdate(updated);
+
+            index.beginBatch();
+            index.remove('/a.md');
+            index.add('/a.md', mockFrontmatter, 'Changed');
+            index.endBatch();
+
+            expect(added).not.toHaveBeenCalled();
+            expect(updated).toHaveBeenCalledTimes(1);
+        });
+
+        it('should fire clear before the entries added afterwards in the same batch', () => {
+            index.add('/a.md', mockFrontmatter, mockContent);
+            const events: string[] = [];
+            index.onDidClear(() => events.push('clear'));
+            index.onDidAdd(entries => events.push(`add ${paths(entries).join(',')}`));
+            index.onDidRemove(() => events.push('remove'));
+
+            index.beginBatch();
+            index.remove('/a.md');
+            index.clear();
+            index.add('/a.md', mockFrontmatter, mockContent);
+            index.endBatch();
+
+            expect(events).toEqual(['clear', 'add /a.md']);
+        });
+
+        it('should only fire when the outermost batch ends', () => {
+            const added = jest.fn();
+            index.onDidAdd(added);
+
+            index.beginBatch();
+            index.beginBatch();
+            index.add('/a.md', mockFrontmatter, mockContent);
+            index.endBatch();
+            expect(added).not.toHaveBeenCalled();
+            index.endBatch();
+
+            expect(added).toHaveBeenCalledTimes(1);
+        });
+
+        it('should stop notifying disposed listeners', () => {
+            const added = jest.fn();
+            index.onDidAdd(added).dispose();
+
+            index.add('/a.md', mockFrontmatter, mockContent);
+
+            expect(added).not.toHaveBeenCalled();
+        });
+    });
 });
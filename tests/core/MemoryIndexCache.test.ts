@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { MemoryIndexCache } from '../../src/core/MemoryIndexCache';
+import { MemoryIndex } from '../../src/core/MemoryIndex';
+import * as vscode from 'vscode';
+
+jest.mock('vscode');
+
+describe('MemoryIndexCache', () => {
+    const storageFolder = vscode.Uri.file('/storage');
+    let cache: MemoryIndexCache;
+
+    const mockCacheFile = (data: unknown): void => {
+        (vscode.workspace.fs.readFile as jest.Mock).mockResolvedValue(
+            // @ts-ignore - Mock return type
+            Buffer.from(typeof data === 'string' ? data : JSON.stringify(data), 'utf8')
+        );
+    };
+
+    beforeEach(() => {
+        cache = new MemoryIndexCache(storageFolder);
+        jest.clearAllMocks();
+    });
+
+    afterEach(() => {
+        (vscode.workspace.fs.readFile as jest.Mock).mockReset();
+        (vscode.workspace.fs.writeFile as jest.Mock).mockReset();
+    });
+
+    describe('save', () => {
+        it('should write entries that carry file information', async () => {
+            const index = new MemoryIndex();
+            index.add('/ws/Memory/a.md', { title: 'A', tags: ['a'] }, 'A content', {}, { mtime: 1, size: 2, hash: 'abc' });
+            index.add('/ws/Memory/b.md', { title: 'B', tags: ['b'] }, 'B content');
+
+            await cache.save(index.getAll());
+
+            expect(vscode.workspace.fs.createDirectory).toHaveBeenCalledWith(storageFolder);
+            const [uri, buffer] = (vscode.workspace.fs.writeFile as jest.Mock).mock.calls[0] as [vscode.Uri, Uint8Array];
+            expect(uri.fsPath).toContain(MemoryIndexCache.FILE_NAME);
+
+            const data = JSON.parse(Buffer.from(buffer).toString('utf8'));
+            expect(data.version).toBe(MemoryIndexCache.FORMAT_VERSION);
+            expect(data.entries).toEqual([{
+                filePath: '/ws/Memory/a.md',
+                frontmatter: { title: 'A', tags: ['a'] },
+                content: 'A content',
+                mtime: 1,
+                size: 2,
+                hash: 'abc'
+            }]);
+        });
+
+        it('should not throw if the cache cannot be written', async () => {
+            // @ts-ignore - Mock return type
+            (vscode.workspace.fs.writeFile as jest.Mock).mockRejectedValue(new Error('Read-only'));
+
+            await expect(cache.save([])).resolves.toBeUndefined();
+        });
+    });
+
+    describe('load', () => {
+        const validEntry = {
+            filePath: '/ws/Memory/a.md',
+            frontmatter: { title: 'A', tags: ['a'] },
+            content: 'A content',
+            mtime: 1,
+            size: 2,
+            hash: 'abc'
+        };
+
+        it('should load cached entries keyed by file path', async () => {
+            mockCacheFile({ version: MemoryIndexCache.FORMAT_VERSION, entries: [validEntry] });
+
+            const entries = await cache.load();
+
+            expect(entries.size).toBe(1);
+            expect(entries.get('/ws/Memory/a.md')).toEqual(validEntry);
+        });
+
+        it('should ignore a cache with a different format version', async () => {
+            mockCacheFile({ version: MemoryIndexCache.FORMAT_VERSION + 1, entries: [validEntry] });
+
+            expect((await cache.load()).size).toBe(0);
+        });
+
+        it('should ignore malformed entries', async () => {
+            mockCacheFile({
+                version: MemoryIndexCache.FORMAT_VERSION,
+                entries: [validEntry, { filePath: '/ws/Memory/b.md', content: 'No frontmatter' }]
+            });
+
+            const entries = await cache.load();
+
+            expect(Array.from(entries.keys())).toEqual(['/ws/Memory/a.md']);
+        });
+
+        it('should return an empty map for a corrupt or missing cache', async () => {
+            mockCacheFile('{ not json');
+            expect((await cache.load()).size).toBe(0);
+
+            // @ts-ignore - Mock return type
+            (vscode.workspace.fs.readFile as jest.Mock).mockRejectedValue(new Error('File not found'));
+            expect((await cache.load()).size).toBe(0);
+        });
+    });
+
+    describe('computeHash', () => {
+        it('should produce stable hashes that change with the content', () => {
+            expect(MemoryIndexCache.computeHash('abc')).toBe(MemoryIndexCache.computeHash('abc'));
+            expect(MemoryIndexCache.computeHash('abc')).not.toBe(MemoryIndexCache.computeHash('abd'));
+        });
+    });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from '@jest/globals';
+import { MemoryPriority } from '../../src/core/MemoryPriority';
+import { MemoryFileFrontmatter } from '../../src/core/MemoryFileParser';
+
+describe('MemoryPriority', () => {
+    describe('normalize', () => {
+        it('should map named priorities case-insensitively', () => {
+            expect(MemoryPriority.normalize('high')).toBe(8);
+            expect(MemoryPriority.normalize(' Medium ')).toBe(5);
+            expect(MemoryPriority.normalize('LOW')).toBe(3);
+        });
+
+        it('should accept numbers and numeric strings within the scale', () => {
+            expect(MemoryPriority.normalize(1)).toBe(1);
+            expect(MemoryPriority.normalize(10)).toBe(10);
+            expect(MemoryPriority.normalize('7')).toBe(7);
+        });
+
+        it('should reject values outside the scale', () => {
+            expect(MemoryPriority.normalize(0)).toBeUndefined();
+            expect(MemoryPriority.normalize(11)).toBeUndefined();
+            expect(MemoryPriority.normalize('urgent')).toBeUndefined();
+            expect(MemoryPriority.normalize('')).toBeUndefined();
+            expect(MemoryPriority.normalize(true)).toBeUndefined();
+            expect(MemoryPriority.normalize(undefined)).toBeUndefined();
+        });
+
+        it('should not read names from the object prototype', () => {
+            expect(MemoryPriority.normalize('constructor')).toBeUndefined();
+            expect(MemoryPriority.normalize('toString')).toBeUndefined();
+            expect(MemoryPriority.normalize('__proto__')).toBeUndefined();
+            expect(MemoryPriority.validate('constructor')).toContain('"constructor"');
+        });
+    });
+
+    describe('of', () => {
+        it('should fall back to the default priority', () => {
+            expect(MemoryPriority.of(undefined)).toBe(MemoryPriority.DEFAULT);
+            expect(MemoryPriority.of({ title: 'A', tags: ['a'] })).toBe(MemoryPriority.DEFAULT);
+            expect(MemoryPriority.of({ title: 'A', tags: ['a'], priority: 'urgent' })).toBe(MemoryPriority.DEFAULT);
+            expect(MemoryPriority.of({ title: 'A', tags: ['a'], priority: 'high' })).toBe(8);
+        });
+    });
+
+    describe('validate', () => {
+        it('should accept missing and valid priorities', () => {
+            expect(MemoryPriority.validate(undefined)).toBeUndefined();
+            expect(MemoryPriority.validate('low')).toBeUndefined();
+            expect(MemoryPriority.validate(9)).toBeUndefined();
+        });
+
+        it('should describe invalid priorities', () => {
+            expect(MemoryPriority.validate('urgent')).toContain('Field "priority" must be low, medium, high or a number from 1 to 10');
+            expect(MemoryPriority.validate(42)).toContain('(got 42)');
+        });
+    });
+
+    describe('sort', () => {
+        it('should order by priority and keep the order of equal priorities', () => {
+            const frontmatters: Record<string, MemoryFileFrontmatter> = {
+                '/a.md': { title: 'A', tags: ['t'] },
+                '/b.md': { title: 'B', tags: ['t'], priority: 'low' },
+                '/c.md': { title: 'C', tags: ['t'], priority: 9 },
+                '/d.md': { title: 'D', tags: ['t'], priority: 'medium' }
+            };
+
+            const sorted = MemoryPriority.sort(['/a.md', '/b.md', '/c.md', '/d.md', '/unknown.md'], filePath => frontmatters[filePath]);
+
+            expect(sorted).toEqual(['/c.md', '/a.md', '/d.md', '/unknown.md', '/b.md']);
+        });
+    });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import * as vscode from 'vscode';
+import { MemoryQuickFixProvider } from '../../src/core/MemoryQuickFixProvider';
+import { MemoryFileParser } from '../../src/core/MemoryFileParser';
+
+jest.mock('vscode');
+
+describe('MemoryQuickFixProvider', () => {
+    const provider = new MemoryQuickFixProvider();
+
+    const createDocument = (filePath: string, text: string) => ({
+        uri: vscode.Uri.file(filePath),
+        getText: () => text
+    }) as unknown as vscode.TextDocument;
+
+    const createDiagnostic = (message: string, source = 'Memory Manager') => {
+        const diagnostic = new vscode.Diagnostic(new vscode.Range(0, 0, 0, 0), message, vscode.DiagnosticSeverity.Error);
+        diagnostic.source = source;
+        return diagnostic;
+    };
+
+    const getActions = (document: vscode.TextDocument, message: string) =>
+        provider.provideCodeActions(document, new vscode.Range(0, 0, 0, 0), {
+            diagnostics: [createDiagnostic(message)]
+        } as unknown as vscode.CodeActionContext);
+
+    /**
+     * Applies the edits of a code action (the mock WorkspaceEdit records them) to the text
+     */
+    const applyFix = (text: string, action: vscode.CodeAction): string => {
+        const lines = text.split('\n');
+        const offsetOf = (position: vscode.Position) =>
+            lines.slice(0, position.line).reduce((offset, line) => offset + line.length + 1, 0) + position.character;
+
+        return (action.edit as unknown as { edits: { range: vscode.Range; newText: string }[] }).edits
+            .map(edit => ({ start: offsetOf(edit.range.start), end: offsetOf(edit.range.end), newText: edit.newText }))
+            .sort((a, b) => b.start - a.start)
+            .reduce((result, edit) => result.slice(0, edit.start) + edit.newText + result.slice(edit.end), text);
+    };
+
+    const fix = (filePath: string, text: string, message: string): string => {
+        const actions = getActions(createDocument(filePath, text), message);
+        expect(actions).toHaveLength(1);
+        return applyFix(text, actions[0]);
+    };
+
+    it('should ignore diagnostics from other sources', () => {
+        const actions = provider.provideCodeActions(createDocument('/Memory/a.md', 'Text'), new vscode.Range(0, 0, 0, 0), {
+            diagnostics: [createDiagnostic('Missing required field: title', 'markdownlint')]
+        } as unknown as vscode.CodeActionContext);
+
+        expect(actions).toEqual([]);
+    });
+
+    it('should insert a frontmatter skeleton titled after the first heading', () => {
+        const fixed = fix('/Memory/notes.md', '# API Conventions\n\nUse REST.', 'YAML Frontmatter Error: File does not start with YAML frontmatter delimiter (---)');
+
+        const parsed = MemoryFileParser.parse(fixed);
+        expect(parsed.frontmatter.title).toBe('API Conventions');
+        expect(parsed.frontmatter.tags).toEqual([MemoryQuickFixProvider.PLACEHOLDER_TAG]);
+        expect(parsed.content).toBe('# API Conventions\n\nUse REST.');
+    });
+
+    it('should derive the title from the file name when there is no heading', () => {
+        const fixed = fix('/Memory/coding-style_guide.md', '---\ntags: [style]\n---\nNo heading.', 'Missing required field: title');
+
+        expect(MemoryFileParser.parse(fixed).frontmatter.title).toBe('Coding Style Guide');
+    });
+
+    it('should not take the title from comments in the frontmatter', () => {
+        const fixed = fix('/Memory/a.md', '---\n# owner: alice\ntags: [a]\n---\n## Deployment\nSteps.', 'Missing required field: title');
+
+        expect(MemoryFileParser.parse(fixed).frontmatter.title).toBe('Deployment');
+    });
+
+    it('should replace an empty title instead of adding a second one', () => {
+        const fixed = fix('/Memory/deploy.md', '---\ntags: [ops]\ntitle:\n---\n# Deployment', 'Missing required field: title');
+
+        expect(fixed).toBe('---\ntags: [ops]\ntitle: "Deployment"\n---\n# Deployment');
+        expect(MemoryFileParser.parse(fixed).frontmatter.title).toBe('Deployment');
+    });
+
+    it('should convert scalar tags into a list', () => {
+        expect(MemoryFileParser.parse(fix('/Memory/a.md', '---\ntitle: A\ntags: backend\n---\n', 'Field "tags" must be an array')).frontmatter.tags)
+            .toEqual(['backend']);
+        expect(MemoryFileParser.parse(fix('/Memory/a.md', '---\ntitle: A\ntags: backend, 2024\n---\n', 'Field "tags" must be an array')).frontmatter.tags)
+            .toEqual(['backend', '2024']);
+    });
+
+    it('should quote tags that are not strings', () => {
+        const block = fix('/Memory/a.md', '---\ntitle: A\ntags:\n  - valid\n  - 42\n  - true\n---\n', 'All tags must be strings');
+        expect(block).toContain('  - valid\n  - "42"\n  - "true"');
+        expect(MemoryFileParser.parse(block).frontmatter.tags).toEqual(['valid', '42', 'true']);
+
+        const flow = fix('/Memory/a.md', '---\ntitle: A\ntags: [valid, 2024-01-15]\n---\n', 'All tags must be strings');
+        expect(MemoryFileParser.parse(flow).frontmatter.tags).toEqual(['valid', '2024-01-15']);
+    });
+
+    it('should keep the line breaks of CRLF files', () => {
+        const fixed = fix('/Memory/a.md', '---\r\ntitle: A\r\ntags:\r\n  - 42\r\n---\r\n', 'All tags must be strings');
+
+        expect(fixed).toBe('---\r\ntitle: A\r\ntags:\r\n  - "42"\r\n---\r\n');
+    });
+
+    it('should add a missing closing delimiter after the frontmatter', () => {
+        const fixed = fix('/Memory/a.md', '---\ntitle: A\ntags:\n  - a\n\nContent starts here.', 'YAML Frontmatter Error: Could not find closing frontmatter delimiter (---)');
+
+        const parsed = MemoryFileParser.parse(fixed);
+        expect(parsed.frontmatter.tags).toEqual(['a']);
+        expect(parsed.content).toBe('Content starts here.');
+    });
+});
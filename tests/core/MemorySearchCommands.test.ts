@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import * as vscode from 'vscode';
+import { MemorySearchCommands } from '../../src/core/MemorySearchCommands';
+import { FullTextIndex } from '../../src/core/FullTextIndex';
+import { MemoryIndex } from '../../src/core/MemoryIndex';
+
+jest.mock('vscode');
+
+describe('MemorySearchCommands', () => {
+    let memoryIndex: MemoryIndex;
+    let commands: MemorySearchCommands;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        memoryIndex = new MemoryIndex();
+        const fullTextIndex = new FullTextIndex();
+        fullTextIndex.watch(memoryIndex);
+        commands = new MemorySearchCommands(fullTextIndex, memoryIndex);
+
+        memoryIndex.add('/ws/Memory/pool.md', { title: 'Connection Pooling', tags: ['backend'] }, 'Use a pool of 10 connections.');
+        memoryIndex.add('/ws/Memory/cache.md', { title: 'Caching', tags: ['backend'] }, 'Cache queries for one minute.');
+    });
+
+    it('registers the search command', () => {
+        const context = { subscriptions: [] } as unknown as vscode.ExtensionContext;
+        commands.registerCommands(context);
+
+        expect(vscode.commands.registerCommand).toHaveBeenCalledWith('memory-manager.search', expect.any(Function));
+        expect(context.subscriptions).toHaveLength(1);
+    });
+
+    it('builds quick pick items with the title, file name and snippet', () => {
+        expect(commands.getItems('pooling')).toEqual([{
+            label: 'Connection Pooling',
+            description: 'pool.md',
+            detail: 'Use a pool of 10 connections.',
+            alwaysShow: true,
+            filePath: '/ws/Memory/pool.md'
+        }]);
+    });
+
+    it('updates the results while typing and opens the selected memory', async () => {
+        const done = commands.search('cache');
+        const quickPick = (vscode.window.createQuickPick as jest.Mock).mock.results[0].value as any;
+
+        expect(quickPick.matchOnDetail).toBe(true);
+        expect(quickPick.items.map((item: any) => item.label)).toEqual(['Caching']);
+
+        quickPick.type('connections');
+        expect(quickPick.items.map((item: any) => item.label)).toEqual(['Connection Pooling']);
+
+        quickPick.accept(quickPick.items[0]);
+        await done;
+
+        expect(vscode.workspace.openTextDocument).toHaveBeenCalledWith(vscode.Uri.file('/ws/Memory/pool.md'));
+        expect(vscode.window.showTextDocument).toHaveBeenCalled();
+        expect(quickPick.dispose).toHaveBeenCalled();
+    });
+
+    it('formats a match for the chat with the matched words in bold', () => {
+        const fullTextIndex = new FullTextIndex();
+        fullTextIndex.watch(memoryIndex);
+
+        expect(commands.formatMatch(fullTextIndex.search('pools')[0]))
+            .toBe('- **Connection Pooling** (pool.md): Use a **pool** of 10 connections.');
+    });
+});
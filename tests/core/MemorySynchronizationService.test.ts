@@ -1,7 +1,8 @@
-import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
 import { MemorySynchronizationService } from '../../src/core/MemorySynchronizationService';
 import { MemoryIndex } from '../../src/core/MemoryIndex';
 import { TagSystem } from '../../src/core/TagSystem';
+import { MemoryIndexCache, CachedMemoryEntry } from '../../src/core/MemoryIndexCache';
 import * as vscode from 'vscode';
 
 // Mock vscode module
@@ -131,6 +132,103 @@ Content.`;
         });
     });
 
+    describe('workspace folder tracking', () => {
+        it('should record the workspace folder each memory came from', async () => {
+            const uri = vscode.Uri.file('/api/Memory/file.md');
+
+            (vscode.workspace.getWorkspaceFolder as jest.Mock).mockReturnValueOnce({ name: 'api', uri: vscode.Uri.file('/api'), index: 0 });
+            (vscode.workspace.fs.readFile as jest.Mock).mockResolvedValue(
+                // @ts-ignore - Mock return type
+                Buffer.from(validFileContent, 'utf8')
+            );
+
+            await service.handleFileCreateOrChange(uri);
+
+            expect(memoryIndex.get(uri.fsPath)?.workspaceFolder).toBe('api');
+        });
+    });
+
+    describe('global memories', () => {
+        const memoryFile = (title: string, tag: string, id?: string) => `---
+title: "${title}"
+${id ? `id: "${id}"\n` : ''}tags:
+  - "${tag}"
+---
+
+Content of ${title}.`;
+
+        const syncFile = async (filePath: string, content: string) => {
+            (vscode.workspace.fs.readFile as jest.Mock).mockResolvedValueOnce(
+                // @ts-ignore - Mock return type
+                Buffer.from(content, 'utf8')
+            );
+            await service.handleFileCreateOrChange(vscode.Uri.file(filePath));
+        };
+
+        beforeEach(() => {
+            service.setGlobalFolder('/global');
+        });
+
+        it('should mark files inside the global folder as global', async () => {
+            await syncFile('/global/style.md', memoryFile('Coding Style', 'style'));
+
+            const entry = memoryIndex.get('/global/style.md');
+            expect(entry?.isGlobal).toBe(true);
+            expect(entry?.workspaceFolder).toBeUndefined();
+            expect(tagSystem.queryByTag('style')).toEqual(['/global/style.md']);
+        });
+
+        it('should hide a global memory overridden by a workspace memory with the same title', async () => {
+            await syncFile('/global/style.md', memoryFile('Coding Style', 'style.global'));
+            await syncFile('/ws/Memory/style.md', memoryFile('coding style', 'style.project'));
+
+            expect(memoryIndex.has('/global/style.md')).toBe(true);
+            expect(service.isOverridden('/global/style.md')).toBe(true);
+            expect(tagSystem.queryByTag('style.global')).toEqual([]);
+            expect(tagSystem.queryByTag('style')).toEqual(['/ws/Memory/style.md']);
+        });
+
+        it('should hide a global memory overridden by a workspace memory with the same id', async () => {
+            await syncFile('/ws/Memory/review.md', memoryFile('Project Review', 'review', 'review-checklist'));
+            await syncFile('/global/review.md', memoryFile('Review Checklist', 'review', 'review-checklist'));
+
+            expect(service.isOverridden('/global/review.md')).toBe(true);
+            expect(tagSystem.queryByTag('review')).toEqual(['/ws/Memory/review.md']);
+        });
+
+        it('should restore the global memory when the overriding workspace memory is deleted', async () => {
+            await syncFile('/global/style.md', memoryFile('Coding Style', 'style'));
+            await syncFile('/ws/Memory/style.md', memoryFile('Coding Style', 'style'));
+
+            service.handleFileDelete(vscode.Uri.file('/ws/Memory/style.md'));
+
+            expect(service.isOverridden('/global/style.md')).toBe(false);
+            expect(tagSystem.queryByTag('style')).toEqual(['/global/style.md']);
+        });
+
+        it('should keep the global memory hidden while another workspace memory overrides it', async () => {
+            await syncFile('/global/style.md', memoryFile('Coding Style', 'style'));
+            await syncFile('/ws/a/style.md', memoryFile('Coding Style', 'style'));
+            await syncFile('/ws/b/style.md', memoryFile('Coding Style', 'style'));
+
+            service.handleFileDelete(vscode.Uri.file('/ws/a/style.md'));
+            expect(service.isOverridden('/global/style.md')).toBe(true);
+
+            expect(memoryIndex.get('/global/style.md')?.isOverridden).toBe(true);
+
+            await syncFile('/ws/b/style.md', memoryFile('Renamed Style', 'style'));
+            expect(service.isOverridden('/global/style.md')).toBe(false);
+            expect(tagSystem.queryByTag('style').sort()).toEqual(['/global/style.md', '/ws/b/style.md']);
+        });
+
+        it('should not treat workspace memories as overridden', async () => {
+            await syncFile('/ws/a/style.md', memoryFile('Coding Style', 'style'));
+            await syncFile('/ws/b/style.md', memoryFile('Coding Style', 'style'));
+
+            expect(tagSystem.queryByTag('style')).toHaveLength(2);
+        });
+    });
+
     describe('handleFileDelete', () => {
         it('should remove file from index and tag system', async () => {
             const uri = vscode.Uri.file('/test/file.md');
@@ -233,6 +331,75 @@ Content.`;
         });
     });
 
+    describe('change events', () => {
+        const memoryFile = (title: string, tag: string) => `---
+title: "${title}"
+tags:
+  - "${tag}"
+---
+
+Content.`;
+
+        it('should fire one add event for a batch of files', async () => {
+            (vscode.workspace.fs.readFile as jest.Mock)
+                // @ts-ignore - Mock return type
+                .mockResolvedValueOnce(Buffer.from(memoryFile('One', 'tag1'), 'utf8'))
+                // @ts-ignore - Mock return type
+                .mockResolvedValueOnce(Buffer.from(memoryFile('Two', 'tag2'), 'utf8'));
+            const added = jest.fn();
+            const tagsAdded = jest.fn();
+            memoryIndex.onDidAdd(added);
+            tagSystem.onDidAddTags(tagsAdded);
+
+            await service.synchronizeBatch([vscode.Uri.file('/test/one.md'), vscode.Uri.file('/test/two.md')]);
+
+            expect(added).toHaveBeenCalledTimes(1);
+            expect((added.mock.calls[0][0] as unknown[]).length).toBe(2);
+            expect(tagsAdded.mock.calls).toEqual([[['tag1', 'tag2']]]);
+        });
+
+        it('should not announce unchanged tags when a file is indexed again', async () => {
+            // @ts-ignore - Mock return type
+            (vscode.workspace.fs.readFile as jest.Mock).mockResolvedValue(Buffer.from(memoryFile('One', 'tag1'), 'utf8'));
+            await service.handleFileCreateOrChange(vscode.Uri.file('/test/one.md'));
+
+            const updated = jest.fn();
+            const tagsRemoved = jest.fn();
+            const tagsAdded = jest.fn();
+            memoryIndex.onDidUpdate(updated);
+            tagSystem.onDidRemoveTags(tagsRemoved);
+            tagSystem.onDidAddTags(tagsAdded);
+
+            await service.handleFileCreateOrChange(vscode.Uri.file('/test/one.md'));
+
+            expect(updated).toHaveBeenCalledTimes(1);
+            expect(tagsRemoved).not.toHaveBeenCalled();
+            expect(tagsAdded).not.toHaveBeenCalled();
+        });
+
+        it('should end the batch when indexing or removing a file fails', async () => {
+            // @ts-ignore - Mock return type
+            (vscode.workspace.fs.readFile as jest.Mock).mockResolvedValue(Buffer.from(memoryFile('One', 'tag1'), 'utf8'));
+            const added = jest.fn();
+            const removed = jest.fn();
+            memoryIndex.onDidAdd(added);
+            memoryIndex.onDidRemove(removed);
+            jest.spyOn(tagSystem, 'addTags').mockImplementationOnce(() => {
+                throw new Error('Malformed tag');
+            });
+
+            await service.handleFileCreateOrChange(vscode.Uri.file('/test/one.md'));
+            expect(added).toHaveBeenCalledTimes(1);
+
+            jest.spyOn(tagSystem, 'removeTags').mockImplementationOnce(() => {
+                throw new Error('Malformed tag');
+            });
+            service.handleFileDelete(vscode.Uri.file('/test/one.md'));
+            memoryIndex.remove('/test/one.md');
+            expect(removed).toHaveBeenCalledTimes(1);
+        });
+    });
+
     describe('refreshFile', () => {
         it('should refresh an existing file with new content', async () => {
             const filePath = '/test/file.md';
@@ -377,4 +544,136 @@ Content.`;
             expect(tagSystem.size()).toBe(0);
         });
     });
+
+    describe('synchronizeBatchWithCache', () => {
+        const uri = vscode.Uri.file('/test/file.md');
+        const cachedEntry = (): CachedMemoryEntry => ({
+            filePath: uri.fsPath,
+            frontmatter: { title: 'Cached Memory', tags: ['cached'] },
+            content: 'Cached content',
+            mtime: 1000,
+            size: 42,
+            hash: MemoryIndexCache.computeHash(validFileContent)
+        });
+
+        afterEach(() => {
+            (vscode.workspace.fs.stat as jest.Mock).mockReset();
+            (vscode.workspace.fs.readFile as jest.Mock).mockReset();
+        });
+
+        it('should restore unchanged files without reading them', async () => {
+            // @ts-ignore - Mock return type
+            (vscode.workspace.fs.stat as jest.Mock).mockResolvedValue({ mtime: 1000, size: 42 });
+
+            const restored = await service.synchronizeBatchWithCache([uri], new Map([[uri.fsPath, cachedEntry()]]));
+
+            expect(restored).toBe(1);
+            expect(vscode.workspace.fs.readFile).not.toHaveBeenCalled();
+            expect(memoryIndex.get(uri.fsPath)?.frontmatter.title).toBe('Cached Memory');
+            expect(tagSystem.queryByTag('cached')).toContain(uri.fsPath);
+        });
+
+        it('should restore files whose mtime changed but content hash did not', async () => {
+            // @ts-ignore - Mock return type
+            (vscode.workspace.fs.stat as jest.Mock).mockResolvedValue({ mtime: 2000, size: 42 });
+            (vscode.workspace.fs.readFile as jest.Mock).mockResolvedValue(
+                // @ts-ignore - Mock return type
+                Buffer.from(validFileContent, 'utf8')
+            );
+
+            const restored = await service.synchronizeBatchWithCache([uri], new Map([[uri.fsPath, cachedEntry()]]));
+
+            expect(restored).toBe(1);
+            expect(memoryIndex.get(uri.fsPath)?.frontmatter.title).toBe('Cached Memory');
+            expect(memoryIndex.get(uri.fsPath)?.fileInfo?.mtime).toBe(2000);
+        });
+
+        it('should re-parse files whose content changed', async () => {
+            // @ts-ignore - Mock return type
+            (vscode.workspace.fs.stat as jest.Mock).mockResolvedValue({ mtime: 2000, size: 50 });
+            (vscode.workspace.fs.readFile as jest.Mock).mockResolvedValue(
+                // @ts-ignore - Mock return type
+                Buffer.from(validFileContent.replace('Test Memory', 'Changed Memory'), 'utf8')
+            );
+
+            const restored = await service.synchronizeBatchWithCache([uri], new Map([[uri.fsPath, cachedEntry()]]));
+
+            expect(restored).toBe(0);
+            expect(memoryIndex.get(uri.fsPath)?.frontmatter.title).toBe('Changed Memory');
+            expect(tagSystem.queryByTag('cached')).toHaveLength(0);
+        });
+
+        it('should parse files missing from the cache', async () => {
+            (vscode.workspace.fs.readFile as jest.Mock).mockResolvedValue(
+                // @ts-ignore - Mock return type
+                Buffer.from(validFileContent, 'utf8')
+            );
+
+            const restored = await service.synchronizeBatchWithCache([uri], new Map());
+
+            expect(restored).toBe(0);
+            expect(memoryIndex.get(uri.fsPath)?.frontmatter.title).toBe('Test Memory');
+        });
+    });
+
+    describe('tag aliases', () => {
+        const aliasesUri = vscode.Uri.file('/ws/Memory/.tag-aliases.yaml');
+
+        const loadTagAliases = async (text: string) => {
+            (vscode.workspace.fs.readFile as jest.Mock).mockResolvedValueOnce(
+                // @ts-ignore - Mock return type
+                Buffer.from(text, 'utf8')
+            );
+            await service.loadTagAliases('/ws', aliasesUri);
+        };
+
+        beforeEach(async () => {
+            (vscode.workspace.fs.readFile as jest.Mock).mockResolvedValueOnce(
+                // @ts-ignore - Mock return type
+                Buffer.from(validFileContent.replace('"backend.database"', '"db"'), 'utf8')
+            );
+            await service.handleFileCreateOrChange(vscode.Uri.file('/ws/Memory/test.md'));
+        });
+
+        it('should index the tags of all memories again with the loaded aliases', async () => {
+            expect(tagSystem.queryByTag('db')).toEqual(['/ws/Memory/test.md']);
+
+            await loadTagAliases('db: backend.database');
+            service.applyTagAliases();
+
+            expect(tagSystem.getAllTags().sort()).toEqual(['backend', 'backend.database', 'testing']);
+            expect(tagSystem.queryByTag('backend.database')).toEqual(['/ws/Memory/test.md']);
+        });
+
+        it('should drop the aliases when they are cleared', async () => {
+            await loadTagAliases('db: backend.database');
+            service.applyTagAliases();
+
+            service.clearTagAliases();
+            service.applyTagAliases();
+
+            expect(tagSystem.getAllTags().sort()).toEqual(['db', 'testing']);
+        });
+
+        it('should ignore an invalid aliases file', async () => {
+            await loadTagAliases('db: [backend.database]');
+            service.applyTagAliases();
+
+            expect(tagSystem.getAliases().size()).toBe(0);
+            expect(tagSystem.queryByTag('db')).toEqual(['/ws/Memory/test.md']);
+        });
+
+        it('should end the batch when re-indexing the tags fails', () => {
+            const listener = jest.fn();
+            tagSystem.onDidAddTags(listener);
+            jest.spyOn(tagSystem, 'addTags').mockImplementationOnce(() => {
+                throw new Error('Malformed tag');
+            });
+
+            expect(() => service.applyTagAliases()).toThrow('Malformed tag');
+
+            tagSystem.addTags('/ws/Memory/other.md', ['frontend']);
+            expect(listener).toHaveBeenCalled();
+        });
+    });
 });
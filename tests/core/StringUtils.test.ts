@@ -46,4 +46,18 @@ describe('StringUtils - Unit Tests', () => {
             expect(StringUtils.trimPath('  /path/to/file  ')).toBe('/path/to/file');
         });
     });
-});
\ No newline at end of file
+
+    describe('fuzzyMatch', () => {
+        it('should score inputs whose characters appear in order', () => {
+            expect(StringUtils.fuzzyMatch('bdb', 'backend.database')).toBeGreaterThan(0);
+        });
+
+        it('should score consecutive matches higher', () => {
+            expect(StringUtils.fuzzyMatch('data', 'backend.database')).toBeGreaterThan(StringUtils.fuzzyMatch('dtbs', 'backend.database'));
+        });
+
+        it('should return 0 when a character is missing', () => {
+            expect(StringUtils.fuzzyMatch('backend.x', 'backend.database')).toBe(0);
+        });
+    });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from '@jest/globals';
+import { TagAliases, TagAliasesError } from '../../src/core/TagAliases';
+
+describe('TagAliases', () => {
+    const aliases = TagAliases.parse(`
+db.postgres: backend.database.postgres
+pg:
+  tag: backend.database.postgres
+  deprecated: true
+db: backend.database
+`);
+
+    describe('parse', () => {
+        it('reads plain and deprecated aliases', () => {
+            expect(aliases.size()).toBe(3);
+            expect(aliases.find('db.postgres')).toEqual({ alias: 'db.postgres', tag: 'backend.database.postgres', deprecated: false });
+            expect(aliases.find('pg')).toEqual({ alias: 'pg', tag: 'backend.database.postgres', deprecated: true });
+        });
+
+        it('treats an empty file as no aliases', () => {
+            expect(TagAliases.parse('').size()).toBe(0);
+            expect(TagAliases.parse('# no aliases yet\n').size()).toBe(0);
+        });
+
+        it('rejects files that are not a mapping of aliases to tags', () => {
+            expect(() => TagAliases.parse('- db\n- pg')).toThrow(TagAliasesError);
+            expect(() => TagAliases.parse('db: [backend.database]')).toThrow('Alias "db" must map to a tag without wildcards');
+            expect(() => TagAliases.parse('db: backend.*')).toThrow('Alias "db" must map to a tag without wildcards');
+            expect(() => TagAliases.parse('"db.*": backend.database')).toThrow('Alias "db.*" must be a tag without wildcards');
+            expect(() => TagAliases.parse('db: backend.data?')).toThrow('Alias "db" must map to a tag without wildcards');
+            expect(() => TagAliases.parse('"db|sql": backend.database')).toThrow('Alias "db|sql" must be a tag without wildcards');
+            expect(() => TagAliases.parse('db: db.postgres')).toThrow('can\'t map to itself or a tag below it');
+            expect(() => TagAliases.parse('db:\n  tag: backend\n  deprecated: yes please')).toThrow('Field "deprecated"');
+            expect(() => TagAliases.parse('db: [')).toThrow('Invalid YAML');
+        });
+    });
+
+    describe('resolve', () => {
+        it('resolves aliases to their canonical tag', () => {
+            expect(aliases.resolve('pg')).toBe('backend.database.postgres');
+            expect(aliases.resolve('db.postgres')).toBe('backend.database.postgres');
+        });
+
+        it('resolves the tags below an alias', () => {
+            expect(aliases.resolve('db.mysql')).toBe('backend.database.mysql');
+            expect(aliases.resolve('pg.replication')).toBe('backend.database.postgres.replication');
+            expect(aliases.resolve('db.*')).toBe('backend.database.*');
+        });
+
+        it('leaves other tags unchanged', () => {
+            expect(aliases.resolve('backend.database')).toBe('backend.database');
+            expect(aliases.resolve('dbx')).toBe('dbx');
+            expect(aliases.resolve('*.postgres')).toBe('*.postgres');
+        });
+
+        it('normalizes aliases, tags and the resolved tag', () => {
+            expect(aliases.resolve(' DB .Postgres')).toBe('backend.database.postgres');
+            expect(TagAliases.parse('K8s: Ops.Kubernetes').resolve('k8s')).toBe('ops.kubernetes');
+        });
+
+        it('follows aliases of aliases', () => {
+            const chained = TagAliases.parse('postgres: db.postgres\ndb: backend.database');
+            expect(chained.resolve('postgres')).toBe('backend.database.postgres');
+        });
+
+        it('stops on aliases pointing at each other', () => {
+            const cyclic = TagAliases.parse('a: b\nb: a');
+            expect(['a', 'b']).toContain(cyclic.resolve('a'));
+        });
+    });
+
+    it('lists the aliases of a canonical tag', () => {
+        expect(aliases.getAliases('backend.database.postgres').map(alias => alias.alias)).toEqual(['db.postgres', 'pg']);
+        expect(aliases.getAliases('backend.database').map(alias => alias.alias)).toEqual(['db']);
+        expect(aliases.getAliases('frontend')).toEqual([]);
+    });
+
+    it('merges the aliases of several folders, the first definition winning', () => {
+        const merged = TagAliases.merge([TagAliases.parse('db: backend.database'), TagAliases.parse('db: data\nui: frontend.ui')]);
+
+        expect(merged.resolve('db')).toBe('backend.database');
+        expect(merged.resolve('ui')).toBe('frontend.ui');
+        expect(TagAliases.merge([])).toBe(TagAliases.EMPTY);
+    });
+});
@@ -0,0 +1,32 @@
+import { describe, it, expect } from '@jest/globals';
+import { TagNormalizer } from '../../src/core/TagNormalizer';
+
+describe('TagNormalizer', () => {
+    describe('normalize', () => {
+        it('folds case and trims the whitespace around segments', () => {
+            expect(TagNormalizer.normalize(' Backend . Database ')).toBe('backend.database');
+            expect(TagNormalizer.normalize('backend.*')).toBe('backend.*');
+        });
+
+        it('normalizes to Unicode NFC', () => {
+            expect(TagNormalizer.normalize('Café')).toBe('café');
+        });
+
+        it('rejects tags with empty segments', () => {
+            expect(TagNormalizer.normalize('')).toBeUndefined();
+            expect(TagNormalizer.normalize('backend..db')).toBeUndefined();
+            expect(TagNormalizer.normalize('.backend')).toBeUndefined();
+            expect(TagNormalizer.normalize('backend. ')).toBeUndefined();
+        });
+    });
+
+    it('keeps the case of the segments for display', () => {
+        expect(TagNormalizer.getSegments(' Backend.API ')).toEqual(['Backend', 'API']);
+    });
+
+    it('describes malformed tags', () => {
+        expect(TagNormalizer.getProblem('backend.db')).toBeUndefined();
+        expect(TagNormalizer.getProblem(' ')).toBe('Empty tags are ignored');
+        expect(TagNormalizer.getProblem('backend..db')).toContain('empty segment');
+    });
+});
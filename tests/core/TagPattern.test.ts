@@ -0,0 +1,73 @@
+import { describe, it, expect } from '@jest/globals';
+import { TagPattern } from '../../src/core/TagPattern';
+
+describe('TagPattern', () => {
+    describe('isPattern', () => {
+        it('detects globs and regular expressions', () => {
+            expect(TagPattern.isPattern('backend.*')).toBe(true);
+            expect(TagPattern.isPattern('backend.{auth,database}')).toBe(true);
+            expect(TagPattern.isPattern('db.[mp]*')).toBe(true);
+            expect(TagPattern.isPattern('/^front/')).toBe(true);
+            expect(TagPattern.isPattern('backend.database')).toBe(false);
+            expect(TagPattern.isPattern('/')).toBe(false);
+        });
+    });
+
+    describe('hasSyntax', () => {
+        it('detects characters that patterns and tag queries read as syntax', () => {
+            expect(TagPattern.hasSyntax('backend.data?')).toBe(true);
+            expect(TagPattern.hasSyntax('backend.{auth,db}')).toBe(true);
+            expect(TagPattern.hasSyntax('a|b')).toBe(true);
+            expect(TagPattern.hasSyntax('front end')).toBe(true);
+            expect(TagPattern.hasSyntax('-legacy')).toBe(true);
+            expect(TagPattern.hasSyntax(' Backend . front-end ')).toBe(false);
+            expect(TagPattern.hasSyntax('lang.c++')).toBe(false);
+        });
+    });
+
+    describe('matches', () => {
+        it('matches whole segments with * and any number of segments with **', () => {
+            expect(TagPattern.matches('backend.*', 'backend.api')).toBe(true);
+            expect(TagPattern.matches('backend.*', 'backend.api.rest')).toBe(false);
+            expect(TagPattern.matches('backend.**', 'backend')).toBe(true);
+            expect(TagPattern.matches('backend.**', 'backend.api.rest')).toBe(true);
+            expect(TagPattern.matches('**.postgres', 'postgres')).toBe(true);
+            expect(TagPattern.matches('a.**.d', 'a.b.c.d')).toBe(true);
+            expect(TagPattern.matches('**', 'a.b')).toBe(true);
+        });
+
+        it('matches globs within a segment', () => {
+            expect(TagPattern.matches('backend.data*', 'backend.database')).toBe(true);
+            expect(TagPattern.matches('*sql', 'mysql')).toBe(true);
+            expect(TagPattern.matches('*sql', 'db.mysql')).toBe(false);
+            expect(TagPattern.matches('ap?', 'api')).toBe(true);
+        });
+
+        it('matches alternatives and character classes', () => {
+            expect(TagPattern.matches('backend.{auth,database}', 'backend.auth')).toBe(true);
+            expect(TagPattern.matches('backend.{auth,database}', 'backend.api')).toBe(false);
+            expect(TagPattern.matches('{db,backend.database}.pool', 'backend.database.pool')).toBe(true);
+            expect(TagPattern.matches('[mp]*sql', 'postgresql')).toBe(true);
+            expect(TagPattern.matches('[!m]*sql', 'mysql')).toBe(false);
+            expect(TagPattern.matches('a[!b]c', 'a.c')).toBe(false);
+        });
+
+        it('reads other characters literally', () => {
+            expect(TagPattern.matches('c++.*', 'c++.templates')).toBe(true);
+            expect(TagPattern.matches('a.b*', 'axb')).toBe(false);
+        });
+
+        it('matches regular expressions anywhere in the tag, ignoring case', () => {
+            expect(TagPattern.matches('/^front.*react$/', 'frontend.react')).toBe(true);
+            expect(TagPattern.matches('/React/', 'frontend.react.hooks')).toBe(true);
+            expect(TagPattern.matches('/^front.*react$/', 'frontend.react.hooks')).toBe(false);
+        });
+    });
+
+    it('reports invalid regular expressions', () => {
+        expect(TagPattern.getProblem('/[/')).toContain('Invalid regular expression /[/');
+        expect(TagPattern.getProblem('/^front/')).toBeUndefined();
+        expect(TagPattern.getProblem('[unclosed')).toBeUndefined();
+        expect(TagPattern.toRegExp('/[/')).toBeUndefined();
+    });
+});
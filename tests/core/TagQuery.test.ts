@@ -0,0 +1,222 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { TagQueryParser, TagQueryEvaluator, TagQuerySyntaxError } from '../../src/core/TagQuery';
+import { TagSystem } from '../../src/core/TagSystem';
+
+describe('TagQueryParser', () => {
+    describe('parse', () => {
+        it('should return null for an empty expression', () => {
+            expect(TagQueryParser.parse('')).toBeNull();
+            expect(TagQueryParser.parse('   ')).toBeNull();
+        });
+
+        it('should parse a single tag pattern', () => {
+            expect(TagQueryParser.parse('backend.database')).toEqual({ type: 'tag', pattern: 'backend.database' });
+        });
+
+        it('should keep hyphens inside tag names', () => {
+            expect(TagQueryParser.parse('backend.connection-pool')).toEqual({
+                type: 'tag',
+                pattern: 'backend.connection-pool'
+            });
+        });
+
+        it('should keep operators inside braces, brackets and regular expressions', () => {
+            expect(TagQueryParser.parse('backend.{auth,database} & [!a]*')).toEqual({
+                type: 'and',
+                operands: [{ type: 'tag', pattern: 'backend.{auth,database}' }, { type: 'tag', pattern: '[!a]*' }]
+            });
+            expect(TagQueryParser.parse('-/^front.*(react|vue)$/')).toEqual({
+                type: 'not',
+                operand: { type: 'tag', pattern: '/^front.*(react|vue)$/' }
+            });
+        });
+
+        it('should parse AND with & and the AND keyword', () => {
+            const expected = {
+                type: 'and',
+                operands: [
+                    { type: 'tag', pattern: 'backend.database' },
+                    { type: 'tag', pattern: 'security' }
+                ]
+            };
+
+            expect(TagQueryParser.parse('backend.database & security')).toEqual(expected);
+            expect(TagQueryParser.parse('backend.database AND security')).toEqual(expected);
+            expect(TagQueryParser.parse('backend.database && security')).toEqual(expected);
+        });
+
+        it('should treat juxtaposition as AND', () => {
+            expect(TagQueryParser.parse('backend.* -backend.legacy')).toEqual({
+                type: 'and',
+                operands: [
+                    { type: 'tag', pattern: 'backend.*' },
+                    { type: 'not', operand: { type: 'tag', pattern: 'backend.legacy' } }
+                ]
+            });
+        });
+
+        it('should parse OR with |, OR and legacy separators', () => {
+            const expected = {
+                type: 'or',
+                operands: [
+                    { type: 'tag', pattern: 'backend' },
+                    { type: 'tag', pattern: 'frontend' }
+                ]
+            };
+
+            expect(TagQueryParser.parse('backend | frontend')).toEqual(expected);
+            expect(TagQueryParser.parse('backend OR frontend')).toEqual(expected);
+            expect(TagQueryParser.parse('backend,frontend')).toEqual(expected);
+            expect(TagQueryParser.parse('backend:frontend')).toEqual(expected);
+        });
+
+        it('should tolerate repeated and trailing legacy separators', () => {
+            expect(TagQueryParser.collectPatterns(TagQueryParser.parse(',a,,b:::c,'))).toEqual(['a', 'b', 'c']);
+        });
+
+        it('should give AND higher precedence than OR', () => {
+            expect(TagQueryParser.parse('a | b & c')).toEqual({
+                type: 'or',
+                operands: [
+                    { type: 'tag', pattern: 'a' },
+                    {
+                        type: 'and',
+                        operands: [
+                            { type: 'tag', pattern: 'b' },
+                            { type: 'tag', pattern: 'c' }
+                        ]
+                    }
+                ]
+            });
+        });
+
+        it('should support grouping with parentheses', () => {
+            expect(TagQueryParser.parse('(a | b) & !c')).toEqual({
+                type: 'and',
+                operands: [
+                    {
+                        type: 'or',
+                        operands: [
+                            { type: 'tag', pattern: 'a' },
+                            { type: 'tag', pattern: 'b' }
+                        ]
+                    },
+                    { type: 'not', operand: { type: 'tag', pattern: 'c' } }
+                ]
+            });
+        });
+
+        it('should parse NOT keyword', () => {
+            expect(TagQueryParser.parse('NOT legacy')).toEqual({
+                type: 'not',
+                operand: { type: 'tag', pattern: 'legacy' }
+            });
+        });
+    });
+
+    describe('syntax errors', () => {
+        const expectError = (expression: string, message: RegExp, position: number) => {
+            try {
+                TagQueryParser.parse(expression);
+                throw new Error('Expected a syntax error');
+            } catch (error) {
+                expect(error).toBeInstanceOf(TagQuerySyntaxError);
+                expect((error as TagQuerySyntaxError).message).toMatch(message);
+                expect((error as TagQuerySyntaxError).position).toBe(position);
+            }
+        };
+
+        it('should report a missing closing parenthesis', () => {
+            expectError('(a | b', /Missing closing '\)'/, 0);
+        });
+
+        it('should report an unexpected closing parenthesis', () => {
+            expectError('a | b)', /Unexpected '\)'/, 5);
+        });
+
+        it('should report an operator without a right operand', () => {
+            expectError('a &', /Expected a tag pattern after '&'/, 2);
+            expectError('a |', /Expected a tag pattern after '\|'/, 2);
+            expectError('a -', /Expected a tag pattern after '-'/, 2);
+        });
+
+        it('should report an operator without a left operand', () => {
+            expectError('& a', /Unexpected '&'/, 0);
+        });
+
+        it('should report empty groups', () => {
+            expectError('a & ()', /Empty group/, 4);
+        });
+
+        it('should report invalid regular expressions', () => {
+            expectError('a | /^front', /Missing closing '\/'/, 4);
+            expectError('a | /[/', /Invalid regular expression/, 4);
+        });
+    });
+
+    describe('getTrailingPattern', () => {
+        it('should return the pattern at the end of the expression', () => {
+            expect(TagQueryParser.getTrailingPattern('backend.* & -legacy')).toBe('legacy');
+            expect(TagQueryParser.getTrailingPattern('security & backend.{auth, db}')).toBe('backend.{auth, db}');
+            expect(TagQueryParser.getTrailingPattern('a | /^front.*(react|vue)$/')).toBe('/^front.*(react|vue)$/');
+        });
+
+        it('should return undefined when the expression does not end with a pattern', () => {
+            expect(TagQueryParser.getTrailingPattern('(a | b)')).toBeUndefined();
+            expect(TagQueryParser.getTrailingPattern('a & ')).toBeUndefined();
+            expect(TagQueryParser.getTrailingPattern('a | /^front')).toBeUndefined();
+        });
+    });
+
+    describe('format', () => {
+        it('should format a query as a normalized expression', () => {
+            const query = TagQueryParser.parse('(a OR b) AND NOT c, d')!;
+            expect(TagQueryParser.format(query)).toBe('(a | b) & -c | d');
+        });
+    });
+});
+
+describe('TagQueryEvaluator', () => {
+    let tagSystem: TagSystem;
+    let evaluator: TagQueryEvaluator;
+
+    const evaluate = (expression: string) => evaluator.evaluate(TagQueryParser.parse(expression)!).sort();
+
+    beforeEach(() => {
+        tagSystem = new TagSystem();
+        tagSystem.addTags('/db.md', ['backend.database', 'security']);
+        tagSystem.addTags('/legacy.md', ['backend.legacy']);
+        tagSystem.addTags('/api.md', ['backend.api', 'security']);
+        tagSystem.addTags('/ui.md', ['frontend.ui']);
+        evaluator = new TagQueryEvaluator(tagSystem);
+    });
+
+    it('should intersect AND operands', () => {
+        expect(evaluate('backend.database & security')).toEqual(['/db.md']);
+    });
+
+    it('should union OR operands', () => {
+        expect(evaluate('backend.database | frontend.ui')).toEqual(['/db.md', '/ui.md']);
+    });
+
+    it('should exclude NOT operands from wildcard matches', () => {
+        expect(evaluate('backend.* -backend.legacy')).toEqual(['/api.md', '/db.md']);
+    });
+
+    it('should evaluate a standalone NOT against all indexed files', () => {
+        expect(evaluate('-backend')).toEqual(['/ui.md']);
+    });
+
+    it('should evaluate grouped expressions', () => {
+        expect(evaluate('(backend.legacy | frontend.*) | security & -backend.api')).toEqual(['/db.md', '/legacy.md', '/ui.md']);
+    });
+
+    it('should evaluate glob and regular expression patterns', () => {
+        expect(evaluate('backend.{api,legacy}')).toEqual(['/api.md', '/legacy.md']);
+        expect(evaluate('/^back.*a/ & -backend.legacy')).toEqual(['/api.md', '/db.md']);
+    });
+
+    it('should return an empty array when nothing matches', () => {
+        expect(evaluate('security & frontend')).toEqual([]);
+    });
+});
@@ -0,0 +1,202 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import * as vscode from 'vscode';
+import { TagRenameCommands } from '../../src/core/TagRenameCommands';
+import { TagSystem } from '../../src/core/TagSystem';
+import { TagAliases } from '../../src/core/TagAliases';
+
+jest.mock('vscode');
+
+describe('TagRenameCommands', () => {
+    const rename = (oldTag: string, newTag: string) => (tag: string) => TagRenameCommands.getRenamedTag(tag, oldTag, newTag);
+
+    describe('getRenamedTag', () => {
+        it('renames the tag and the tags below it', () => {
+            expect(TagRenameCommands.getRenamedTag('backend.db', 'backend.db', 'backend.database')).toBe('backend.database');
+            expect(TagRenameCommands.getRenamedTag('backend.db.postgres', 'backend.db', 'backend.database')).toBe('backend.database.postgres');
+        });
+
+        it('leaves other tags alone', () => {
+            expect(TagRenameCommands.getRenamedTag('backend.dbx', 'backend.db', 'backend.database')).toBeUndefined();
+            expect(TagRenameCommands.getRenamedTag('backend', 'backend.db', 'backend.database')).toBeUndefined();
+        });
+    });
+
+    describe('getTagEdits', () => {
+        it('rewrites block list items keeping quotes and comments', () => {
+            const content = [
+                '---',
+                'title: Pooling',
+                'tags:',
+                '  - backend.db',
+                '  - "backend.db.postgres"  # main database',
+                "  - 'testing'",
+                '---',
+                'Content'
+            ].join('\n');
+
+            expect(TagRenameCommands.getTagEdits(content, rename('backend.db', 'backend.database'))).toEqual([
+                { line: 3, text: '  - backend.database' },
+                { line: 4, text: '  - "backend.database.postgres"  # main database' }
+            ]);
+        });
+
+        it('rewrites flow lists in place', () => {
+            const content = '---\ntitle: Pooling\ntags: [ backend.db, "testing",  \'backend.db.mysql\' ] # sorted\n---\nContent';
+
+            expect(TagRenameCommands.getTagEdits(content, rename('backend.db', 'backend.database'))).toEqual([
+                { line: 2, text: 'tags: [ backend.database, "testing",  \'backend.database.mysql\' ] # sorted' }
+            ]);
+        });
+
+        it('rewrites flow lists spanning several lines', () => {
+            const content = '---\ntitle: Pooling\ntags: [backend.db,\n  testing,\n  backend.db.mysql]\n---\nContent';
+
+            expect(TagRenameCommands.getTagEdits(content, rename('backend.db', 'backend.database'))).toEqual([
+                { line: 2, text: 'tags: [backend.database,' },
+                { line: 4, text: '  backend.database.mysql]' }
+            ]);
+
+            const merged = '---\ntitle: Pooling\ntags: [backend.database,\n  backend.db\n]\n---\n';
+            expect(TagRenameCommands.getTagEdits(merged, rename('backend.db', 'backend.database'))).toEqual([
+                { line: 2, text: 'tags: [backend.database]' },
+                { line: 3 },
+                { line: 4 }
+            ]);
+        });
+
+        it('removes tags that become duplicates when merging', () => {
+            const block = '---\ntitle: Pooling\ntags:\n  - backend.database\n  - backend.db\n  - testing\n---\n';
+            expect(TagRenameCommands.getTagEdits(block, rename('backend.db', 'backend.database'))).toEqual([{ line: 4 }]);
+
+            const flow = '---\ntitle: Pooling\ntags: [backend.db, backend.database, testing]\n---\n';
+            expect(TagRenameCommands.getTagEdits(flow, rename('backend.db', 'backend.database'))).toEqual([
+                { line: 2, text: 'tags: [backend.database, testing]' }
+            ]);
+        });
+
+        it('quotes new names that YAML would not read as strings', () => {
+            const content = '---\ntitle: Versions\ntags:\n  - release\n---\n';
+            expect(TagRenameCommands.getTagEdits(content, rename('release', '2024'))).toEqual([{ line: 3, text: '  - "2024"' }]);
+        });
+
+        it('returns no edits when the file does not use the tag', () => {
+            const content = '---\ntitle: Pooling\ntags:\n  - frontend\n---\n';
+            expect(TagRenameCommands.getTagEdits(content, rename('backend.db', 'backend.database'))).toEqual([]);
+        });
+    });
+
+    describe('validateTag', () => {
+        it('accepts a different tag', () => {
+            expect(TagRenameCommands.validateTag(' backend.database ', 'backend.db')).toBeUndefined();
+        });
+
+        it('rejects empty, malformed and unchanged names', () => {
+            expect(TagRenameCommands.validateTag('  ', 'backend.db')).toBe('The tag must not be empty');
+            expect(TagRenameCommands.validateTag('backend.*', 'backend.db')).toContain('wildcards');
+            expect(TagRenameCommands.validateTag('backend..db', 'backend.db')).toBe('Tags can\'t contain empty segments');
+            expect(TagRenameCommands.validateTag('backend.db', 'backend.db')).toBe('Enter a different name');
+        });
+
+        it('rejects names that tag queries would read as patterns or operators', () => {
+            for (const name of ['backend.ap?', 'backend.{auth,db}', 'a|b', 'a&b', '!legacy', '-legacy', 'c(old)', 'a/b', 'a:b']) {
+                expect(TagRenameCommands.validateTag(name, 'backend.db')).toContain('query operators');
+            }
+            expect(TagRenameCommands.validateTag('front-end.c++', 'backend.db')).toBeUndefined();
+        });
+    });
+
+    describe('commands', () => {
+        let tagSystem: TagSystem;
+        let commands: TagRenameCommands;
+        const files: Record<string, string> = {
+            '/ws/Memory/pool.md': '---\ntitle: Pooling\ntags:\n  - backend.db.postgres\n  - performance\n---\nContent',
+            '/ws/Memory/schema.md': '---\ntitle: Schema\ntags: [db, backend.database]\n---\nContent',
+            '/ws/Memory/ui.md': '---\ntitle: UI\ntags: [frontend]\n---\nContent'
+        };
+        const save = jest.fn(async () => true);
+        let dirtyFiles: string[] = [];
+
+        beforeEach(() => {
+            jest.clearAllMocks();
+            dirtyFiles = [];
+            tagSystem = new TagSystem();
+            tagSystem.setAliases(TagAliases.parse('db: backend.db'));
+            tagSystem.addTags('/ws/Memory/pool.md', ['backend.db.postgres', 'performance']);
+            tagSystem.addTags('/ws/Memory/schema.md', ['db', 'backend.database']);
+            tagSystem.addTags('/ws/Memory/ui.md', ['frontend']);
+            commands = new TagRenameCommands(tagSystem);
+
+            (vscode.workspace.openTextDocument as jest.Mock).mockImplementation(async (uri: any) => {
+                const lines = files[uri.fsPath].split('\n');
+                return {
+                    uri,
+                    save,
+                    isDirty: dirtyFiles.includes(uri.fsPath),
+                    getText: () => files[uri.fsPath],
+                    lineAt: (line: number) => ({
+                        range: new vscode.Range(line, 0, line, lines[line].length),
+                        rangeIncludingLineBreak: new vscode.Range(line, 0, line + 1, 0)
+                    })
+                };
+            });
+        });
+
+        it('previews the rename of a tag, its descendants and its aliases as a refactoring', async () => {
+            const edit = await commands.createEdit('backend.db', 'backend.database') as any;
+
+            expect(edit.edits.map((change: any) => [change.uri.fsPath, change.range.start.line, change.newText])).toEqual([
+                ['/ws/Memory/pool.md', 3, '  - backend.database.postgres'],
+                ['/ws/Memory/schema.md', 2, 'tags: [backend.database]']
+            ]);
+            expect(edit.edits[0].metadata).toEqual({ label: 'Rename tag "backend.db" to "backend.database"', needsConfirmation: true });
+        });
+
+        it('applies and saves the edit after the preview is confirmed', async () => {
+            (vscode.window.showInputBox as jest.Mock).mockResolvedValueOnce('backend.database' as never);
+
+            expect(await commands.renameTag('backend.db')).toBe(true);
+
+            expect(vscode.workspace.applyEdit).toHaveBeenCalledWith(expect.anything(), { isRefactoring: true });
+            expect(save).toHaveBeenCalledTimes(2);
+        });
+
+        it('leaves memories with unsaved changes for the user to save', async () => {
+            dirtyFiles = ['/ws/Memory/pool.md'];
+            (vscode.window.showInputBox as jest.Mock).mockResolvedValueOnce('backend.database' as never);
+
+            expect(await commands.renameTag('backend.db')).toBe(true);
+            expect(save).toHaveBeenCalledTimes(1);
+        });
+
+        it('does not save anything when the preview is discarded', async () => {
+            (vscode.window.showInputBox as jest.Mock).mockResolvedValueOnce('backend.database' as never);
+            (vscode.workspace.applyEdit as jest.Mock).mockResolvedValueOnce(false as never);
+
+            expect(await commands.renameTag('backend.db')).toBe(false);
+            expect(save).not.toHaveBeenCalled();
+        });
+
+        it('merges a picked tag into another existing tag', async () => {
+            (vscode.window.showQuickPick as jest.Mock)
+                .mockImplementationOnce(async (items: any) => items.find((item: any) => item.label === 'frontend'))
+                .mockImplementationOnce(async (items: any) => {
+                    expect(items.map((item: any) => item.label)).not.toContain('frontend');
+                    return items.find((item: any) => item.label === 'performance');
+                });
+
+            expect(await commands.mergeTags()).toBe(true);
+
+            const edit = (vscode.workspace.applyEdit as jest.Mock).mock.calls[0][0] as any;
+            expect(edit.edits.map((change: any) => [change.uri.fsPath, change.newText])).toEqual([
+                ['/ws/Memory/ui.md', 'tags: [performance]']
+            ]);
+        });
+
+        it('stops when the user cancels', async () => {
+            (vscode.window.showInputBox as jest.Mock).mockResolvedValueOnce(undefined as never);
+
+            expect(await commands.renameTag('backend.db')).toBe(false);
+            expect(vscode.workspace.applyEdit).not.toHaveBeenCalled();
+        });
+    });
+});
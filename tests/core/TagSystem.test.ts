@@ -1,5 +1,6 @@
-import { describe, it, expect, beforeEach } from '@jest/globals';
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
 import { TagSystem } from '../../src/core/TagSystem';
+import { TagAliases } from '../../src/core/TagAliases';
 
 describe('TagSystem', () => {
     let tagSystem: TagSystem;
@@ -145,6 +146,34 @@ describe('TagSystem', () => {
             expect(files).toContain('/file2.md');
             expect(files).toContain('/file3.md');
         });
+
+        it('should match segment globs', () => {
+            expect(tagSystem.queryByWildcard('backend.data*').sort()).toEqual(['/file1.md', '/file2.md']);
+            expect(tagSystem.queryByWildcard('backend.*.*sql')).toEqual(['/file2.md']);
+            expect(tagSystem.queryByWildcard('**.re?t')).toEqual(['/file3.md']);
+        });
+
+        it('should match alternatives and character classes', () => {
+            expect(tagSystem.queryByWildcard('backend.{api, database.mysql}').sort()).toEqual(['/file2.md', '/file3.md']);
+            expect(tagSystem.queryByWildcard('backend.database.[m]*')).toEqual(['/file2.md']);
+            expect(tagSystem.queryByWildcard('backend.database.[!m]*')).toEqual(['/file1.md']);
+        });
+
+        it('should match regular expressions against whole tags', () => {
+            expect(tagSystem.queryByWildcard('/^front.*react$/')).toEqual(['/file4.md']);
+            expect(tagSystem.queryByWildcard('/(postgres|mysql)$/').sort()).toEqual(['/file1.md', '/file2.md']);
+            expect(tagSystem.queryByWildcard('/[/')).toEqual([]);
+        });
+
+        it('should look up plain tags and patterns with query', () => {
+            expect(tagSystem.query('backend.database').sort()).toEqual(['/file1.md', '/file2.md']);
+            expect(tagSystem.query('backend.{api,database}.*sql')).toEqual(['/file2.md']);
+        });
+
+        it('should list the tags matching a pattern', () => {
+            expect(tagSystem.getMatchingTags('backend.data*')).toEqual(['backend.database']);
+            expect(tagSystem.getMatchingTags('Backend.*.{Rest,MySQL}').sort()).toEqual(['backend.api.rest', 'backend.database.mysql']);
+        });
     });
 
     describe('getAllTags', () => {
@@ -167,6 +196,25 @@ describe('TagSystem', () => {
         });
     });
 
+    describe('getChildTags', () => {
+        it('should return the tags one level below a tag', () => {
+            tagSystem.addTags('/file1.md', ['backend.database.postgres', 'backend.api']);
+            tagSystem.addTags('/file2.md', ['frontend']);
+
+            expect(tagSystem.getChildTags('')).toEqual(['backend', 'frontend']);
+            expect(tagSystem.getChildTags('backend')).toEqual(['backend.database', 'backend.api']);
+            expect(tagSystem.getChildTags('frontend')).toEqual([]);
+            expect(tagSystem.getChildTags('missing.tag')).toEqual([]);
+        });
+
+        it('should leave out tags whose files were removed', () => {
+            tagSystem.addTags('/file1.md', ['backend.api', 'backend.database']);
+            tagSystem.removeTags('/file1.md', ['backend.database']);
+
+            expect(tagSystem.getChildTags('backend')).toEqual(['backend.api']);
+        });
+    });
+
     describe('getTagsForFile', () => {
         it('should return all tags for a specific file', () => {
             tagSystem.addTags('/file1.md', ['backend.database.postgres', 'performance']);
@@ -212,4 +260,110 @@ describe('TagSystem', () => {
             expect(tagSystem.size()).toBeGreaterThan(sizeAfterDuplicate);
         });
     });
+
+    describe('tag events', () => {
+        it('should announce tags that appear and disappear', () => {
+            const added = jest.fn();
+            const removed = jest.fn();
+            tagSystem.onDidAddTags(added);
+            tagSystem.onDidRemoveTags(removed);
+
+            tagSystem.addTags('/file1.md', ['backend.api']);
+            tagSystem.addTags('/file2.md', ['backend.api', 'testing']);
+            tagSystem.removeTags('/file1.md', ['backend.api']);
+            tagSystem.removeTags('/file2.md', ['backend.api']);
+
+            expect(added.mock.calls).toEqual([[['backend', 'backend.api']], [['testing']]]);
+            expect(removed.mock.calls).toEqual([[['backend', 'backend.api']]]);
+        });
+
+        it('should cancel out opposite changes within a batch', () => {
+            tagSystem.addTags('/file1.md', ['backend.api']);
+            const added = jest.fn();
+            const removed = jest.fn();
+            tagSystem.onDidAddTags(added);
+            tagSystem.onDidRemoveTags(removed);
+
+            tagSystem.beginBatch();
+            tagSystem.removeTags('/file1.md', ['backend.api']);
+            tagSystem.addTags('/file1.md', ['backend.api', 'backend.database']);
+            tagSystem.endBatch();
+
+            expect(removed).not.toHaveBeenCalled();
+            expect(added.mock.calls).toEqual([[['backend.database']]]);
+        });
+
+        it('should announce all tags as removed when cleared', () => {
+            tagSystem.addTags('/file1.md', ['backend.api']);
+            const removed = jest.fn();
+            tagSystem.onDidRemoveTags(removed);
+
+            tagSystem.clear();
+
+            expect(removed.mock.calls).toEqual([[['backend', 'backend.api']]]);
+        });
+    });
+
+    describe('aliases', () => {
+        beforeEach(() => {
+            tagSystem.setAliases(TagAliases.parse('db: backend.database\npg: backend.database.postgres'));
+        });
+
+        it('should index aliased tags under their canonical tag', () => {
+            tagSystem.addTags('/file1.md', ['db.postgres']);
+            tagSystem.addTags('/file2.md', ['pg']);
+
+            expect(tagSystem.getAllTags()).toEqual(['backend', 'backend.database', 'backend.database.postgres']);
+            expect(tagSystem.queryByTag('backend.database.postgres').sort()).toEqual(['/file1.md', '/file2.md']);
+        });
+
+        it('should resolve aliases in queries', () => {
+            tagSystem.addTags('/file1.md', ['backend.database.postgres']);
+            tagSystem.addTags('/file2.md', ['backend.database.mysql']);
+
+            expect(tagSystem.queryByTag('pg')).toEqual(['/file1.md']);
+            expect(tagSystem.queryByWildcard('db.*').sort()).toEqual(['/file1.md', '/file2.md']);
+        });
+
+        it('should remove aliased tags', () => {
+            tagSystem.addTags('/file1.md', ['pg']);
+            tagSystem.removeTags('/file1.md', ['pg']);
+
+            expect(tagSystem.size()).toBe(0);
+        });
+    });
+
+    describe('normalization', () => {
+        it('should match tags regardless of case, whitespace and Unicode form', () => {
+            tagSystem.addTags('/file1.md', ['Backend. Database']);
+            tagSystem.addTags('/file2.md', ['caf\u0065\u0301']);
+
+            expect(tagSystem.getAllTags()).toEqual(['backend', 'backend.database', 'caf\u00e9']);
+            expect(tagSystem.queryByTag('BACKEND.database')).toEqual(['/file1.md']);
+            expect(tagSystem.queryByWildcard(' Backend .*')).toEqual(['/file1.md']);
+            expect(tagSystem.queryByTag('Caf\u00e9')).toEqual(['/file2.md']);
+        });
+
+        it('should keep the first spelling of a tag for display', () => {
+            tagSystem.addTags('/file1.md', ['Backend.API']);
+            tagSystem.addTags('/file2.md', ['backend.api.REST']);
+
+            expect(tagSystem.getDisplayName('backend.api.rest')).toBe('Backend.API.REST');
+            expect(tagSystem.getDisplayName('unknown')).toBe('unknown');
+        });
+
+        it('should ignore tags with empty segments', () => {
+            tagSystem.addTags('/file1.md', ['backend..database', '.frontend', '  ', 'testing']);
+
+            expect(tagSystem.getAllTags()).toEqual(['testing']);
+            expect(tagSystem.queryByTag('backend..database')).toEqual([]);
+        });
+
+        it('should remove tags written differently than they were added', () => {
+            tagSystem.addTags('/file1.md', ['Backend.Database']);
+            tagSystem.removeTags('/file1.md', ['backend.database ']);
+
+            expect(tagSystem.size()).toBe(0);
+        });
+    });
 });
@@ -0,0 +1,80 @@
+import { describe, it, expect } from '@jest/globals';
+import { TagVocabulary, TagVocabularyError } from '../../src/core/TagVocabulary';
+
+describe('TagVocabulary', () => {
+    const vocabulary = TagVocabulary.parse(`
+backend.database: Databases, queries and migrations
+backend.api: HTTP API conventions
+testing:
+`);
+
+    describe('parse', () => {
+        it('reads tags with optional descriptions', () => {
+            expect(vocabulary.getTags()).toEqual(['backend.database', 'backend.api', 'testing']);
+            expect(vocabulary.getDescription('backend.api')).toBe('HTTP API conventions');
+            expect(vocabulary.getDescription('testing')).toBeUndefined();
+        });
+
+        it('reads a plain list of tags', () => {
+            expect(TagVocabulary.parse('- backend.database\n- testing').getTags()).toEqual(['backend.database', 'testing']);
+        });
+
+        it('treats an empty file as no vocabulary', () => {
+            expect(TagVocabulary.parse('').isEmpty()).toBe(true);
+        });
+
+        it('rejects invalid files', () => {
+            expect(() => TagVocabulary.parse('just text')).toThrow(TagVocabularyError);
+            expect(() => TagVocabulary.parse('backend.*: Everything')).toThrow('"backend.*" is not a tag');
+            expect(() => TagVocabulary.parse('- backend\n- 42')).toThrow('"42" is not a tag');
+            expect(() => TagVocabulary.parse('"backend.{auth,db}": Auth')).toThrow('"backend.{auth,db}" is not a tag');
+            expect(() => TagVocabulary.parse('- a|b')).toThrow('"a|b" is not a tag');
+            expect(() => TagVocabulary.parse('- "-legacy"')).toThrow('"-legacy" is not a tag');
+            expect(() => TagVocabulary.parse('backend: [a, b]')).toThrow('The description of "backend" must be text');
+            expect(() => TagVocabulary.parse('backend: [')).toThrow('Invalid YAML');
+        });
+    });
+
+    describe('isAllowed', () => {
+        it('allows the listed tags and their parents', () => {
+            expect(vocabulary.isAllowed('backend.database')).toBe(true);
+            expect(vocabulary.isAllowed('backend')).toBe(true);
+            expect(vocabulary.isAllowed('testing')).toBe(true);
+        });
+
+        it('normalizes the listed and checked tags', () => {
+            expect(vocabulary.isAllowed('Backend. Database')).toBe(true);
+            expect(TagVocabulary.parse('- Frontend.React').getTags()).toEqual(['frontend.react']);
+        });
+
+        it('rejects other tags, including tags below listed ones', () => {
+            expect(vocabulary.isAllowed('backend.db')).toBe(false);
+            expect(vocabulary.isAllowed('backend.database.postgres')).toBe(false);
+        });
+
+        it('allows every tag when the vocabulary is empty', () => {
+            expect(TagVocabulary.EMPTY.isAllowed('anything')).toBe(true);
+        });
+    });
+
+    describe('suggest', () => {
+        it('suggests the closest allowed tag', () => {
+            expect(vocabulary.suggest('backend.db')).toBe('backend.database');
+            expect(vocabulary.suggest('backend.databse')).toBe('backend.database');
+            expect(vocabulary.suggest('backend.databases')).toBe('backend.database');
+            expect(vocabulary.suggest('Testing')).toBe('testing');
+        });
+
+        it('suggests nothing when no allowed tag is similar', () => {
+            expect(vocabulary.suggest('xyz')).toBeUndefined();
+        });
+    });
+
+    it('merges the vocabularies of several folders', () => {
+        const merged = TagVocabulary.merge([vocabulary, TagVocabulary.parse('testing: Unit and integration tests\nfrontend: UI')]);
+
+        expect(merged.isAllowed('frontend')).toBe(true);
+        expect(merged.getDescription('testing')).toBe('Unit and integration tests');
+        expect(merged.getDescription('backend.api')).toBe('HTTP API conventions');
+    });
+});
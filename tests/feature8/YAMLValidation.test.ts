@@ -12,6 +12,7 @@ import { DiagnosticReporter } from '../../src/core/DiagnosticReporter';
 import { MemorySynchronizationService } from '../../src/core/MemorySynchronizationService';
 import { MemoryIndex } from '../../src/core/MemoryIndex';
 import { TagSystem } from '../../src/core/TagSystem';
+import { TagAliases } from '../../src/core/TagAliases';
 import { FrontmatterValidationError, FrontmatterParseError } from '../../src/core/MemoryFileParser';
 
 describe('Feature 8, Story 2: YAML Frontmatter Validation', () => {
@@ -272,6 +273,31 @@ describe('Feature 8, Story 2: YAML Frontmatter Validation', () => {
                 expect(diagnostics[0].message).toContain('YAML');
             });
 
+            it('should place diagnostics on the line of the problem', async () => {
+                const mockUri = vscode.Uri.file('/test/bad-tag.md');
+                (vscode.workspace.fs.readFile as jest.Mock).mockResolvedValue(
+                    Buffer.from('---\ntitle: Test\ndescription: Long\ntags:\n  - valid\n  - 42\n---\nContent')
+                );
+
+                await syncService.handleFileCreateOrChange(mockUri);
+
+                const diagnostics = diagnosticReporter.getDiagnosticsForFile('/test/bad-tag.md');
+                expect(diagnostics[0].range.start.line).toBe(5);
+            });
+
+            it('should place YAML parse errors at the reported line and column', async () => {
+                const mockUri = vscode.Uri.file('/test/bad-indent.md');
+                (vscode.workspace.fs.readFile as jest.Mock).mockResolvedValue(
+                    Buffer.from('---\ntitle: Test\ntags:\n  - a\n - b: [\n---\nContent')
+                );
+
+                await syncService.handleFileCreateOrChange(mockUri);
+
+                const diagnostics = diagnosticReporter.getDiagnosticsForFile('/test/bad-indent.md');
+                expect(diagnostics[0].range.start.line).toBe(4);
+                expect(diagnostics[0].range.start.character).toBe(1);
+            });
+
             it('should include clear description of what is wrong', async () => {
                 const mockUri = vscode.Uri.file('/test/empty-tags.md');
                 (vscode.workspace.fs.readFile as jest.Mock).mockResolvedValue(
@@ -323,6 +349,194 @@ describe('Feature 8, Story 2: YAML Frontmatter Validation', () => {
             });
         });
 
+        describe('Warnings for invalid optional fields', () => {
+            it('should index the file and report an invalid priority as a warning', async () => {
+                const mockUri = vscode.Uri.file('/test/priority.md');
+                (vscode.workspace.fs.readFile as jest.Mock).mockResolvedValue(
+                    Buffer.from('---\ntitle: Test\ntags: [test]\npriority: urgent\n---\nContent')
+                );
+
+                await syncService.handleFileCreateOrChange(mockUri);
+
+                expect(memoryIndex.has('/test/priority.md')).toBe(true);
+                const diagnostics = diagnosticReporter.getDiagnosticsForFile('/test/priority.md');
+                expect(diagnostics).toHaveLength(1);
+                expect(diagnostics[0].severity).toBe(vscode.DiagnosticSeverity.Warning);
+                expect(diagnostics[0].message).toContain('Field "priority"');
+            });
+
+            it('should clear the warning when the priority is fixed', async () => {
+                const mockUri = vscode.Uri.file('/test/priority.md');
+                (vscode.workspace.fs.readFile as jest.Mock).mockResolvedValue(
+                    Buffer.from('---\ntitle: Test\ntags: [test]\npriority: 42\n---\nContent')
+                );
+                await syncService.handleFileCreateOrChange(mockUri);
+                expect(diagnosticReporter.getDiagnosticsForFile('/test/priority.md')).toHaveLength(1);
+
+                (vscode.workspace.fs.readFile as jest.Mock).mockResolvedValue(
+                    Buffer.from('---\ntitle: Test\ntags: [test]\npriority: high\n---\nContent')
+                );
+                await syncService.handleFileCreateOrChange(mockUri);
+                expect(diagnosticReporter.getDiagnosticsForFile('/test/priority.md')).toHaveLength(0);
+            });
+        });
+
+        describe('Deprecated tag aliases', () => {
+            it('should warn on the line of a tag that uses a deprecated alias', async () => {
+                tagSystem.setAliases(TagAliases.parse('db: backend.database\npg:\n  tag: backend.database.postgres\n  deprecated: true'));
+                const mockUri = vscode.Uri.file('/test/aliases.md');
+                (vscode.workspace.fs.readFile as jest.Mock).mockResolvedValue(
+                    Buffer.from('---\ntitle: Test\ntags:\n  - db\n  - pg.replication\n---\nContent')
+                );
+
+                await syncService.handleFileCreateOrChange(mockUri);
+
+                const diagnostics = diagnosticReporter.getDiagnosticsForFile('/test/aliases.md');
+                expect(diagnostics).toHaveLength(1);
+                expect(diagnostics[0].severity).toBe(vscode.DiagnosticSeverity.Warning);
+                expect(diagnostics[0].range.start.line).toBe(4);
+                expect(diagnostics[0].message).toBe(
+                    'Tag "pg.replication" uses the deprecated alias "pg", use "backend.database.postgres.replication" instead');
+            });
+        });
+
+                describe('Tag vocabulary', () => {
+            const loadTagVocabulary = async (text: string) => {
+                (vscode.workspace.fs.readFile as jest.Mock).mockResolvedValueOnce(Buffer.from(text));
+                await syncService.loadTagVocabulary('/ws', vscode.Uri.file('/ws/Memory/.tags.yaml'));
+            };
+
+            beforeEach(() => {
+                (vscode.workspace.getWorkspaceFolder as jest.Mock).mockReturnValue({ name: 'ws', uri: vscode.Uri.file('/ws'), index: 0 });
+            });
+
+            afterEach(() => {
+                (vscode.workspace.getWorkspaceFolder as jest.Mock).mockReset();
+            });
+
+            it('should warn about unknown tags and suggest the closest allowed tag', async () => {
+                await loadTagVocabulary('backend.database: Databases\ntesting: Tests');
+                (vscode.workspace.fs.readFile as jest.Mock).mockResolvedValue(
+                    Buffer.from('---\ntitle: Test\ntags:\n  - backend\n  - backend.db\n  - kubernetes\n---\nContent')
+                );
+
+                await syncService.handleFileCreateOrChange(vscode.Uri.file('/ws/Memory/notes.md'));
+
+                expect(memoryIndex.has('/ws/Memory/notes.md')).toBe(true);
+                const diagnostics = diagnosticReporter.getDiagnosticsForFile('/ws/Memory/notes.md');
+                expect(diagnostics.map(diagnostic => [diagnostic.range.start.line, diagnostic.message])).toEqual([
+                    [4, 'Tag "backend.db" is not in the tag vocabulary, did you mean "backend.database"?'],
+                    [5, 'Tag "kubernetes" is not in the tag vocabulary']
+                ]);
+                expect(diagnostics.every(diagnostic => diagnostic.severity === vscode.DiagnosticSeverity.Warning)).toBe(true);
+            });
+
+            it('should accept aliases of allowed tags', async () => {
+                tagSystem.setAliases(TagAliases.parse('db: backend.database'));
+                await loadTagVocabulary('- backend.database');
+                (vscode.workspace.fs.readFile as jest.Mock).mockResolvedValue(
+                    Buffer.from('---\ntitle: Test\ntags: [db]\n---\nContent')
+                );
+
+                await syncService.handleFileCreateOrChange(vscode.Uri.file('/ws/Memory/notes.md'));
+
+                expect(diagnosticReporter.getDiagnosticsForFile('/ws/Memory/notes.md')).toHaveLength(0);
+            });
+
+            it('should report an invalid vocabulary file and ignore it', async () => {
+                await loadTagVocabulary('backend.*: Everything');
+
+                const fileDiagnostics = diagnosticReporter.getDiagnosticsForFile('/ws/Memory/.tags.yaml');
+                expect(fileDiagnostics).toHaveLength(1);
+                expect(fileDiagnostics[0].message).toContain('Invalid tag vocabulary');
+                expect(syncService.getTagVocabulary().isEmpty()).toBe(true);
+            });
+        });
+
+                describe('Schema violations', () => {
+            const schemaUri = vscode.Uri.file('/ws/Memory/.memory-schema.json');
+            const schema = JSON.stringify({
+                required: ['owner'],
+                properties: {
+                    status: { enum: ['draft', 'final'] },
+                    reviewed: { type: 'string', format: 'date' }
+                }
+            });
+
+            const loadSchema = async (text: string) => {
+                (vscode.workspace.fs.readFile as jest.Mock).mockResolvedValueOnce(Buffer.from(text));
+                await syncService.loadSchema('/ws', schemaUri);
+            };
+
+            beforeEach(() => {
+                (vscode.workspace.getWorkspaceFolder as jest.Mock).mockReturnValue({ name: 'ws', uri: vscode.Uri.file('/ws'), index: 0 });
+            });
+
+            afterEach(() => {
+                (vscode.workspace.getWorkspaceFolder as jest.Mock).mockReset();
+            });
+
+            it('should report each violation as an error on the line of the field', async () => {
+                await loadSchema(schema);
+                const mockUri = vscode.Uri.file('/ws/Memory/notes.md');
+                (vscode.workspace.fs.readFile as jest.Mock).mockResolvedValue(
+                    Buffer.from('---\ntitle: Test\ntags: [test]\nstatus: wip\nreviewed: someday\n---\nContent')
+                );
+
+                await syncService.handleFileCreateOrChange(mockUri);
+
+                expect(memoryIndex.has('/ws/Memory/notes.md')).toBe(true);
+                const diagnostics = diagnosticReporter.getDiagnosticsForFile('/ws/Memory/notes.md');
+                expect(diagnostics.map(diagnostic => [diagnostic.range.start.line, diagnostic.message])).toEqual([
+                    [0, 'Missing required field: owner'],
+                    [3, 'Field "status" must be one of "draft", "final"'],
+                    [4, 'Field "reviewed" must be a valid date']
+                ]);
+                expect(diagnostics.every(diagnostic => diagnostic.severity === vscode.DiagnosticSeverity.Error)).toBe(true);
+            });
+
+            it('should not validate files outside the folder the schema belongs to', async () => {
+                await loadSchema(schema);
+                (vscode.workspace.getWorkspaceFolder as jest.Mock).mockReturnValue({ name: 'other', uri: vscode.Uri.file('/other'), index: 1 });
+                (vscode.workspace.fs.readFile as jest.Mock).mockResolvedValue(
+                    Buffer.from('---\ntitle: Test\ntags: [test]\n---\nContent')
+                );
+
+                await syncService.handleFileCreateOrChange(vscode.Uri.file('/other/Memory/notes.md'));
+
+                expect(diagnosticReporter.getDiagnosticsForFile('/other/Memory/notes.md')).toHaveLength(0);
+            });
+
+            it('should revalidate indexed files when the schema changes', async () => {
+                (vscode.workspace.fs.readFile as jest.Mock).mockResolvedValue(
+                    Buffer.from('---\ntitle: Test\ntags: [test]\n---\nContent')
+                );
+                await syncService.handleFileCreateOrChange(vscode.Uri.file('/ws/Memory/notes.md'));
+                expect(diagnosticReporter.getDiagnosticsForFile('/ws/Memory/notes.md')).toHaveLength(0);
+
+                await loadSchema(schema);
+                await syncService.revalidateAll();
+
+                const diagnostics = diagnosticReporter.getDiagnosticsForFile('/ws/Memory/notes.md');
+                expect(diagnostics).toHaveLength(1);
+                expect(diagnostics[0].message).toBe('Missing required field: owner');
+            });
+
+            it('should report an invalid schema file and ignore it', async () => {
+                await loadSchema('{ "required": ');
+
+                const schemaDiagnostics = diagnosticReporter.getDiagnosticsForFile(schemaUri.fsPath);
+                expect(schemaDiagnostics).toHaveLength(1);
+                expect(schemaDiagnostics[0].message).toContain('Invalid memory schema');
+
+                (vscode.workspace.fs.readFile as jest.Mock).mockResolvedValue(
+                    Buffer.from('---\ntitle: Test\ntags: [test]\n---\nContent')
+                );
+                await syncService.handleFileCreateOrChange(vscode.Uri.file('/ws/Memory/notes.md'));
+                expect(diagnosticReporter.getDiagnosticsForFile('/ws/Memory/notes.md')).toHaveLength(0);
+            });
+        });
+
         describe('File deletion clears diagnostics', () => {
             it('should clear diagnostics when file is deleted', async () => {
                 // First: create invalid file
@@ -406,4 +406,130 @@ Updated.`;
             expect(tagSystem.queryByTag('new-tag')).toContain(file2.fsPath);
         });
     });
+
+    describe('Configurable Memory Locations', () => {
+        it('should re-watch without registering duplicate handlers when started again', async () => {
+            (vscode.workspace.fs.readFile as jest.Mock).mockResolvedValue(
+                // @ts-ignore - Mock return type
+                Buffer.from(validFileContent, 'utf8')
+            );
+
+            memoryManager.start('docs/ai-memory/**/*.md');
+            const newWatcher = (vscode.workspace.createFileSystemWatcher as jest.Mock).mock.results[1].value as any;
+            expect(mockWatcher.dispose).toHaveBeenCalled();
+
+            newWatcher._triggerCreate(vscode.Uri.file('/docs/ai-memory/test.md'));
+            await new Promise(resolve => setTimeout(resolve, 10));
+
+            expect(vscode.workspace.fs.readFile).toHaveBeenCalledTimes(1);
+            expect(memoryManager.getMemoryIndex().has('/docs/ai-memory/test.md')).toBe(true);
+        });
+
+        it('should ignore create and change events for files rejected by the filter', async () => {
+            memoryManager.start('**/*.md', uri => !uri.fsPath.includes('/drafts/'));
+            const newWatcher = (vscode.workspace.createFileSystemWatcher as jest.Mock).mock.results[1].value as any;
+
+            newWatcher._triggerCreate(vscode.Uri.file('/Memory/drafts/test.md'));
+            newWatcher._triggerChange(vscode.Uri.file('/Memory/drafts/test.md'));
+            await new Promise(resolve => setTimeout(resolve, 10));
+
+            expect(vscode.workspace.fs.readFile).not.toHaveBeenCalled();
+        });
+
+        it('should clear the index before re-synchronizing on rebuild', async () => {
+            (vscode.workspace.fs.readFile as jest.Mock).mockResolvedValue(
+                // @ts-ignore - Mock return type
+                Buffer.from(validFileContent, 'utf8')
+            );
+
+            await memoryManager.initialSync([vscode.Uri.file('/Memory/old.md')]);
+            await memoryManager.rebuild([vscode.Uri.file('/docs/ai-memory/new.md')]);
+
+            const memoryIndex = memoryManager.getMemoryIndex();
+            expect(memoryIndex.getFilePaths()).toEqual(['/docs/ai-memory/new.md']);
+            expect(memoryManager.getTagSystem().queryByTag('testing')).toEqual(['/docs/ai-memory/new.md']);
+        });
+
+        it('should rebuild after the file event in progress instead of beside it', async () => {
+            let finishRead: (content: Buffer) => void = () => undefined;
+            (vscode.workspace.fs.readFile as jest.Mock)
+                .mockImplementationOnce(() => new Promise(resolve => { finishRead = resolve; }))
+                // @ts-ignore - Mock return type
+                .mockResolvedValue(Buffer.from(validFileContent, 'utf8'));
+            memoryManager.start('**/*.md');
+            const newWatcher = (vscode.workspace.createFileSystemWatcher as jest.Mock).mock.results[1].value as any;
+
+            newWatcher._triggerCreate(vscode.Uri.file('/Memory/stale.md'));
+            await new Promise(resolve => setTimeout(resolve, 10));
+            const rebuilt = memoryManager.rebuild([vscode.Uri.file('/docs/ai-memory/new.md')]);
+            finishRead(Buffer.from(validFileContent, 'utf8'));
+            await rebuilt;
+
+            expect(memoryManager.getMemoryIndex().getFilePaths()).toEqual(['/docs/ai-memory/new.md']);
+        });
+
+        it('should settle a queued rebuild once the rebuild superseding it ran', async () => {
+            let finishRead: (content: Buffer) => void = () => undefined;
+            (vscode.workspace.fs.readFile as jest.Mock)
+                .mockImplementationOnce(() => new Promise(resolve => { finishRead = resolve; }))
+                // @ts-ignore - Mock return type
+                .mockResolvedValue(Buffer.from(validFileContent, 'utf8'));
+            memoryManager.start('**/*.md');
+            const newWatcher = (vscode.workspace.createFileSystemWatcher as jest.Mock).mock.results[1].value as any;
+
+            newWatcher._triggerCreate(vscode.Uri.file('/Memory/stale.md'));
+            await new Promise(resolve => setTimeout(resolve, 10));
+            const first = memoryManager.rebuild([vscode.Uri.file('/docs/ai-memory/old.md')]);
+            const second = memoryManager.rebuild([vscode.Uri.file('/docs/ai-memory/new.md')]);
+            finishRead(Buffer.from(validFileContent, 'utf8'));
+            await Promise.all([first, second]);
+
+            expect(memoryManager.getMemoryIndex().getFilePaths()).toEqual(['/docs/ai-memory/new.md']);
+        });
+    });
+
+    describe('Multi-root Workspaces', () => {
+        const folderA = { name: 'api', uri: vscode.Uri.file('/ws/api'), index: 0 } as any;
+        const folderB = { name: 'web', uri: vscode.Uri.file('/ws/web'), index: 1 } as any;
+
+        beforeEach(() => {
+            (vscode.workspace.getWorkspaceFolder as jest.Mock).mockImplementation((uri: any) =>
+                [folderA, folderB].find(folder => uri.fsPath.startsWith(folder.uri.fsPath + '/'))
+            );
+            (vscode.workspace.findFiles as jest.Mock).mockImplementation(async (pattern: any) =>
+                [vscode.Uri.file(`${pattern.base.uri.fsPath}/Memory/test.md`)]
+            );
+            (vscode.workspace.fs.readFile as jest.Mock).mockResolvedValue(
+                // @ts-ignore - Mock return type
+                Buffer.from(validFileContent, 'utf8')
+            );
+        });
+
+        afterEach(() => {
+            (vscode.workspace.getWorkspaceFolder as jest.Mock).mockReset();
+            (vscode.workspace.findFiles as jest.Mock).mockReset();
+        });
+
+        it('should watch and index every workspace folder', async () => {
+            const fileCount = await memoryManager.watchWorkspaceFolders([folderA, folderB]);
+
+            expect(fileCount).toBe(2);
+            // Memory files, plus the schema, tag vocabulary and tag aliases files of each folder
+            expect(vscode.workspace.createFileSystemWatcher).toHaveBeenCalledTimes(9);
+
+            const memoryIndex = memoryManager.getMemoryIndex();
+            expect(memoryIndex.get('/ws/api/Memory/test.md')?.workspaceFolder).toBe('api');
+            expect(memoryIndex.get('/ws/web/Memory/test.md')?.workspaceFolder).toBe('web');
+        });
+
+        it('should index added folders and drop removed folders', async () => {
+            await memoryManager.watchWorkspaceFolders([folderA]);
+
+            await memoryManager.handleWorkspaceFoldersChanged([folderB], { added: [folderB], removed: [folderA] });
+            await new Promise(resolve => setTimeout(resolve, 10));
+
+            expect(memoryManager.getMemoryIndex().getFilePaths()).toEqual(['/ws/web/Memory/test.md']);
+            expect(memoryManager.getTagSystem().queryByTag('testing')).toEqual(['/ws/web/Memory/test.md']);
+        });
+    });
 });
@@ -219,6 +219,34 @@ Content with [link to file2](./file2.md).`;
             expect(results[0].content).not.toContain('Final content.');
         });
 
+        it('should append nested linked content up to the configured depth', async () => {
+            const file3 = path.join(tempDir, 'file3.md');
+            await fs.promises.writeFile(file3, 'Final content with a [loop](./file1.md).');
+
+            const file2 = path.join(tempDir, 'file2.md');
+            await fs.promises.writeFile(file2, 'Content with [link to file3](./file3.md).');
+
+            const file1 = path.join(tempDir, 'file1.md');
+            await fs.promises.writeFile(file1, `---
+title: "File 1"
+tags:
+  - "test"
+---
+
+Content with [link to file2](./file2.md).`);
+
+            contentInjector.setMaxLinkDepth(5);
+            const results = await contentInjector.getMemoryContents([file1]);
+
+            expect(results).toHaveLength(1);
+            expect(results[0].content).toContain('**Linked Content from: ./file2.md**');
+            expect(results[0].content).toContain('**Linked Content from: ./file3.md** (via file2.md)');
+            expect(results[0].content).toContain('Final content');
+
+            // The link back to file1 is a cycle and must not append file1 again
+            expect(results[0].content).not.toContain('Linked Content from: ./file1.md');
+        });
+
         it('should handle URLs by not resolving them', async () => {
             const baseFile = path.join(tempDir, 'with-url.md');
             const baseContent = `---